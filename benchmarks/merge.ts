@@ -0,0 +1,118 @@
+import { TextCrdt, TextCrdtSavedState } from "../src";
+
+/**
+ * Benchmarks TextCrdt's state-based merge (load on a replica that has
+ * already been used) against document size.
+ *
+ * Run with `npm run benchmarks`. Pass sizes as arguments to override the defaults,
+ * e.g., `npm run benchmarks -- 1000 10000`.
+ */
+
+const DEFAULT_SIZES = [10000, 100000, 1000000];
+/** Chars per insertAt call when building a document. */
+const CHUNK = 100;
+/** Concurrent edits (each insert or delete) made by each replica before merging. */
+const CONCURRENT_EDITS = 100;
+
+/**
+ * Seeded PRNG (mulberry32), so that runs are comparable.
+ */
+function rng(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Performs count random edits on crdt, whose current length is length.
+ *
+ * @returns The new length.
+ */
+function randomEdits(
+  crdt: TextCrdt,
+  length: number,
+  count: number,
+  random: () => number
+): number {
+  for (let i = 0; i < count; i++) {
+    if (length > CHUNK && random() < 0.3) {
+      crdt.deleteAt(Math.floor(random() * (length - CHUNK)), CHUNK / 2);
+      length -= CHUNK / 2;
+    } else {
+      crdt.insertAt(Math.floor(random() * (length + 1)), "x".repeat(CHUNK));
+      length += CHUNK;
+    }
+  }
+  return length;
+}
+
+/**
+ * Returns a saved state with at least size chars, built from random inserts
+ * and deletes, plus its length.
+ */
+function buildDoc(
+  size: number,
+  random: () => number
+): [savedState: TextCrdtSavedState, length: number] {
+  const crdt = new TextCrdt(() => {});
+  let length = 0;
+  while (length < size) length = randomEdits(crdt, length, 1, random);
+  return [crdt.save(), length];
+}
+
+function time(f: () => void): number {
+  const start = process.hrtime.bigint();
+  f();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+function report(name: string, size: number, ms: number) {
+  const rate = Math.round(size / (ms / 1000));
+  console.log(
+    `${name.padEnd(16)} ${String(size).padStart(8)} chars ${ms
+      .toFixed(1)
+      .padStart(9)} ms ${String(rate).padStart(11)} chars/s`
+  );
+}
+
+function benchmark(size: number) {
+  const random = rng(size);
+  const [base, length] = buildDoc(size, random);
+
+  // 1. Merge two replicas that share most of their state, after concurrent edits.
+  const alice = new TextCrdt(() => {});
+  const bob = new TextCrdt(() => {});
+  alice.load(base);
+  bob.load(base);
+  randomEdits(alice, length, CONCURRENT_EDITS, random);
+  randomEdits(bob, length, CONCURRENT_EDITS, random);
+  const bobState = bob.save();
+  report(
+    "shared",
+    size,
+    time(() => alice.load(bobState))
+  );
+
+  // 2. Merge a whole document into a replica that has only its own edits.
+  const charlie = new TextCrdt(() => {});
+  randomEdits(charlie, 0, CONCURRENT_EDITS, random);
+  report(
+    "disjoint",
+    size,
+    time(() => charlie.load(base))
+  );
+
+  // 3. Merge a replica's own state back into itself (all redundant).
+  report(
+    "redundant",
+    size,
+    time(() => alice.load(alice.save()))
+  );
+}
+
+const sizes =
+  process.argv.length > 2 ? process.argv.slice(2).map(Number) : DEFAULT_SIZES;
+for (const size of sizes) benchmark(size);
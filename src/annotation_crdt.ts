@@ -0,0 +1,517 @@
+import { BunchIDs, Position } from "list-positions";
+import { maybeRandomString } from "maybe-random-string";
+import { EventEmitter } from "./event_emitter";
+
+/**
+ * A last-writer-wins value of an annotation's field.
+ *
+ * Concurrent sets of the same field are resolved by last-writer-wins:
+ * the value with the greatest lamport wins, with ties broken by replicaID.
+ */
+export type AnnotationCrdtValue<T> = {
+  readonly value: T;
+  readonly lamport: number;
+  readonly replicaID: string;
+};
+
+/**
+ * An annotation's full state, as stored in AnnotationCrdtSavedState.
+ */
+export type AnnotationCrdtEntry<D> = {
+  /**
+   * The Position of the annotation's first char. Fixed when it is added.
+   */
+  readonly start: Position;
+  /**
+   * The Position of the annotation's last char (inclusive). Fixed when it is added.
+   */
+  readonly end: Position;
+  readonly data: AnnotationCrdtValue<D>;
+  readonly resolved: AnnotationCrdtValue<boolean>;
+  /**
+   * Deleting is permanent, so it wins over concurrent sets.
+   */
+  readonly deleted: boolean;
+};
+
+export type AnnotationCrdtAddMessage<D> = {
+  readonly type: "add";
+  readonly id: string;
+  readonly start: Position;
+  readonly end: Position;
+  readonly data: AnnotationCrdtValue<D>;
+  readonly resolved: AnnotationCrdtValue<boolean>;
+};
+
+/**
+ * Sets some of an annotation's fields. Omitted fields are unchanged.
+ */
+export type AnnotationCrdtUpdateMessage<D> = {
+  readonly type: "update";
+  readonly id: string;
+  readonly data?: AnnotationCrdtValue<D>;
+  readonly resolved?: AnnotationCrdtValue<boolean>;
+};
+
+export type AnnotationCrdtDeleteMessage = {
+  readonly type: "delete";
+  readonly id: string;
+};
+
+export type AnnotationCrdtMessage<D> =
+  | AnnotationCrdtAddMessage<D>
+  | AnnotationCrdtUpdateMessage<D>
+  | AnnotationCrdtDeleteMessage;
+
+export type AnnotationCrdtSavedState<D> = {
+  /**
+   * Every annotation that we've received, including deleted ones, keyed by ID.
+   */
+  readonly annotations: { readonly [id: string]: AnnotationCrdtEntry<D> };
+  /**
+   * Update and delete messages for annotations that we have not received yet.
+   */
+  readonly buffer: (
+    | AnnotationCrdtUpdateMessage<D>
+    | AnnotationCrdtDeleteMessage
+  )[];
+};
+
+/**
+ * A present annotation, as returned by AnnotationCrdt's accessors.
+ */
+export type AnnotationCrdtAnnotation<D> = {
+  readonly id: string;
+  readonly start: Position;
+  readonly end: Position;
+  readonly data: D;
+  readonly resolved: boolean;
+};
+
+/**
+ * An annotation's current range of indices in the text, [start, end).
+ */
+export type AnnotationCrdtRange = {
+  readonly start: number;
+  readonly end: number;
+  /**
+   * True if all of the annotation's chars have been deleted. The range is then
+   * empty (start === end), at the place where those chars used to be.
+   *
+   * If the text pruned an anchor's bunch (see `BaseCrdt.collectGarbage`),
+   * that place is lost, so the annotation is orphaned at the other anchor's
+   * place, or at 0.
+   */
+  readonly orphaned: boolean;
+};
+
+/**
+ * Event emitted by an AnnotationCrdt when an annotation is added, changed,
+ * or deleted.
+ */
+export type AnnotationCrdtChangeEvent<D> = {
+  readonly id: string;
+  /**
+   * The annotation's new state, or undefined if it was deleted.
+   */
+  readonly value: AnnotationCrdtAnnotation<D> | undefined;
+  /**
+   * The annotation's previous state, or undefined if it was just added.
+   */
+  readonly previousValue: AnnotationCrdtAnnotation<D> | undefined;
+  /**
+   * Whether the change was performed locally (add, setData, resolve, delete)
+   * instead of received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+export type AnnotationCrdtEvents<D> = {
+  Change: AnnotationCrdtChangeEvent<D>;
+};
+
+/**
+ * The parts of a TextCrdt that AnnotationCrdt uses.
+ *
+ * Any BaseCrdt works, but for ListCrdt, moves can put an annotation's
+ * end before its start.
+ */
+export interface AnnotatableCrdt {
+  readonly length: number;
+  hasSeen(pos: Position): boolean;
+  isPruned(pos: Position): boolean;
+  positionAt(index: number): Position;
+  indexOfPosition(pos: Position, searchDir?: "none" | "left" | "right"): number;
+  keepBunches(keep: (bunchID: string) => boolean): () => void;
+}
+
+/**
+ * A collection of annotations (e.g., comment threads or highlights) on ranges
+ * of a TextCrdt.
+ *
+ * Each annotation has data of type D, a resolved flag, and start and end
+ * anchors: the Positions of its first and last chars. Anchors keep their
+ * place as the text changes, so `rangeOf(id)` reports the annotation's current
+ * range, or that it is orphaned once all of its chars are deleted.
+ *
+ * Concurrent sets of an annotation's data or resolved flag are resolved by
+ * last-writer-wins; deleting an annotation wins over concurrent sets.
+ * Messages for annotations that we have not received yet are buffered.
+ *
+ * This CRDT is separate from its text: it has its own messages and saved
+ * state, and you sync and load them alongside the text's. Annotations whose
+ * anchors the text has not received yet are present, but have no range
+ * until it does.
+ *
+ * The text's garbage collection keeps the bunches of present annotations'
+ * anchors, so that their ranges stay known; call `dispose` to stop that.
+ */
+export class AnnotationCrdt<D = unknown> extends EventEmitter<
+  AnnotationCrdtEvents<D>
+> {
+  /**
+   * Our replica ID, used to break ties between concurrent sets.
+   */
+  readonly replicaID: string;
+  /**
+   * Lamport clock for sets: the greatest lamport we've seen.
+   */
+  private lamport = 0;
+  /**
+   * Generates annotation IDs. It uses its own random replicaID, so that IDs are
+   * unique even if replicaID is reused after reloading.
+   */
+  private readonly newID = BunchIDs.usingReplicaID();
+  private readonly entries = new Map<string, AnnotationCrdtEntry<D>>();
+  /**
+   * Maps from annotation ID to messages that are waiting for its add message.
+   */
+  private readonly pending = new Map<
+    string,
+    (AnnotationCrdtUpdateMessage<D> | AnnotationCrdtDeleteMessage)[]
+  >();
+  /**
+   * For each bunchID, the number of present annotations' anchors in it.
+   */
+  private readonly anchorBunches = new Map<string, number>();
+  private readonly stopKeeping: () => void;
+
+  /**
+   * @param text The CRDT whose Positions annotations refer to, usually a TextCrdt.
+   * @param options.replicaID Our replica ID. It must be globally unique.
+   * Default: A random alphanumeric string.
+   */
+  constructor(
+    readonly text: AnnotatableCrdt,
+    private readonly send: (message: AnnotationCrdtMessage<D>) => void,
+    options?: { replicaID?: string }
+  ) {
+    super();
+    this.replicaID = options?.replicaID ?? maybeRandomString();
+    this.stopKeeping = text.keepBunches((bunchID) =>
+      this.anchorBunches.has(bunchID)
+    );
+  }
+
+  /**
+   * Returns the annotation with the given ID, or undefined if it is not
+   * present (deleted or not yet received).
+   */
+  get(id: string): AnnotationCrdtAnnotation<D> | undefined {
+    const entry = this.entries.get(id);
+    return entry === undefined ? undefined : toAnnotation(id, entry);
+  }
+
+  has(id: string): boolean {
+    return this.get(id) !== undefined;
+  }
+
+  /**
+   * Returns the present annotations, in the order they were received.
+   */
+  annotations(): AnnotationCrdtAnnotation<D>[] {
+    const annotations: AnnotationCrdtAnnotation<D>[] = [];
+    for (const id of this.entries.keys()) {
+      const annotation = this.get(id);
+      if (annotation !== undefined) annotations.push(annotation);
+    }
+    return annotations;
+  }
+
+  /**
+   * Returns the annotation's current range of indices in the text.
+   *
+   * Returns undefined if the annotation is not present, or if the text has not
+   * received its anchors yet.
+   */
+  rangeOf(id: string): AnnotationCrdtRange | undefined {
+    const annotation = this.get(id);
+    if (annotation === undefined) return undefined;
+    const { start, end } = annotation;
+    if (this.text.isPruned(start) || this.text.isPruned(end)) {
+      const other = this.text.isPruned(start) ? end : start;
+      const index =
+        !this.text.isPruned(other) && this.text.hasSeen(other)
+          ? this.text.indexOfPosition(other, "right")
+          : 0;
+      return { start: index, end: index, orphaned: true };
+    }
+    if (!(this.text.hasSeen(start) && this.text.hasSeen(end))) return undefined;
+
+    // If an anchor's char is deleted, move inwards to the nearest present char.
+    const startIndex = this.text.indexOfPosition(start, "right");
+    const endIndex = this.text.indexOfPosition(end, "left") + 1;
+    if (startIndex < endIndex) {
+      return { start: startIndex, end: endIndex, orphaned: false };
+    }
+    return { start: startIndex, end: startIndex, orphaned: true };
+  }
+
+  /**
+   * Adds an annotation on the text's chars in [start, end), which must be
+   * nonempty, and returns its ID.
+   */
+  add(start: number, end: number, data: D): string {
+    if (!(0 <= start && start < end && end <= this.text.length)) {
+      throw new Error(
+        `Invalid annotation range: [${start}, ${end}) (length: ${this.text.length})`
+      );
+    }
+
+    const lamport = ++this.lamport;
+    const message: AnnotationCrdtAddMessage<D> = {
+      type: "add",
+      id: this.newID(),
+      start: this.text.positionAt(start),
+      end: this.text.positionAt(end - 1),
+      data: { value: data, lamport, replicaID: this.replicaID },
+      resolved: { value: false, lamport, replicaID: this.replicaID },
+    };
+    this.send(message);
+    this.receiveAdd(message, true);
+    return message.id;
+  }
+
+  setData(id: string, data: D): void {
+    this.update(id, { data: this.newValue(data) });
+  }
+
+  /**
+   * Marks an annotation resolved (or unresolved). Unlike delete, this is reversible.
+   */
+  resolve(id: string, resolved = true): void {
+    this.update(id, { resolved: this.newValue(resolved) });
+  }
+
+  delete(id: string): void {
+    this.checkPresent(id);
+    const message: AnnotationCrdtDeleteMessage = { type: "delete", id };
+    this.send(message);
+    this.receiveDelete(message, true);
+  }
+
+  receive(message: AnnotationCrdtMessage<D>): void {
+    switch (message.type) {
+      case "add":
+        this.receiveAdd(message, false);
+        break;
+      case "update":
+        this.receiveUpdate(message, false);
+        break;
+      case "delete":
+        this.receiveDelete(message, false);
+        break;
+      default:
+        throw new Error(
+          `Unknown message type: ${(message as { type: string }).type}`
+        );
+    }
+  }
+
+  save(): AnnotationCrdtSavedState<D> {
+    const buffer: AnnotationCrdtSavedState<D>["buffer"] = [];
+    for (const messages of this.pending.values()) buffer.push(...messages);
+    return { annotations: Object.fromEntries(this.entries), buffer };
+  }
+
+  /**
+   * Loads the given saved state, merging it into ours like receiving
+   * each of its annotations.
+   */
+  load(savedState: AnnotationCrdtSavedState<D>): void {
+    for (const [id, entry] of Object.entries(savedState.annotations)) {
+      if (entry.deleted && !this.entries.has(id)) {
+        // Store the deleted entry directly, without add and delete events.
+        // Messages waiting for it can no longer change it.
+        this.observe(entry.data);
+        this.observe(entry.resolved);
+        this.entries.set(id, entry);
+        this.pending.delete(id);
+        continue;
+      }
+      this.receiveAdd({ type: "add", id, ...entry }, false);
+      if (entry.deleted) this.receiveDelete({ type: "delete", id }, false);
+    }
+    for (const message of savedState.buffer) this.receive(message);
+  }
+
+  /**
+   * Stops keeping the text's anchor bunches from garbage collection.
+   */
+  dispose(): void {
+    this.stopKeeping();
+  }
+
+  private newValue<T>(value: T): AnnotationCrdtValue<T> {
+    return { value, lamport: ++this.lamport, replicaID: this.replicaID };
+  }
+
+  private checkPresent(id: string): void {
+    if (!this.has(id)) throw new Error(`Unknown annotation: ${id}`);
+  }
+
+  private update(
+    id: string,
+    fields: Omit<AnnotationCrdtUpdateMessage<D>, "type" | "id">
+  ): void {
+    this.checkPresent(id);
+    const message: AnnotationCrdtUpdateMessage<D> = {
+      type: "update",
+      id,
+      ...fields,
+    };
+    this.send(message);
+    this.receiveUpdate(message, true);
+  }
+
+  private receiveAdd(
+    message: AnnotationCrdtAddMessage<D>,
+    isLocal: boolean
+  ): void {
+    const { id, start, end, data, resolved } = message;
+    this.observe(data);
+    this.observe(resolved);
+    const current = this.entries.get(id);
+    if (current === undefined) {
+      this.setEntry(
+        id,
+        { start, end, data, resolved, deleted: false },
+        isLocal
+      );
+
+      // Deliver messages that were waiting for this one.
+      const idPending = this.pending.get(id);
+      if (idPending !== undefined) {
+        this.pending.delete(id);
+        for (const pendingMessage of idPending) this.receive(pendingMessage);
+      }
+    } else {
+      // Redundant, or merging a saved state: treat it like an update.
+      this.receiveUpdate({ type: "update", id, data, resolved }, isLocal);
+    }
+  }
+
+  private receiveUpdate(
+    message: AnnotationCrdtUpdateMessage<D>,
+    isLocal: boolean
+  ): void {
+    if (message.data !== undefined) this.observe(message.data);
+    if (message.resolved !== undefined) this.observe(message.resolved);
+    const current = this.entries.get(message.id);
+    if (current === undefined) {
+      this.buffer(message);
+      return;
+    }
+
+    let { data, resolved } = current;
+    if (message.data !== undefined && isNewer(message.data, data)) {
+      data = message.data;
+    }
+    if (message.resolved !== undefined && isNewer(message.resolved, resolved)) {
+      resolved = message.resolved;
+    }
+    if (data !== current.data || resolved !== current.resolved) {
+      this.setEntry(message.id, { ...current, data, resolved }, isLocal);
+    }
+  }
+
+  private receiveDelete(
+    message: AnnotationCrdtDeleteMessage,
+    isLocal: boolean
+  ): void {
+    const current = this.entries.get(message.id);
+    if (current === undefined) {
+      this.buffer(message);
+      return;
+    }
+    if (!current.deleted) {
+      this.setEntry(message.id, { ...current, deleted: true }, isLocal);
+    }
+  }
+
+  private buffer(
+    message: AnnotationCrdtUpdateMessage<D> | AnnotationCrdtDeleteMessage
+  ): void {
+    let idPending = this.pending.get(message.id);
+    if (idPending === undefined) {
+      idPending = [];
+      this.pending.set(message.id, idPending);
+    }
+    idPending.push(message);
+  }
+
+  private setEntry(
+    id: string,
+    entry: AnnotationCrdtEntry<D>,
+    isLocal: boolean
+  ): void {
+    const previousValue = this.get(id);
+    this.entries.set(id, entry);
+    const value = this.get(id);
+    if (previousValue !== undefined) this.countAnchors(previousValue, -1);
+    if (value !== undefined) this.countAnchors(value, 1);
+    if (value !== undefined || previousValue !== undefined) {
+      this.emit("Change", { id, value, previousValue, isLocal });
+    }
+  }
+
+  private countAnchors(
+    { start, end }: AnnotationCrdtAnnotation<D>,
+    delta: number
+  ): void {
+    for (const { bunchID } of [start, end]) {
+      const count = (this.anchorBunches.get(bunchID) ?? 0) + delta;
+      if (count === 0) this.anchorBunches.delete(bunchID);
+      else this.anchorBunches.set(bunchID, count);
+    }
+  }
+
+  private observe(value: AnnotationCrdtValue<unknown>): void {
+    this.lamport = Math.max(this.lamport, value.lamport);
+  }
+}
+
+function toAnnotation<D>(
+  id: string,
+  entry: AnnotationCrdtEntry<D>
+): AnnotationCrdtAnnotation<D> | undefined {
+  if (entry.deleted) return undefined;
+  return {
+    id,
+    start: entry.start,
+    end: entry.end,
+    data: entry.data.value,
+    resolved: entry.resolved.value,
+  };
+}
+
+/**
+ * Returns whether a beats b; see AnnotationCrdtValue.
+ */
+function isNewer<T>(
+  a: AnnotationCrdtValue<T>,
+  b: AnnotationCrdtValue<T>
+): boolean {
+  if (a.lamport !== b.lamport) return a.lamport > b.lamport;
+  return a.replicaID > b.replicaID;
+}
@@ -0,0 +1,1752 @@
+import {
+  BunchIDs,
+  BunchMeta,
+  BunchNode,
+  ListSavedState,
+  MAX_POSITION,
+  Order,
+  OrderSavedState,
+  Outline,
+  OutlineSavedState,
+  Position,
+  PositionMap,
+  PositionSet,
+  expandPositions,
+} from "list-positions";
+import { EventEmitter } from "./event_emitter";
+import { diffSequences } from "./internal/diff";
+import {
+  Intervals,
+  containerRuns,
+  fromContainerRuns,
+  fromIntervals,
+  intersectIntervals,
+  outlineIntervals,
+  subtractIntervals,
+  unionIntervals,
+} from "./internal/intervals";
+import { OpLog } from "./op_log";
+import {
+  CrdtStamp,
+  VersionVector,
+  compareVersionVectors,
+  mergeVersionVectors,
+} from "./version_vector";
+
+/**
+ * A same-bunch run of values in a BaseCrdt, e.g., `T[]` or `string`.
+ */
+export interface CrdtContent<S> {
+  readonly length: number;
+  slice(start?: number, end?: number): S;
+  concat(...others: S[]): S;
+}
+
+/**
+ * The parts of a list-positions container (List, Text, ...) that BaseCrdt uses.
+ *
+ * V is the type of a single value; S is the type of a same-bunch run of values.
+ */
+export interface CrdtContainer<V, S> {
+  readonly order: Order;
+  readonly length: number;
+  has(pos: Position): boolean;
+  delete(startPos: Position, sameBunchCount?: number): void;
+  getAt(index: number): V;
+  indexOfPosition(pos: Position, searchDir?: "none" | "left" | "right"): number;
+  positionAt(index: number): Position;
+  values(start?: number, end?: number): IterableIterator<V>;
+  slice(start?: number, end?: number): S;
+  items(
+    start?: number,
+    end?: number
+  ): IterableIterator<[startPos: Position, content: S]>;
+  save(): CrdtContainerSavedState<S>;
+  load(savedState: CrdtContainerSavedState<S>): void;
+  saveOutline(): OutlineSavedState;
+}
+
+/**
+ * Saved state of a CrdtContainer, e.g., ListSavedState or TextSavedState.
+ */
+export type CrdtContainerSavedState<S> = {
+  [bunchID: string]: (S | number)[];
+};
+
+/**
+ * Fields shared by messages that depend on a bunch's BunchMeta, which BaseCrdt
+ * buffers until the BunchMeta is known.
+ *
+ * These are "set" messages plus any subclass-specific message types
+ * (BaseCrdt's OM type param).
+ */
+export type CrdtBunchMessageBase = {
+  readonly type: string;
+  /**
+   * The message depends on startPos's bunch.
+   */
+  readonly startPos: Position;
+  /**
+   * startPos's BunchMeta, if it is new.
+   */
+  readonly meta?: BunchMeta;
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * Fields shared by all BaseCrdt "set" messages.
+ *
+ * Subclasses add a field holding the inserted content.
+ */
+export type CrdtSetMessageBase = CrdtBunchMessageBase & {
+  readonly type: "set";
+};
+
+export type CrdtDeleteMessage = {
+  readonly type: "delete";
+  readonly items: [startPos: Position, count: number][];
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * Message that performs several operations at once, sent by `transact`.
+ *
+ * M is the type of the operations' messages.
+ */
+export type CrdtTransactionMessage<M> = {
+  readonly type: "transaction";
+  /**
+   * The operations' messages, in order. They are not stamped individually.
+   */
+  readonly messages: M[];
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * Fields shared by all BaseCrdt messages.
+ */
+export type CrdtMessageBase = {
+  readonly type: string;
+  /**
+   * The sender's replicaID and sequence number for this message.
+   * BaseCrdt adds it when sending.
+   */
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * BaseCrdt's saved state, before subclasses rename its fields.
+ */
+export type BaseCrdtSavedState<S, MS> = {
+  readonly order: OrderSavedState;
+  readonly container: CrdtContainerSavedState<S>;
+  readonly seen: OutlineSavedState;
+  /**
+   * The stamps of all messages we've received, including our own, as an
+   * OutlineSavedState keyed by replicaID (in place of bunchID) and seq
+   * (in place of innerIndex). Absent (empty) in older saved states.
+   */
+  readonly received?: OutlineSavedState;
+  readonly buffer: (MS | CrdtDeleteMessage)[];
+  /**
+   * IDs of bunches pruned by `collectGarbage`, if any.
+   */
+  readonly pruned?: string[];
+};
+
+/**
+ * A compact description of the Positions that a BaseCrdt has seen,
+ * returned by `summary()`.
+ *
+ * Pass it to another replica's `saveDelta` to get just the state that you are missing.
+ */
+export type CrdtSummary = {
+  /**
+   * All Positions we've seen, whether currently present or deleted.
+   */
+  readonly seen: OutlineSavedState;
+  /**
+   * The seen Positions that are currently present.
+   */
+  readonly present: OutlineSavedState;
+  /**
+   * IDs of bunches that have seen Positions but whose BunchMeta we do not know,
+   * because we've only seen deletions in those bunches.
+   *
+   * We know the BunchMeta of every other bunch in `seen`.
+   */
+  readonly unknownMetas: string[];
+};
+
+/**
+ * One step of a diff between two tagged versions, returned by `diffVersions`.
+ *
+ * Applying the steps in order to the older version's values yields the
+ * newer version's values.
+ */
+export type CrdtVersionDiff<V> = {
+  readonly type: "insert" | "delete";
+  /**
+   * The index of the first inserted or deleted value, in the state just
+   * before this step.
+   */
+  readonly index: number;
+  readonly values: V[];
+};
+
+/**
+ * Saved state for a BaseCrdt's tagged versions, returned by `saveVersions()`.
+ */
+export type CrdtVersionsSavedState<V> = {
+  /**
+   * For each tag, the Positions (IDs) that were present when it was tagged.
+   */
+  readonly tags: { [tag: string]: OutlineSavedState };
+  /**
+   * The values of deleted Positions that some tag still includes.
+   */
+  readonly archive: ListSavedState<V>;
+};
+
+/**
+ * One of the events in a CrdtTransactionEvent: the name of an event in the
+ * events record E (e.g., "Insert"), plus the event.
+ */
+export type CrdtTransactionEventItem<E> = {
+  [K in Exclude<keyof E, "Transaction">]: {
+    readonly name: K;
+    readonly event: E[K];
+  };
+}[Exclude<keyof E, "Transaction">];
+
+/**
+ * Event emitted once per transaction (see `transact`), after the whole
+ * transaction is applied, in place of its operations' individual events.
+ */
+export type CrdtTransactionEvent<E> = {
+  /**
+   * The operations' events, in an order such that applying them to a copy
+   * of the previous state yields the current state.
+   */
+  readonly events: CrdtTransactionEventItem<E>[];
+  /**
+   * Whether the transaction was performed locally (transact) instead of
+   * received from another replica (receive).
+   */
+  readonly isLocal: boolean;
+};
+
+/**
+ * A run of content that is contiguous in both the list and its bunch,
+ * used to group events.
+ */
+type ContentRun<S> = { index: number; startPos: Position; content: S };
+
+/**
+ * The most sent messages that BaseCrdt keeps for `localMessagesSince`,
+ * roughly: it drops the oldest in batches once there are twice as many.
+ */
+const LOCAL_MESSAGES_LIMIT = 1000;
+
+/**
+ * Shared core of this package's CRDTs, generic over the underlying
+ * list-positions container.
+ *
+ * send/receive work on general networks (they build in exactly-once partial-order delivery),
+ * and save/load work as state-based merging.
+ *
+ * Internally, its state is a container C (for values) and a PositionSet (for tracking
+ * which Positions have been "seen"). This implementation uses Positions in messages
+ * and manually manages metadata; in particular, it must buffer certain out-of-order
+ * messages.
+ *
+ * Subclasses choose the concrete container and the formats of messages and events,
+ * by implementing the abstract methods below. See ListCrdt and TextCrdt for examples.
+ *
+ * Type params:
+ * - V: The type of a single value.
+ * - S: The type of a same-bunch run of values, e.g., `T[]` or `string`.
+ * - C: The container type.
+ * - MS: The "set" message type.
+ * - E: The events record, with `Insert`, `Delete`, and `Transaction` events.
+ *   The `Transaction` event must be a `CrdtTransactionEvent<E>`.
+ * - OM: Other message types that depend on a bunch's BunchMeta, if any.
+ *   Subclasses that set this must override `applyOther`.
+ * - M: All operations' message types. Subclasses with message types besides
+ *   MS, OM, and CrdtDeleteMessage must set this and override `deliver`.
+ *   The CRDT sends and receives these plus `CrdtTransactionMessage<M>`.
+ */
+export abstract class BaseCrdt<
+  V,
+  S extends CrdtContent<S>,
+  C extends CrdtContainer<V, S>,
+  MS extends CrdtSetMessageBase,
+  E extends { Insert: unknown; Delete: unknown; Transaction: unknown },
+  OM extends CrdtBunchMessageBase = never,
+  M extends CrdtMessageBase = MS | OM | CrdtDeleteMessage
+> extends EventEmitter<E> {
+  /**
+   * Our replica ID, used to stamp the messages that we send.
+   * Subclasses may also use it to break ties.
+   *
+   * New bunchIDs do not use it: this.container.order gets a random replicaID
+   * per instance, so a replica that reloads with the same replicaID cannot
+   * reuse its old bunchIDs.
+   */
+  readonly replicaID: string;
+  /**
+   * A set of all Positions we've ever seen, whether currently present or deleted.
+   * Used for state-based merging and handling reordered messages.
+   *
+   * We use PositionSet here because we don't care about the list order. If you did,
+   * you could use Outline instead, with the same Order as this.container
+   * (`this.seen = new Outline(this.order);`).
+   *
+   * Tracking all seen Positions (instead of just deleted ones) reduces
+   * internal sparse array fragmentation, leading to smaller memory and saved state sizes.
+   */
+  protected readonly seen: PositionSet;
+  /**
+   * Maps from bunchID to a Set of messages that are waiting on that
+   * bunch's BunchMeta before they can be processed.
+   */
+  protected readonly pending: Map<string, Set<MS | OM>>;
+  /**
+   * Generates bunchIDs for insertAfterPosition. It uses its own random replicaID,
+   * so its bunchIDs never collide with those from this.container.order.
+   */
+  private readonly newPlacedBunchID = BunchIDs.usingReplicaID();
+  /**
+   * The stamps of all messages we've received (applied or buffered) or sent,
+   * keyed like Positions with bunchID = replicaID and innerIndex = seq.
+   */
+  private readonly received = new PositionSet();
+  /**
+   * The seq for our next message.
+   */
+  private nextSeq = 0;
+  /**
+   * The messages that we've sent since this replica was created, in order,
+   * except that the oldest are dropped once there are too many
+   * (see LOCAL_MESSAGES_LIMIT).
+   */
+  private readonly localMessages: (M | CrdtTransactionMessage<M>)[] = [];
+  /**
+   * While in a local transaction, its operations' messages.
+   */
+  private transactionMessages: M[] | null = null;
+  /**
+   * While applying a transaction (local or remote), the events that it
+   * has emitted, for its Transaction event.
+   */
+  private transactionEvents: CrdtTransactionEventItem<E>[] | null = null;
+  /**
+   * For each version tag, the Positions that were present when it was tagged.
+   */
+  private readonly versions = new Map<string, PositionSet>();
+  /**
+   * The values of deleted Positions that are in some tagged version, so that we
+   * can reconstruct that version. Present values are read from this.container.
+   */
+  private readonly archive = new PositionMap<V>();
+  /**
+   * IDs of bunches pruned by collectGarbage. Messages that reference them
+   * are rejected.
+   */
+  private readonly pruned = new Set<string>();
+  /**
+   * The current garbage collection round, if any: our version vector when it
+   * started, and the bunches that were prunable then.
+   */
+  private gcRound: { vector: VersionVector; bunchIDs: Set<string> } | null =
+    null;
+  /**
+   * Callbacks from keepBunches, which keep bunches from being pruned.
+   */
+  private readonly keeps = new Set<(bunchID: string) => boolean>();
+
+  protected constructor(
+    protected readonly container: C,
+    private readonly sendStamped: (
+      message: M | CrdtTransactionMessage<M>
+    ) => void,
+    replicaID: string,
+    private readonly opLog?: OpLog<M | CrdtTransactionMessage<M>, unknown>
+  ) {
+    super();
+    this.replicaID = replicaID;
+    this.seen = new PositionSet();
+    this.pending = new Map();
+  }
+
+  // ----------
+  // Subclass hooks
+  // ----------
+
+  /**
+   * Inserts content into this.container at index, like `List.insertAt`.
+   */
+  protected abstract containerInsertAt(
+    index: number,
+    content: S
+  ): [startPos: Position, newMeta: BunchMeta | null];
+
+  /**
+   * Sets content in this.container starting at startPos, like `List.set`.
+   *
+   * @returns The content that was actually set. Subclasses may set something
+   * other than content, e.g., to apply an update that arrived before the insertion.
+   */
+  protected abstract containerSet(startPos: Position, content: S): S;
+
+  /**
+   * Returns a "set" message with the given fields.
+   */
+  protected abstract newSetMessage(
+    startPos: Position,
+    content: S,
+    meta: BunchMeta | null
+  ): MS;
+
+  /**
+   * Returns the content of a "set" message.
+   */
+  protected abstract setMessageContent(message: MS): S;
+
+  /**
+   * Returns an Insert event with the given fields.
+   */
+  protected abstract newInsertEvent(
+    index: number,
+    startPos: Position,
+    content: S,
+    isLocal: boolean
+  ): E["Insert"];
+
+  /**
+   * Returns a Delete event with the given fields.
+   */
+  protected abstract newDeleteEvent(
+    index: number,
+    startPos: Position,
+    content: S,
+    isLocal: boolean
+  ): E["Delete"];
+
+  /**
+   * Processes a message of one of the OM types, once its BunchMeta
+   * dependencies are satisfied.
+   *
+   * Subclasses that set OM must override this.
+   */
+  protected applyOther(message: OM): void {
+    throw new Error(`Unknown message type: ${message.type}`);
+  }
+
+  /**
+   * Returns whether the given same-bunch run appears in this.container
+   * in innerIndex order, if present.
+   *
+   * This is always true for list-positions containers. Subclasses whose
+   * container reorders values must override it.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected isRunInOrder(startPos: Position, count: number): boolean {
+    return true;
+  }
+
+  /**
+   * Returns the Position in this.container.order where the value with the given
+   * Position is, or would be if present.
+   *
+   * This is always pos for list-positions containers. Subclasses whose container
+   * moves values must override it.
+   */
+  protected currentPosition(pos: Position): Position {
+    return pos;
+  }
+
+  /**
+   * Returns the IDs of the bunches that message refers to, so that messages
+   * referring to pruned bunches can be rejected.
+   *
+   * Subclasses that set M must override this to handle their extra message
+   * types, calling `super.referencedBunchIDs` for the rest.
+   */
+  protected referencedBunchIDs(message: M): string[] {
+    const base = message as unknown as MS | OM | CrdtDeleteMessage;
+    if (base.type === "delete") {
+      return (base as CrdtDeleteMessage).items.map(([pos]) => pos.bunchID);
+    }
+    const { startPos, meta } = base as MS | OM;
+    return meta ? [startPos.bunchID, meta.parentID] : [startPos.bunchID];
+  }
+
+  /**
+   * Returns whether the given fully deleted bunch may be pruned by
+   * collectGarbage.
+   *
+   * Subclasses that keep other state about a bunch's Positions
+   * can override this to keep those bunches.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected canPrune(bunchID: string): boolean {
+    return true;
+  }
+
+  // ----------
+  // Accessors
+  // ----------
+
+  getAt(index: number): V {
+    return this.container.getAt(index);
+  }
+
+  [Symbol.iterator](): IterableIterator<V> {
+    return this.container.values();
+  }
+
+  values(): IterableIterator<V> {
+    return this.container.values();
+  }
+
+  /**
+   * The number of present values.
+   */
+  get length(): number {
+    return this.container.length;
+  }
+
+  /**
+   * Returns the Position of the value at index.
+   *
+   * Positions are stable despite concurrent edits, so use them to pin external
+   * annotations (comments, highlights, etc.) to values; convert back with
+   * `indexOfPosition`. In ListCrdt, this is the value's ID (see `idAt`).
+   */
+  positionAt(index: number): Position {
+    return this.container.positionAt(index);
+  }
+
+  /**
+   * Returns the current index of pos, like `List.indexOfPosition`.
+   *
+   * If pos is not present (e.g., its value was deleted), searchDir chooses the
+   * result: "none" returns -1, while "left"/"right" return the index of the
+   * nearest present value on that side (-1/length if there is none), so that
+   * annotation endpoints collapse sensibly.
+   *
+   * @throws If pos's bunch is unknown; check `has` first for Positions from
+   * other replicas.
+   */
+  indexOfPosition(
+    pos: Position,
+    searchDir: "none" | "left" | "right" = "none"
+  ): number {
+    return this.container.indexOfPosition(pos, searchDir);
+  }
+
+  /**
+   * Returns whether pos's value is present.
+   *
+   * Unlike `indexOfPosition`, this returns false instead of throwing for a
+   * Position whose bunch is unknown (e.g., a remote insert not yet received).
+   */
+  has(pos: Position): boolean {
+    if (this.container.order.getNode(pos.bunchID) === undefined) return false;
+    return this.container.has(pos);
+  }
+
+  /**
+   * Returns whether we have received pos's value, even if it was deleted since.
+   *
+   * Unlike `has`, this tells a deleted value apart from one that has not
+   * arrived yet. If true, `indexOfPosition(pos, searchDir)` does not throw.
+   */
+  hasSeen(pos: Position): boolean {
+    if (this.container.order.getNode(pos.bunchID) === undefined) return false;
+    return this.seen.has(pos);
+  }
+
+  /**
+   * Returns whether pos's bunch was pruned by `collectGarbage`, so that pos's
+   * place in the list is no longer known.
+   */
+  isPruned(pos: Position): boolean {
+    return this.pruned.has(pos.bunchID);
+  }
+
+  /**
+   * Returns pos's value, or undefined if it is not present.
+   */
+  get(pos: Position): V | undefined {
+    if (!this.has(pos)) return undefined;
+    return this.container.getAt(this.container.indexOfPosition(pos));
+  }
+
+  /**
+   * Yields each present value with its Position, in list order,
+   * for indices in [start, end).
+   */
+  *entries(
+    start?: number,
+    end?: number
+  ): IterableIterator<[pos: Position, value: V]> {
+    const values = this.container.values(start, end);
+    for (const [startPos, content] of this.container.items(start, end)) {
+      for (const pos of expandPositions(startPos, content.length)) {
+        yield [pos, values.next().value as V];
+      }
+    }
+  }
+
+  // ----------
+  // Operations
+  // ----------
+
+  /**
+   * Stamps message with our replicaID and next seq, records it, and sends it.
+   *
+   * In a transaction, the message is instead added to the transaction's message.
+   */
+  protected send(
+    message: MS | OM | CrdtDeleteMessage | M | CrdtTransactionMessage<M>
+  ): void {
+    if (this.transactionMessages !== null && !isTransaction(message)) {
+      this.transactionMessages.push(message as M);
+      return;
+    }
+
+    const stamp: CrdtStamp = { replicaID: this.replicaID, seq: this.nextSeq++ };
+    this.received.add({ bunchID: stamp.replicaID, innerIndex: stamp.seq });
+    const stamped = { ...message, stamp } as M | CrdtTransactionMessage<M>;
+    this.localMessages.push(stamped);
+    // Drop the oldest messages in batches, so that sending stays O(1) amortized.
+    if (this.localMessages.length > 2 * LOCAL_MESSAGES_LIMIT) {
+      this.localMessages.splice(
+        0,
+        this.localMessages.length - LOCAL_MESSAGES_LIMIT
+      );
+    }
+    this.opLog?.record("sent", stamped);
+    this.sendStamped(stamped);
+  }
+
+  /**
+   * Performs the operations in f as one transaction.
+   *
+   * The operations are sent as a single message, which other replicas apply
+   * all at once, so that they never see an intermediate state.
+   * Instead of each operation's events, a single Transaction event is emitted
+   * at the end, here and on other replicas.
+   *
+   * Nested calls are part of the outermost transaction. If f throws,
+   * the operations that it already performed are still sent.
+   */
+  transact(f: () => void): void {
+    if (this.transactionMessages !== null) {
+      f();
+      return;
+    }
+
+    const messages: M[] = [];
+    this.transactionMessages = messages;
+    this.collectEvents(true, () => {
+      try {
+        f();
+      } finally {
+        this.transactionMessages = null;
+        if (messages.length !== 0) {
+          this.send({ type: "transaction", messages });
+        }
+      }
+    });
+  }
+
+  /**
+   * Calls f, collecting the events that it emits into one Transaction event,
+   * which is emitted afterwards (if non-empty).
+   */
+  private collectEvents(isLocal: boolean, f: () => void): void {
+    const events: CrdtTransactionEventItem<E>[] = [];
+    this.transactionEvents = events;
+    try {
+      f();
+    } finally {
+      this.transactionEvents = null;
+      if (events.length !== 0) {
+        this.emit("Transaction", { events, isLocal } as E["Transaction"]);
+      }
+    }
+  }
+
+  protected emit<K extends keyof E>(eventName: K, event: E[K]): void {
+    if (this.transactionEvents !== null) {
+      this.transactionEvents.push({
+        name: eventName,
+        event,
+      } as unknown as CrdtTransactionEventItem<E>);
+    } else super.emit(eventName, event);
+  }
+
+  protected hasHandlers(eventName: keyof E): boolean {
+    if (this.transactionEvents !== null) {
+      return super.hasHandlers("Transaction");
+    }
+    return super.hasHandlers(eventName);
+  }
+
+  protected insertContentAt(index: number, content: S): void {
+    if (content.length === 0) return;
+
+    const [pos, newMeta] = this.containerInsertAt(index, content);
+    this.seen.add(pos, content.length);
+    this.send(this.newSetMessage(pos, content, newMeta));
+    this.emit("Insert", this.newInsertEvent(index, pos, content, true));
+  }
+
+  /**
+   * Changes the current values (current) to target, by deleting and inserting
+   * values according to a minimal diff between them.
+   *
+   * Unlike deleting everything and inserting target, this keeps unchanged
+   * values in place, so concurrent edits next to them are preserved.
+   */
+  protected applyDiff(
+    current: ArrayLike<V>,
+    target: S & ArrayLike<V>,
+    equals: (a: V, b: V) => boolean
+  ): void {
+    const hunks = diffSequences(current, target, equals);
+    // Apply the hunks from last to first, so that earlier indices stay valid.
+    for (let i = hunks.length - 1; i >= 0; i--) {
+      const [start, end, targetStart, targetEnd] = hunks[i];
+      if (end !== start) this.deleteAt(start, end - start);
+      this.insertContentAt(start, target.slice(targetStart, targetEnd));
+    }
+  }
+
+  deleteAt(index: number, count = 1): void {
+    if (count === 0) return;
+
+    const deleted: [startPos: Position, content: S][] = [];
+    if (count === 1) {
+      // Common case: use positionAt, which is faster than items.
+      deleted.push([
+        this.container.positionAt(index),
+        this.container.slice(index, index + 1),
+      ]);
+    } else {
+      deleted.push(...this.container.items(index, index + count));
+    }
+
+    for (const [startPos, content] of deleted) {
+      this.archiveDeleted(startPos, content.length);
+      this.container.delete(startPos, content.length);
+    }
+    this.send({
+      type: "delete",
+      items: deleted.map(([startPos, content]) => [startPos, content.length]),
+    });
+    // Each item starts at index once the previous items are deleted.
+    for (const [startPos, content] of deleted) {
+      this.emit("Delete", this.newDeleteEvent(index, startPos, content, true));
+    }
+  }
+
+  /**
+   * Inserts content immediately after prevPos, which may be deleted,
+   * and before the next present value.
+   *
+   * Unlike an index, prevPos keeps its place despite concurrent edits, and
+   * the content is placed correctly relative to other deleted values.
+   * UndoManager uses this to restore deleted content.
+   */
+  insertAfterPosition(prevPos: Position, content: S): void {
+    if (content.length === 0) return;
+    this.checkNotPruned(prevPos.bunchID);
+
+    const index = this.container.indexOfPosition(prevPos, "left") + 1;
+    const nextPos =
+      index === this.container.length
+        ? MAX_POSITION
+        : this.currentPosition(this.container.positionAt(index));
+    // Force a new bunch, so that the content is a child of prevPos or nextPos
+    // in the Order's tree, instead of wherever one of our own bunches ends.
+    const [startPos, newMeta] = this.container.order.createPositions(
+      this.currentPosition(prevPos),
+      nextPos,
+      content.length,
+      { bunchID: this.newPlacedBunchID() }
+    );
+    const setContent = this.containerSet(startPos, content);
+    this.seen.add(startPos, content.length);
+    this.send(this.newSetMessage(startPos, setContent, newMeta));
+    this.emit(
+      "Insert",
+      this.newInsertEvent(
+        this.container.indexOfPosition(startPos),
+        startPos,
+        setContent,
+        true
+      )
+    );
+  }
+
+  /**
+   * Deletes the values at the same-bunch Positions (startPos, sameBunchCount),
+   * skipping any that are not present.
+   *
+   * Unlike deleteAt, this refers to values by Position, so it deletes the same
+   * values despite concurrent edits. UndoManager uses this to undo insertions.
+   */
+  delete(startPos: Position, sameBunchCount = 1): void {
+    // If the bunch is unknown, none of its Positions are present, and we
+    // should skip calling container.has to avoid a "Missing metadata" error.
+    if (this.container.order.getNode(startPos.bunchID) === undefined) return;
+
+    const items: [startPos: Position, count: number][] = [];
+    const runs: ContentRun<S>[] = [];
+    for (const pos of expandPositions(startPos, sameBunchCount)) {
+      if (!this.container.has(pos)) continue;
+      this.deleteAndRecord(pos, runs);
+      const last = items[items.length - 1];
+      if (
+        last !== undefined &&
+        last[0].innerIndex + last[1] === pos.innerIndex
+      ) {
+        last[1]++;
+      } else items.push([pos, 1]);
+    }
+    if (items.length === 0) return;
+
+    this.send({ type: "delete", items });
+    this.emitDeletes(runs, true);
+  }
+
+  /**
+   * Receives a message from another replica's send callback.
+   *
+   * A transaction's operations are applied all at once, emitting a single
+   * Transaction event. Any of them that are waiting on a BunchMeta are
+   * buffered as usual, and applied (with their own events) once it arrives.
+   */
+  receive(message: M | CrdtTransactionMessage<M>): void {
+    if (message.stamp !== undefined) {
+      const id = {
+        bunchID: message.stamp.replicaID,
+        innerIndex: message.stamp.seq,
+      };
+      // Skip messages that we've already received.
+      if (this.received.has(id)) return;
+    }
+    const messages = isTransaction(message) ? message.messages : [message];
+    for (const inner of messages) {
+      for (const bunchID of this.referencedBunchIDs(inner)) {
+        this.checkNotPruned(bunchID);
+      }
+    }
+    if (message.stamp !== undefined) {
+      this.received.add({
+        bunchID: message.stamp.replicaID,
+        innerIndex: message.stamp.seq,
+      });
+    }
+    this.opLog?.record("received", message);
+    if (isTransaction(message)) {
+      this.collectEvents(false, () => {
+        for (const inner of messages) this.deliver(inner);
+      });
+    } else this.deliver(message);
+  }
+
+  /**
+   * Processes a received message, after recording its stamp.
+   *
+   * Subclasses that set M must override this to handle their extra message
+   * types, calling `super.deliver` for the rest.
+   */
+  protected deliver(message: M): void {
+    this.process(message as unknown as MS | OM | CrdtDeleteMessage);
+  }
+
+  private process(message: MS | OM | CrdtDeleteMessage): void {
+    if (message.type === "delete") {
+      this.receiveDelete(message as CrdtDeleteMessage);
+      return;
+    }
+
+    // Process message plus any buffered messages that it unblocks.
+    // We use a work queue instead of recursion so that unblocking a long
+    // dependency chain can't overflow the stack.
+    const queue: (MS | OM)[] = [message as MS | OM];
+    for (let i = 0; i < queue.length; i++) {
+      const unblocked = this.receiveBunchMessage(queue[i]);
+      if (unblocked !== undefined) {
+        for (const msg2 of unblocked) queue.push(msg2);
+      }
+    }
+  }
+
+  private receiveDelete(message: CrdtDeleteMessage): void {
+    const runs: ContentRun<S>[] = [];
+    for (const [startPos, count] of message.items) {
+      // Mark each position as seen immediately, even if we don't have metadata
+      // for its bunch yet. Okay because this.seen is a PositionSet instead of an Outline.
+      this.seen.add(startPos, count);
+
+      // Delete the positions if present.
+      // If the bunch is unknown, it's definitely not present, and we
+      // should skip calling container.has to avoid a "Missing metadata" error.
+      if (this.container.order.getNode(startPos.bunchID) !== undefined) {
+        this.deleteRange(startPos, count, runs);
+      }
+    }
+    this.emitDeletes(runs, false);
+  }
+
+  /**
+   * Processes a message that depends on a BunchMeta, or adds it to this.pending
+   * if it is blocked.
+   *
+   * @returns Buffered messages that are unblocked by this message, which the
+   * caller must process next.
+   */
+  private receiveBunchMessage(message: MS | OM): Set<MS | OM> | undefined {
+    const bunchID = message.startPos.bunchID;
+    if (message.meta) {
+      const parentID = message.meta.parentID;
+      if (this.container.order.getNode(parentID) === undefined) {
+        // The meta can't be processed yet because its parent bunch is unknown.
+        // Add it to pending.
+        this.addToPending(parentID, message);
+        return undefined;
+      } else this.container.order.addMetas([message.meta]);
+    }
+
+    if (this.container.order.getNode(bunchID) === undefined) {
+      // The message can't be processed yet because its bunch is unknown.
+      // Add it to pending.
+      this.addToPending(bunchID, message);
+      return undefined;
+    }
+
+    // At this point, BunchMeta dependencies are satisfied. Process the message.
+    if (message.type === "set") this.applySet(message as MS);
+    else this.applyOther(message as OM);
+
+    if (message.meta) {
+      // The meta may have unblocked pending messages.
+      const unblocked = this.pending.get(message.meta.bunchID);
+      if (unblocked !== undefined) {
+        this.pending.delete(message.meta.bunchID);
+        return unblocked;
+      }
+    }
+    return undefined;
+  }
+
+  private applySet(message: MS): void {
+    const bunchID = message.startPos.bunchID;
+
+    // Note that the insertion may have already been (partly) seen, due to
+    // redundant or out-of-order messages;
+    // only unseen positions need to be inserted.
+    const content = this.setMessageContent(message);
+    const startInnerIndex = message.startPos.innerIndex;
+    const runs: [startPos: Position, content: S][] = [];
+    for (const [start, count] of subtractIntervals(
+      [[startInnerIndex, content.length]],
+      this.seenIntervals(bunchID)
+    )) {
+      const offset = start - startInnerIndex;
+      const run = this.containerSet(
+        { bunchID, innerIndex: start },
+        content.slice(offset, offset + count)
+      );
+      runs.push([{ bunchID, innerIndex: start }, run]);
+    }
+    this.seen.add(message.startPos, content.length);
+    this.emitInserts(runs);
+  }
+
+  /**
+   * Deletes pos, which must be present, recording a Delete event for it.
+   *
+   * The event is merged into the last run in runs when possible.
+   */
+  private deleteAndRecord(pos: Position, runs: ContentRun<S>[]): void {
+    this.archiveDeleted(pos, 1);
+    if (!this.hasHandlers("Delete")) {
+      this.container.delete(pos);
+      return;
+    }
+
+    const index = this.container.indexOfPosition(pos);
+    const content = this.container.slice(index, index + 1);
+    this.container.delete(pos);
+
+    const last = runs[runs.length - 1];
+    if (
+      last !== undefined &&
+      last.index === index &&
+      last.startPos.bunchID === pos.bunchID &&
+      last.startPos.innerIndex + last.content.length === pos.innerIndex
+    ) {
+      last.content = last.content.concat(content);
+    } else runs.push({ index, startPos: pos, content });
+  }
+
+  /**
+   * Deletes the same-bunch range (startPos, count), some of which may
+   * already be deleted, recording Delete events in runs.
+   */
+  private deleteRange(
+    startPos: Position,
+    count: number,
+    runs: ContentRun<S>[]
+  ): void {
+    if (!this.hasHandlers("Delete")) {
+      this.archiveDeleted(startPos, count);
+      this.container.delete(startPos, count);
+      return;
+    }
+
+    for (const pos of expandPositions(startPos, count)) {
+      if (this.container.has(pos)) this.deleteAndRecord(pos, runs);
+    }
+  }
+
+  private emitDeletes(runs: ContentRun<S>[], isLocal: boolean): void {
+    for (const run of runs) {
+      this.emit(
+        "Delete",
+        this.newDeleteEvent(run.index, run.startPos, run.content, isLocal)
+      );
+    }
+  }
+
+  /**
+   * Emits Insert events for the given remote insertions, which must be present
+   * and non-overlapping.
+   *
+   * Each insertion is described as a same-bunch run (startPos, content).
+   * The runs need not be contiguous in the list; if not, they are split up.
+   */
+  private emitInserts(runs: [startPos: Position, content: S][]): void {
+    if (!this.hasHandlers("Insert")) return;
+
+    const events: ContentRun<S>[] = [];
+    for (const [startPos, content] of runs) {
+      const first = this.container.indexOfPosition(startPos);
+      const last = this.container.indexOfPosition({
+        bunchID: startPos.bunchID,
+        innerIndex: startPos.innerIndex + content.length - 1,
+      });
+      if (
+        last - first === content.length - 1 &&
+        this.isRunInOrder(startPos, content.length)
+      ) {
+        // The run is contiguous in the list (normal case).
+        events.push({ index: first, startPos, content });
+        continue;
+      }
+
+      // Split the run into list-contiguous pieces.
+      let current: ContentRun<S> = {
+        index: first,
+        startPos,
+        content: content.slice(0, 1),
+      };
+      for (let i = 1; i < content.length; i++) {
+        const pos = {
+          bunchID: startPos.bunchID,
+          innerIndex: startPos.innerIndex + i,
+        };
+        const index = this.container.indexOfPosition(pos);
+        if (current.index + current.content.length === index) {
+          current.content = current.content.concat(content.slice(i, i + 1));
+        } else {
+          events.push(current);
+          current = { index, startPos: pos, content: content.slice(i, i + 1) };
+        }
+      }
+      events.push(current);
+    }
+
+    // Since we use final indices, we must emit the events in list order
+    // for them to apply sequentially.
+    events.sort((a, b) => a.index - b.index);
+    for (const event of events) this.emitInsert(event);
+  }
+
+  private emitInsert(run: ContentRun<S>): void {
+    this.emit(
+      "Insert",
+      this.newInsertEvent(run.index, run.startPos, run.content, false)
+    );
+  }
+
+  /**
+   * Returns the innerIndex intervals that we've seen in the given bunch.
+   */
+  private seenIntervals(bunchID: string): Intervals {
+    const indices = this.seen.state.get(bunchID);
+    return indices === undefined ? [] : [...indices.items()];
+  }
+
+  /**
+   * Buffers message until the BunchMeta for bunchID arrives, then re-delivers
+   * it to receive.
+   */
+  protected addToPending(bunchID: string, message: MS | OM): void {
+    let bunchPending = this.pending.get(bunchID);
+    if (bunchPending === undefined) {
+      bunchPending = new Set();
+      this.pending.set(bunchID, bunchPending);
+    }
+    bunchPending.add(message);
+  }
+
+  // ----------
+  // Version vectors
+  // ----------
+
+  /**
+   * Returns our version vector: for each replica, the number of its messages
+   * that we've received (applied or buffered) without gaps, including our own.
+   *
+   * Compare it to a peer's vector with `versionVectorGap` to find the
+   * messages that one of you is missing.
+   */
+  versionVector(): VersionVector {
+    const vector: { [replicaID: string]: number } = {};
+    for (const replicaID of this.received.state.keys()) {
+      const count = this.receivedPrefix(replicaID);
+      if (count !== 0) vector[replicaID] = count;
+    }
+    return vector;
+  }
+
+  /**
+   * Returns the messages that we sent which are not covered by vector,
+   * in the order we sent them, or null if some of them are no longer available.
+   *
+   * Only recent messages sent since this replica was created are available;
+   * use `saveDelta` to catch up a peer on older ones.
+   */
+  localMessagesSince(
+    vector: VersionVector
+  ): (M | CrdtTransactionMessage<M>)[] | null {
+    const start = vector[this.replicaID] ?? 0;
+    const oldest =
+      this.localMessages.length === 0
+        ? this.nextSeq
+        : this.localMessages[0].stamp!.seq;
+    if (start < oldest) return null;
+    return this.localMessages.filter((message) => message.stamp!.seq >= start);
+  }
+
+  /**
+   * Sends again the messages that we sent which are not covered by vector,
+   * e.g., a peer's version vector after it reconnects.
+   *
+   * Returns false (sending nothing) if some of them are no longer available;
+   * see `localMessagesSince`.
+   */
+  resendSince(vector: VersionVector): boolean {
+    const messages = this.localMessagesSince(vector);
+    if (messages === null) return false;
+    for (const message of messages) this.sendStamped(message);
+    return true;
+  }
+
+  /**
+   * Returns the number of replicaID's messages that we've received without gaps.
+   */
+  private receivedPrefix(replicaID: string): number {
+    const indices = this.received.state.get(replicaID);
+    if (indices === undefined) return 0;
+    const first = indices.items().next();
+    if (first.done || first.value[0] !== 0) return 0;
+    return first.value[1];
+  }
+
+  // ----------
+  // Versions
+  // ----------
+
+  /**
+   * Tags the current version as tag, replacing any previous version with that tag.
+   *
+   * A tagged version records just the Positions that are present, not their
+   * values. Afterwards, we keep the values of deleted Positions that some tagged
+   * version includes, so that `valuesAtVersion` and `diffVersions` can use them.
+   * Untag versions that you no longer need, so that those values can be freed.
+   */
+  tagVersion(tag: string): void {
+    const present = new PositionSet();
+    present.load(this.container.saveOutline());
+    const replaced = this.versions.has(tag);
+    this.versions.set(tag, present);
+    if (replaced) this.pruneArchive();
+  }
+
+  /**
+   * Removes the version tagged tag, if any.
+   */
+  untagVersion(tag: string): void {
+    if (this.versions.delete(tag)) this.pruneArchive();
+  }
+
+  /**
+   * Returns the tags of all tagged versions.
+   */
+  versionTags(): string[] {
+    return [...this.versions.keys()];
+  }
+
+  /**
+   * Returns the values that were present in the version tagged tag, in list order.
+   *
+   * Values that are still present are read from the current state, so
+   * later changes to a value in place (e.g., ListCrdt's setAt) are reflected,
+   * and values are listed in their current order (e.g., after ListCrdt's moveAt).
+   * Insertions and deletions are always as of the version.
+   *
+   * @throws If no version is tagged tag.
+   */
+  valuesAtVersion(tag: string): V[] {
+    const version = this.getVersion(tag);
+    return this.versionOrder([version]).map((id) => this.versionValue(id));
+  }
+
+  /**
+   * Returns the insertions and deletions that turn the version tagged fromTag
+   * into the version tagged toTag, in the order to apply them.
+   *
+   * Consecutive insertions or deletions are merged into one step.
+   * Values are read as in `valuesAtVersion`.
+   *
+   * @throws If either tag is unknown.
+   */
+  diffVersions(fromTag: string, toTag: string): CrdtVersionDiff<V>[] {
+    const from = this.getVersion(fromTag);
+    const to = this.getVersion(toTag);
+
+    const diff: { type: "insert" | "delete"; index: number; values: V[] }[] =
+      [];
+    let index = 0;
+    for (const id of this.versionOrder([from, to])) {
+      const inFrom = from.has(id);
+      const inTo = to.has(id);
+      if (inFrom && inTo) {
+        index++;
+        continue;
+      }
+
+      const type = inFrom ? "delete" : "insert";
+      const last = diff[diff.length - 1];
+      if (
+        last !== undefined &&
+        last.type === type &&
+        last.index + (type === "insert" ? last.values.length : 0) === index
+      ) {
+        last.values.push(this.versionValue(id));
+      } else diff.push({ type, index, values: [this.versionValue(id)] });
+      if (type === "insert") index++;
+    }
+    return diff;
+  }
+
+  /**
+   * Returns our tagged versions, plus the deleted values that they need,
+   * as a JSON-serializable object.
+   *
+   * Versions are local, like undo history, so they are not part of `save()`.
+   */
+  saveVersions(): CrdtVersionsSavedState<V> {
+    const tags: { [tag: string]: OutlineSavedState } = {};
+    for (const [tag, version] of this.versions) tags[tag] = version.save();
+    return { tags, archive: this.archive.save() };
+  }
+
+  /**
+   * Loads tagged versions from `saveVersions()`, replacing any with the same tags.
+   *
+   * Call this after loading the CRDT state that the versions came from,
+   * so that their Positions' BunchMetas are known.
+   */
+  loadVersions(savedState: CrdtVersionsSavedState<V>): void {
+    for (const [tag, state] of Object.entries(savedState.tags)) {
+      const version = new PositionSet();
+      version.load(state);
+      this.versions.set(tag, version);
+    }
+    const archive = new PositionMap<V>();
+    archive.load(savedState.archive);
+    for (const [pos, value] of archive.entries()) this.archive.set(pos, value);
+    this.pruneArchive();
+  }
+
+  private getVersion(tag: string): PositionSet {
+    const version = this.versions.get(tag);
+    if (version === undefined) {
+      throw new Error(`Unknown version tag: ${tag}`);
+    }
+    return version;
+  }
+
+  /**
+   * Before the same-bunch range (startPos, count) is deleted, archives the
+   * values of its present Positions that some tagged version includes.
+   */
+  private archiveDeleted(startPos: Position, count: number): void {
+    if (this.versions.size === 0) return;
+
+    for (const pos of expandPositions(startPos, count)) {
+      if (this.isTagged(pos) && this.container.has(pos)) {
+        this.archive.set(
+          pos,
+          this.container.getAt(this.container.indexOfPosition(pos))
+        );
+      }
+    }
+  }
+
+  private isTagged(pos: Position): boolean {
+    for (const version of this.versions.values()) {
+      if (version.has(pos)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Frees archived values that no tagged version includes anymore.
+   */
+  private pruneArchive(): void {
+    for (const [pos] of [...this.archive.entries()]) {
+      if (!this.isTagged(pos)) this.archive.delete(pos);
+    }
+  }
+
+  /**
+   * Returns the union of the given versions' Positions, in list order.
+   */
+  private versionOrder(versions: PositionSet[]): Position[] {
+    const outline = new Outline(this.container.order);
+    // Maps current Positions back to IDs, for values that have moved.
+    const ids = new PositionMap<Position>();
+    for (const version of versions) {
+      for (const id of version.positions()) {
+        const pos = this.currentPosition(id);
+        outline.add(pos);
+        if (pos !== id) ids.set(pos, id);
+      }
+    }
+    return [...outline.positions()].map((pos) => ids.get(pos) ?? pos);
+  }
+
+  /**
+   * Returns the value of a Position in some tagged version.
+   */
+  private versionValue(id: Position): V {
+    if (this.container.has(id)) {
+      return this.container.getAt(this.container.indexOfPosition(id));
+    }
+    return this.archive.get(id)!;
+  }
+
+  // ----------
+  // Garbage collection
+  // ----------
+
+  /**
+   * Prunes bunches whose values have all been deleted, once every replica has
+   * acknowledged their deletion, so that they no longer take up space in
+   * `seen` and saved states.
+   *
+   * This is opt-in: call it periodically with the latest version vector
+   * (`versionVector()`) acknowledged by each other known replica.
+   *
+   * Collection takes two calls. The first records the fully deleted bunches
+   * and our current version vector. A later call prunes those bunches once
+   * every ack covers that vector and we've received every message that the
+   * acks cover, so no concurrent message can still refer to them.
+   * Bunches that gained content in the meantime are kept. Then the next
+   * round starts.
+   *
+   * Pruned bunches are removed from `seen` and omitted from saved states
+   * (the in-memory Order keeps them until reload). Afterwards, `receive` and
+   * `insertAfterPosition` throw if they refer to a pruned bunch, e.g.,
+   * to restore content next to deleted content.
+   * Bunches in a tagged version are never pruned, nor are bunches kept
+   * by `keepBunches`.
+   *
+   * @returns The IDs of the bunches pruned by this call.
+   */
+  collectGarbage(acks: VersionVector[]): string[] {
+    const ourVector = this.versionVector();
+    const prunedNow: string[] = [];
+    if (this.gcRound !== null) {
+      const round = this.gcRound;
+      const isReady =
+        acks.every((ack) => isCovered(round.vector, ack)) &&
+        isCovered(mergeVersionVectors(...acks), ourVector);
+      if (!isReady) return prunedNow;
+
+      for (const bunchID of this.prunableBunches(round.bunchIDs)) {
+        this.pruneBunch(bunchID);
+        prunedNow.push(bunchID);
+      }
+    }
+    this.gcRound = {
+      vector: ourVector,
+      bunchIDs: new Set(this.prunableBunches()),
+    };
+    return prunedNow;
+  }
+
+  /**
+   * Keeps the bunches for which keep returns true from being pruned by
+   * `collectGarbage`, e.g., bunches that external annotations refer to.
+   *
+   * @returns A function that stops keeping them.
+   */
+  keepBunches(keep: (bunchID: string) => boolean): () => void {
+    this.keeps.add(keep);
+    return () => this.keeps.delete(keep);
+  }
+
+  /**
+   * Returns the IDs of the unpruned bunches that can be pruned: those whose
+   * entire subtree in the Order has no present values (and is in candidates,
+   * if given).
+   */
+  private prunableBunches(candidates?: Set<string>): string[] {
+    const present = new PositionSet();
+    present.load(this.container.saveOutline());
+    const order = this.container.order;
+
+    // Keep each bunch that fails the checks, plus its ancestors.
+    const kept = new Set<string>([order.rootNode.bunchID]);
+    for (const node of order.nodes()) {
+      const bunchID = node.bunchID;
+      if (
+        (candidates === undefined || candidates.has(bunchID)) &&
+        !present.state.has(bunchID) &&
+        !this.isTaggedBunch(bunchID) &&
+        !this.isKeptBunch(bunchID) &&
+        this.canPrune(bunchID)
+      ) {
+        continue;
+      }
+      for (
+        let current: BunchNode | null = node;
+        current !== null && !kept.has(current.bunchID);
+        current = current.parent
+      ) {
+        kept.add(current.bunchID);
+      }
+    }
+
+    const prunable: string[] = [];
+    for (const node of order.nodes()) {
+      if (!kept.has(node.bunchID) && !this.pruned.has(node.bunchID)) {
+        prunable.push(node.bunchID);
+      }
+    }
+    return prunable;
+  }
+
+  private pruneBunch(bunchID: string): void {
+    this.pruned.add(bunchID);
+    for (const [start, count] of this.seenIntervals(bunchID)) {
+      this.seen.delete({ bunchID, innerIndex: start }, count);
+    }
+  }
+
+  private isTaggedBunch(bunchID: string): boolean {
+    for (const version of this.versions.values()) {
+      if (version.state.has(bunchID)) return true;
+    }
+    return false;
+  }
+
+  private isKeptBunch(bunchID: string): boolean {
+    for (const keep of this.keeps) {
+      if (keep(bunchID)) return true;
+    }
+    return false;
+  }
+
+  private checkNotPruned(bunchID: string): void {
+    if (this.pruned.has(bunchID)) {
+      throw new Error(
+        `Refers to bunch ${bunchID}, which was pruned by collectGarbage`
+      );
+    }
+  }
+
+  /**
+   * Returns the given BunchMetas, minus pruned bunches.
+   */
+  private withoutPruned(order: BunchMeta[]): BunchMeta[] {
+    if (this.pruned.size === 0) return order;
+    return order.filter((meta) => !this.pruned.has(meta.bunchID));
+  }
+
+  // ----------
+  // Saving and loading
+  // ----------
+
+  protected saveBase(): BaseCrdtSavedState<S, MS | OM> {
+    return {
+      order: this.withoutPruned(this.container.order.save()),
+      container: this.container.save(),
+      seen: this.seen.save(),
+      received: this.received.save(),
+      buffer: this.bufferedMessages(),
+      ...(this.pruned.size === 0 ? {} : { pruned: [...this.pruned] }),
+    };
+  }
+
+  private bufferedMessages(): (MS | OM)[] {
+    const buffer: (MS | OM)[] = [];
+    for (const messageSet of this.pending.values()) {
+      buffer.push(...messageSet);
+    }
+    return buffer;
+  }
+
+  /**
+   * Returns a compact description of the Positions that this replica has seen.
+   *
+   * Send it to another replica, which can then call `saveDelta` to get just
+   * the state that we are missing.
+   */
+  summary(): CrdtSummary {
+    const unknownMetas: string[] = [];
+    for (const bunchID of this.seen.state.keys()) {
+      if (this.container.order.getNode(bunchID) === undefined) {
+        unknownMetas.push(bunchID);
+      }
+    }
+    return {
+      seen: this.seen.save(),
+      present: this.container.saveOutline(),
+      unknownMetas,
+    };
+  }
+
+  /**
+   * Returns a delta: a saved state containing just the parts of our state that
+   * are missing from a replica with the given summary.
+   *
+   * Loading the delta on that replica has the same effect as loading our full saved
+   * state. (Loading it elsewhere may fail, since it omits BunchMetas that
+   * the summarized replica already knows.)
+   */
+  protected saveDeltaBase(
+    summary: CrdtSummary
+  ): BaseCrdtSavedState<S, MS | OM> {
+    const unknownMetas = new Set(summary.unknownMetas);
+    const isKnown = (bunchID: string) =>
+      summary.seen[bunchID] !== undefined && !unknownMetas.has(bunchID);
+
+    const order: BunchMeta[] = [];
+    for (const node of this.container.order.nodes()) {
+      if (node === this.container.order.rootNode) continue;
+      if (!isKnown(node.bunchID)) order.push(node.meta());
+    }
+
+    const ourContainer = this.container.save();
+    const container: CrdtContainerSavedState<S> = {};
+    const seen: OutlineSavedState = {};
+    for (const bunchID of this.seen.state.keys()) {
+      const ourSeen = this.seenIntervals(bunchID);
+      const ourPresent = containerRuns(ourContainer[bunchID] ?? []);
+      const peerSeen = outlineIntervals(summary.seen[bunchID] ?? []);
+      const peerPresent = outlineIntervals(summary.present[bunchID] ?? []);
+
+      // Positions the peer hasn't seen: send all of them, with values for
+      // the present ones.
+      const unseen = subtractIntervals(ourSeen, peerSeen);
+      const runs: [start: number, content: S][] = [];
+      let r = 0;
+      for (const [start, count] of intersectIntervals(
+        ourPresent.map(([runStart, content]) => [runStart, content.length]),
+        unseen
+      )) {
+        // Find the run containing start.
+        while (ourPresent[r][0] + ourPresent[r][1].length <= start) r++;
+        const [runStart, content] = ourPresent[r];
+        runs.push([
+          start,
+          content.slice(start - runStart, start - runStart + count),
+        ]);
+      }
+
+      // Positions the peer has present but we've deleted: send them without
+      // values, so that the peer deletes them.
+      const deleted = subtractIntervals(
+        intersectIntervals(peerPresent, ourSeen),
+        ourPresent.map(([runStart, content]) => [runStart, content.length])
+      );
+
+      const bunchSeen = unionIntervals(unseen, deleted);
+      if (bunchSeen.length !== 0) seen[bunchID] = fromIntervals(bunchSeen);
+      if (runs.length !== 0) container[bunchID] = fromContainerRuns(runs);
+    }
+
+    // The buffer and received stamps are usually small, so always send all
+    // of them.
+    return {
+      order: this.withoutPruned(order),
+      container,
+      seen,
+      received: this.received.save(),
+      buffer: this.bufferedMessages(),
+      ...(this.pruned.size === 0 ? {} : { pruned: [...this.pruned] }),
+    };
+  }
+
+  /**
+   * Whether this replica has never been used: it has seen no Positions,
+   * including ones that it since pruned (which are no longer in `seen`).
+   */
+  protected isUnused(): boolean {
+    return this.seen.state.size === 0 && this.pruned.size === 0;
+  }
+
+  /**
+   * Loads the given saved state.
+   *
+   * If this replica has never been used, this overwrites its state directly,
+   * without emitting events. Otherwise, it performs a state-based merge,
+   * emitting events for the changes.
+   */
+  protected loadBase(savedState: BaseCrdtSavedState<S, MS | OM>): void {
+    if (this.isUnused()) {
+      // Never been used, so okay to load directly instead of doing a state-based
+      // merge.
+      this.container.order.load(this.withoutPruned(savedState.order));
+      this.container.load(savedState.container);
+      this.seen.load(savedState.seen);
+      for (const bunchID of savedState.pruned ?? []) this.pruned.add(bunchID);
+    } else {
+      // Merge one bunch and one run at a time, working directly on savedState's
+      // run-length encoded representation.
+      this.container.order.load(this.withoutPruned(savedState.order));
+      // We do deletions immediately but defer insertions, so that Delete events
+      // can use the current index, while Insert events (emitted afterwards)
+      // use the final index.
+      const deleteRuns: ContentRun<S>[] = [];
+      const inserted: [startPos: Position, content: S][] = [];
+      for (const [bunchID, seenState] of Object.entries(savedState.seen)) {
+        if (this.pruned.has(bunchID)) {
+          // The other replica has not pruned this bunch yet. That's fine
+          // unless it still has values there.
+          if (savedState.container[bunchID] !== undefined) {
+            this.checkNotPruned(bunchID);
+          }
+          continue;
+        }
+        const otherSeen = outlineIntervals(seenState);
+        const otherPresent = containerRuns(savedState.container[bunchID] ?? []);
+        const ourSeen = this.seenIntervals(bunchID);
+
+        // Positions that are new to us: copy their state from the other list.
+        // That means inserting the present ones; the deleted ones just
+        // need to be marked seen, below.
+        let r = 0;
+        for (const [start, count] of subtractIntervals(
+          otherPresent.map(([runStart, content]) => [runStart, content.length]),
+          ourSeen
+        )) {
+          // Find the run containing start.
+          while (otherPresent[r][0] + otherPresent[r][1].length <= start) {
+            r++;
+          }
+          const [runStart, content] = otherPresent[r];
+          inserted.push([
+            { bunchID, innerIndex: start },
+            content.slice(start - runStart, start - runStart + count),
+          ]);
+        }
+
+        // Positions that we already know of: if they're deleted in the other list,
+        // ensure they're deleted here too.
+        // If the bunch is unknown, none of its positions are present here.
+        if (this.container.order.getNode(bunchID) !== undefined) {
+          const otherDeleted = subtractIntervals(
+            otherSeen,
+            otherPresent.map(([runStart, content]) => [
+              runStart,
+              content.length,
+            ])
+          );
+          for (const [start, count] of intersectIntervals(
+            otherDeleted,
+            ourSeen
+          )) {
+            this.deleteRange({ bunchID, innerIndex: start }, count, deleteRuns);
+          }
+        }
+
+        for (const [start, count] of otherSeen) {
+          this.seen.add({ bunchID, innerIndex: start }, count);
+        }
+      }
+      for (const run of inserted) {
+        run[1] = this.containerSet(run[0], run[1]);
+      }
+
+      this.emitDeletes(deleteRuns, false);
+      this.emitInserts(inserted);
+    }
+
+    // In either case, merge the received stamps.
+    const otherReceived = new PositionSet();
+    otherReceived.load(savedState.received ?? {});
+    for (const [replicaID, indices] of otherReceived.state) {
+      for (const [start, count] of indices.items()) {
+        this.received.add({ bunchID: replicaID, innerIndex: start }, count);
+      }
+    }
+    // Continue after our loaded seqs, e.g., when reloading with the same
+    // replicaID, so that peers do not skip our next messages as duplicates.
+    for (const [start, count] of this.received.state
+      .get(this.replicaID)
+      ?.items() ?? []) {
+      this.nextSeq = Math.max(this.nextSeq, start + count);
+    }
+
+    // Process buffer by re-delivering all of its messages.
+    for (const message of savedState.buffer) {
+      this.process(message);
+    }
+
+    // The loaded BunchMetas may also unblock our own buffered messages.
+    for (const [bunchID, messages] of [...this.pending]) {
+      if (this.container.order.getNode(bunchID) !== undefined) {
+        this.pending.delete(bunchID);
+        for (const message of messages) this.process(message);
+      }
+    }
+  }
+}
+
+function isTransaction<M>(
+  message: M | CrdtTransactionMessage<M>
+): message is CrdtTransactionMessage<M> {
+  return (message as CrdtMessageBase).type === "transaction";
+}
+
+/**
+ * Returns whether vector covers every operation that target covers.
+ */
+function isCovered(target: VersionVector, vector: VersionVector): boolean {
+  const comparison = compareVersionVectors(vector, target);
+  return comparison === "equal" || comparison === "after";
+}
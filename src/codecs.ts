@@ -0,0 +1,714 @@
+import {
+  BunchMeta,
+  ListSavedState,
+  OutlineSavedState,
+  Position,
+} from "list-positions";
+import {
+  BaseCrdtSavedState,
+  CrdtContainerSavedState,
+  CrdtDeleteMessage,
+  CrdtMessageBase,
+  CrdtSetMessageBase,
+  CrdtTransactionMessage,
+} from "./base_crdt";
+import {
+  BinaryReader,
+  BinaryWriter,
+  decodeString,
+  encodeString,
+} from "./internal/binary";
+import {
+  ListCrdt,
+  ListCrdtLocation,
+  ListCrdtMessage,
+  ListCrdtMoveMessage,
+  ListCrdtSavedState,
+  ListCrdtSetMessage,
+  ListCrdtUpdate,
+  ListCrdtUpdateMessage,
+} from "./list_crdt";
+import {
+  TextCrdtMessage,
+  TextCrdtSavedState,
+  TextCrdtSetMessage,
+} from "./text_crdt";
+import { CrdtStamp } from "./version_vector";
+
+/**
+ * Converts individual values of type T to and from bytes.
+ *
+ * Used by ListCrdtCodec to encode list values.
+ */
+export type ValueCodec<T> = {
+  encode(value: T): Uint8Array;
+  decode(bytes: Uint8Array): T;
+};
+
+/**
+ * A ValueCodec that encodes values as JSON strings.
+ */
+export class JsonValueCodec<T> implements ValueCodec<T> {
+  encode(value: T): Uint8Array {
+    return encodeString(JSON.stringify(value));
+  }
+
+  decode(bytes: Uint8Array): T {
+    return JSON.parse(decodeString(bytes)) as T;
+  }
+}
+
+/**
+ * Version of the binary format written by this package's codecs.
+ *
+ * Decoders reject any other version, so any change to the format must
+ * bump it.
+ */
+export const BINARY_FORMAT_VERSION = 1;
+
+const KIND_MESSAGE = 0;
+const KIND_SAVED_STATE = 1;
+
+const MESSAGE_SET = 0;
+const MESSAGE_DELETE = 1;
+const MESSAGE_TRANSACTION = 2;
+// Subclasses use types >= 3 for their OM messages.
+const MESSAGE_MOVE = 3;
+const MESSAGE_UPDATE = 4;
+
+/**
+ * Shared binary encoding for a BaseCrdt's messages and saved states.
+ *
+ * Each encoding starts with the format version and what kind of object it holds.
+ * Numbers are varints, and bunch IDs and replica IDs are written in full
+ * only the first time they appear in an encoding.
+ *
+ * Subclasses specify how to encode a run of content (type `S`), plus
+ * any other message types (type `OM`).
+ */
+export abstract class BaseCrdtCodec<
+  S,
+  MS extends CrdtSetMessageBase,
+  OM extends { readonly type: string } = never
+> {
+  protected abstract writeContent(writer: BinaryWriter, content: S): void;
+  protected abstract readContent(reader: BinaryReader): S;
+
+  /**
+   * Returns the content of a set message.
+   */
+  protected abstract setMessageContent(message: MS): S;
+  protected abstract newSetMessage(
+    startPos: Position,
+    content: S,
+    meta: BunchMeta | undefined
+  ): MS;
+
+  /**
+   * Writes a message of one of the OM types, starting with its type number (>= 3).
+   *
+   * Subclasses that set OM must override this and readOtherMessage.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected writeOtherMessage(writer: BinaryWriter, message: OM): void {
+    throw new Error(`Unknown message type: ${message.type}`);
+  }
+
+  /**
+   * Reads a message of one of the OM types, after its type number.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected readOtherMessage(reader: BinaryReader, type: number): OM {
+    throw new Error(`Invalid message type: ${type}`);
+  }
+
+  protected encodeMessageBase(
+    message:
+      | MS
+      | OM
+      | CrdtDeleteMessage
+      | CrdtTransactionMessage<MS | OM | CrdtDeleteMessage>
+  ): Uint8Array {
+    const writer = this.newWriter(KIND_MESSAGE);
+    this.writeMessage(writer, message);
+    return writer.finish();
+  }
+
+  protected decodeMessageBase(
+    bytes: Uint8Array
+  ):
+    | MS
+    | OM
+    | CrdtDeleteMessage
+    | CrdtTransactionMessage<MS | OM | CrdtDeleteMessage> {
+    const reader = this.newReader(bytes, KIND_MESSAGE);
+    const message = this.readMessage(reader);
+    reader.finish();
+    return message;
+  }
+
+  protected encodeSavedStateBase(
+    savedState: BaseCrdtSavedState<S, MS | OM>
+  ): Uint8Array {
+    const writer = this.newWriter(KIND_SAVED_STATE);
+    this.writeSavedState(writer, savedState);
+    return writer.finish();
+  }
+
+  protected decodeSavedStateBase(
+    bytes: Uint8Array
+  ): BaseCrdtSavedState<S, MS | OM> {
+    const reader = this.newReader(bytes, KIND_SAVED_STATE);
+    const savedState = this.readSavedState(reader);
+    reader.finish();
+    return savedState;
+  }
+
+  /**
+   * Writes savedState's fields, for subclasses that add their own fields
+   * afterwards.
+   */
+  protected writeSavedState(
+    writer: BinaryWriter,
+    savedState: BaseCrdtSavedState<S, MS | OM>
+  ): void {
+    // Write the order first so that later bunch IDs are table references.
+    writer.writeUvarint(savedState.order.length);
+    for (const meta of savedState.order) this.writeMeta(writer, meta);
+
+    const containerEntries = Object.entries(savedState.container);
+    writer.writeUvarint(containerEntries.length);
+    for (const [bunchID, items] of containerEntries) {
+      writer.writeID(bunchID);
+      writer.writeUvarint(items.length);
+      for (const item of items) {
+        if (typeof item === "number") {
+          // Odd: a deleted count.
+          writer.writeUvarint(2 * item + 1);
+        } else {
+          // Even: content follows.
+          writer.writeUvarint(0);
+          this.writeContent(writer, item);
+        }
+      }
+    }
+
+    this.writeOutline(writer, savedState.seen);
+    this.writeOutline(writer, savedState.received ?? {});
+
+    const pruned = savedState.pruned ?? [];
+    writer.writeUvarint(pruned.length);
+    for (const bunchID of pruned) writer.writeID(bunchID);
+
+    writer.writeUvarint(savedState.buffer.length);
+    for (const message of savedState.buffer) {
+      this.writeMessage(writer, message);
+    }
+  }
+
+  protected readSavedState(
+    reader: BinaryReader
+  ): BaseCrdtSavedState<S, MS | OM> {
+    const order: BunchMeta[] = [];
+    const orderLength = reader.readUvarint();
+    for (let i = 0; i < orderLength; i++) order.push(this.readMeta(reader));
+
+    const container: CrdtContainerSavedState<S> = {};
+    const containerLength = reader.readUvarint();
+    for (let i = 0; i < containerLength; i++) {
+      const bunchID = reader.readID();
+      const items: (S | number)[] = [];
+      const itemsLength = reader.readUvarint();
+      for (let j = 0; j < itemsLength; j++) {
+        const tag = reader.readUvarint();
+        if (tag % 2 === 1) items.push((tag - 1) / 2);
+        else items.push(this.readContent(reader));
+      }
+      container[bunchID] = items;
+    }
+
+    const seen = this.readOutline(reader);
+    const received = this.readOutline(reader);
+
+    const pruned: string[] = [];
+    const prunedLength = reader.readUvarint();
+    for (let i = 0; i < prunedLength; i++) pruned.push(reader.readID());
+
+    const buffer: (MS | OM | CrdtDeleteMessage)[] = [];
+    const bufferLength = reader.readUvarint();
+    for (let i = 0; i < bufferLength; i++) {
+      // Transactions are never buffered, just their messages.
+      buffer.push(this.readMessage(reader) as MS | OM | CrdtDeleteMessage);
+    }
+
+    return {
+      order,
+      container,
+      seen,
+      received,
+      buffer,
+      ...(pruned.length === 0 ? {} : { pruned }),
+    };
+  }
+
+  /**
+   * Writes an OutlineSavedState, e.g., seen Positions or received stamps
+   * (keyed by replicaID).
+   */
+  private writeOutline(writer: BinaryWriter, outline: OutlineSavedState): void {
+    const entries = Object.entries(outline);
+    writer.writeUvarint(entries.length);
+    for (const [bunchID, counts] of entries) {
+      writer.writeID(bunchID);
+      writer.writeUvarint(counts.length);
+      for (const count of counts) writer.writeUvarint(count);
+    }
+  }
+
+  private readOutline(reader: BinaryReader): OutlineSavedState {
+    const outline: { [bunchID: string]: number[] } = {};
+    const length = reader.readUvarint();
+    for (let i = 0; i < length; i++) {
+      const bunchID = reader.readID();
+      const counts: number[] = [];
+      const countsLength = reader.readUvarint();
+      for (let j = 0; j < countsLength; j++) counts.push(reader.readUvarint());
+      outline[bunchID] = counts;
+    }
+    return outline;
+  }
+
+  protected newWriter(kind: number): BinaryWriter {
+    const writer = new BinaryWriter();
+    writer.writeUvarint(BINARY_FORMAT_VERSION);
+    writer.writeByte(kind);
+    return writer;
+  }
+
+  protected newReader(bytes: Uint8Array, kind: number): BinaryReader {
+    const reader = new BinaryReader(bytes);
+    const version = reader.readUvarint();
+    if (version !== BINARY_FORMAT_VERSION) {
+      throw new Error(`Unsupported binary format version: ${version}`);
+    }
+    const actualKind = reader.readByte();
+    if (actualKind !== kind) {
+      throw new Error(
+        `Expected encoded ${kindName(kind)}, got ${kindName(actualKind)}`
+      );
+    }
+    return reader;
+  }
+
+  private writeMessage(
+    writer: BinaryWriter,
+    message:
+      | MS
+      | OM
+      | CrdtDeleteMessage
+      | CrdtTransactionMessage<MS | OM | CrdtDeleteMessage>
+  ): void {
+    const stamp = (message as CrdtMessageBase).stamp;
+    if (stamp === undefined) writer.writeByte(0);
+    else {
+      writer.writeByte(1);
+      writer.writeID(stamp.replicaID);
+      writer.writeUvarint(stamp.seq);
+    }
+
+    switch (message.type) {
+      case "delete":
+        writer.writeByte(MESSAGE_DELETE);
+        this.writeRuns(writer, (message as CrdtDeleteMessage).items);
+        break;
+      case "transaction": {
+        const { messages } = message as CrdtTransactionMessage<
+          MS | OM | CrdtDeleteMessage
+        >;
+        writer.writeByte(MESSAGE_TRANSACTION);
+        writer.writeUvarint(messages.length);
+        for (const inner of messages) this.writeMessage(writer, inner);
+        break;
+      }
+      case "set": {
+        const setMessage = message as MS;
+        writer.writeByte(MESSAGE_SET);
+        this.writePosition(writer, setMessage.startPos);
+        this.writeOptionalMeta(writer, setMessage.meta);
+        this.writeContent(writer, this.setMessageContent(setMessage));
+        break;
+      }
+      default:
+        this.writeOtherMessage(writer, message as OM);
+    }
+  }
+
+  private readMessage(
+    reader: BinaryReader
+  ):
+    | MS
+    | OM
+    | CrdtDeleteMessage
+    | CrdtTransactionMessage<MS | OM | CrdtDeleteMessage> {
+    let stamp: CrdtStamp | undefined = undefined;
+    if (reader.readByte() === 1) {
+      const replicaID = reader.readID();
+      stamp = { replicaID, seq: reader.readUvarint() };
+    }
+    const message = this.readMessageBody(reader);
+    return stamp === undefined ? message : { ...message, stamp };
+  }
+
+  private readMessageBody(
+    reader: BinaryReader
+  ):
+    | MS
+    | OM
+    | CrdtDeleteMessage
+    | CrdtTransactionMessage<MS | OM | CrdtDeleteMessage> {
+    const type = reader.readByte();
+    switch (type) {
+      case MESSAGE_DELETE:
+        return { type: "delete", items: this.readRuns(reader) };
+      case MESSAGE_TRANSACTION: {
+        const messages: (MS | OM | CrdtDeleteMessage)[] = [];
+        const length = reader.readUvarint();
+        for (let i = 0; i < length; i++) {
+          messages.push(
+            this.readMessage(reader) as MS | OM | CrdtDeleteMessage
+          );
+        }
+        return { type: "transaction", messages };
+      }
+      case MESSAGE_SET: {
+        const startPos = this.readPosition(reader);
+        const meta = this.readOptionalMeta(reader);
+        return this.newSetMessage(startPos, this.readContent(reader), meta);
+      }
+      default:
+        return this.readOtherMessage(reader, type);
+    }
+  }
+
+  /**
+   * Writes same-bunch runs [startPos, count], as in a delete message.
+   */
+  protected writeRuns(
+    writer: BinaryWriter,
+    runs: [startPos: Position, count: number][]
+  ): void {
+    writer.writeUvarint(runs.length);
+    for (const [startPos, count] of runs) {
+      this.writePosition(writer, startPos);
+      writer.writeUvarint(count);
+    }
+  }
+
+  protected readRuns(
+    reader: BinaryReader
+  ): [startPos: Position, count: number][] {
+    const runs: [startPos: Position, count: number][] = [];
+    const runsLength = reader.readUvarint();
+    for (let i = 0; i < runsLength; i++) {
+      const startPos = this.readPosition(reader);
+      runs.push([startPos, reader.readUvarint()]);
+    }
+    return runs;
+  }
+
+  protected writeOptionalMeta(
+    writer: BinaryWriter,
+    meta: BunchMeta | undefined
+  ): void {
+    if (meta === undefined) writer.writeByte(0);
+    else {
+      writer.writeByte(1);
+      this.writeMeta(writer, meta);
+    }
+  }
+
+  protected readOptionalMeta(reader: BinaryReader): BunchMeta | undefined {
+    return reader.readByte() === 1 ? this.readMeta(reader) : undefined;
+  }
+
+  protected writePosition(writer: BinaryWriter, pos: Position): void {
+    writer.writeID(pos.bunchID);
+    writer.writeUvarint(pos.innerIndex);
+  }
+
+  protected readPosition(reader: BinaryReader): Position {
+    const bunchID = reader.readID();
+    return { bunchID, innerIndex: reader.readUvarint() };
+  }
+
+  private writeMeta(writer: BinaryWriter, meta: BunchMeta): void {
+    writer.writeID(meta.bunchID);
+    writer.writeID(meta.parentID);
+    writer.writeUvarint(meta.offset);
+  }
+
+  private readMeta(reader: BinaryReader): BunchMeta {
+    const bunchID = reader.readID();
+    const parentID = reader.readID();
+    return { bunchID, parentID, offset: reader.readUvarint() };
+  }
+}
+
+function kindName(kind: number): string {
+  switch (kind) {
+    case KIND_MESSAGE:
+      return "message";
+    case KIND_SAVED_STATE:
+      return "saved state";
+    default:
+      return `unknown kind ${kind}`;
+  }
+}
+
+/**
+ * Binary encoder/decoder for ListCrdt messages and saved states.
+ *
+ * Values are encoded using the given ValueCodec, which defaults to JSON.
+ * Use `ListCrdtCodec.forList(list)` to use the list's `valueCodec` option.
+ */
+export class ListCrdtCodec<T> extends BaseCrdtCodec<
+  T[],
+  ListCrdtSetMessage<T>,
+  ListCrdtMoveMessage | ListCrdtUpdateMessage<T>
+> {
+  constructor(
+    private readonly valueCodec: ValueCodec<T> = new JsonValueCodec<T>()
+  ) {
+    super();
+  }
+
+  /**
+   * Returns a codec for list's messages and saved states, using its
+   * `valueCodec`.
+   */
+  static forList<T>(list: ListCrdt<T>): ListCrdtCodec<T> {
+    return new ListCrdtCodec(list.valueCodec);
+  }
+
+  encodeMessage(message: ListCrdtMessage<T>): Uint8Array {
+    return this.encodeMessageBase(message);
+  }
+
+  decodeMessage(bytes: Uint8Array): ListCrdtMessage<T> {
+    return this.decodeMessageBase(bytes);
+  }
+
+  encodeSavedState(savedState: ListCrdtSavedState<T>): Uint8Array {
+    const { list, locations, updates, ...rest } = savedState;
+    const writer = this.newWriter(KIND_SAVED_STATE);
+    this.writeSavedState(writer, { ...rest, container: list });
+    this.writeSparse(writer, locations ?? {}, (location) => {
+      this.writePosition(writer, location.pos);
+      writer.writeUvarint(location.lamport);
+    });
+    this.writeSparse(writer, updates ?? {}, (update) => {
+      writer.writeBytes(this.valueCodec.encode(update.value));
+      writer.writeUvarint(update.lamport);
+      writer.writeID(update.replicaID);
+    });
+    return writer.finish();
+  }
+
+  decodeSavedState(bytes: Uint8Array): ListCrdtSavedState<T> {
+    const reader = this.newReader(bytes, KIND_SAVED_STATE);
+    const { container, buffer, ...rest } = this.readSavedState(reader);
+    const locations = this.readSparse(reader, (): ListCrdtLocation => {
+      const pos = this.readPosition(reader);
+      return { pos, lamport: reader.readUvarint() };
+    });
+    const updates = this.readSparse(reader, (): ListCrdtUpdate<T> => {
+      const value = this.valueCodec.decode(reader.readBytes());
+      const lamport = reader.readUvarint();
+      return { value, lamport, replicaID: reader.readID() };
+    });
+    reader.finish();
+    return {
+      ...rest,
+      list: container,
+      locations,
+      updates,
+      // Update messages are never buffered, so none are encoded.
+      buffer: buffer as ListCrdtSavedState<T>["buffer"],
+    };
+  }
+
+  /**
+   * Writes a ListSavedState-style map from IDs to items, like the locations
+   * in a saved state.
+   */
+  private writeSparse<I>(
+    writer: BinaryWriter,
+    savedState: ListSavedState<I>,
+    writeItem: (item: I) => void
+  ): void {
+    const entries = Object.entries(savedState);
+    writer.writeUvarint(entries.length);
+    for (const [bunchID, runs] of entries) {
+      writer.writeID(bunchID);
+      writer.writeUvarint(runs.length);
+      for (const run of runs) {
+        if (typeof run === "number") {
+          // Odd: a count of IDs without items.
+          writer.writeUvarint(2 * run + 1);
+        } else {
+          // Even: that many items follow.
+          writer.writeUvarint(2 * run.length);
+          for (const item of run) writeItem(item);
+        }
+      }
+    }
+  }
+
+  private readSparse<I>(
+    reader: BinaryReader,
+    readItem: () => I
+  ): ListSavedState<I> {
+    const savedState: { [bunchID: string]: (I[] | number)[] } = {};
+    const length = reader.readUvarint();
+    for (let i = 0; i < length; i++) {
+      const bunchID = reader.readID();
+      const runs: (I[] | number)[] = [];
+      const runsLength = reader.readUvarint();
+      for (let j = 0; j < runsLength; j++) {
+        const tag = reader.readUvarint();
+        if (tag % 2 === 1) runs.push((tag - 1) / 2);
+        else {
+          const run: I[] = [];
+          for (let k = 0; k < tag / 2; k++) run.push(readItem());
+          runs.push(run);
+        }
+      }
+      savedState[bunchID] = runs;
+    }
+    return savedState;
+  }
+
+  protected writeContent(writer: BinaryWriter, values: T[]): void {
+    writer.writeUvarint(values.length);
+    for (const value of values)
+      writer.writeBytes(this.valueCodec.encode(value));
+  }
+
+  protected readContent(reader: BinaryReader): T[] {
+    const values: T[] = [];
+    const length = reader.readUvarint();
+    for (let i = 0; i < length; i++) {
+      values.push(this.valueCodec.decode(reader.readBytes()));
+    }
+    return values;
+  }
+
+  protected setMessageContent(message: ListCrdtSetMessage<T>): T[] {
+    return message.values;
+  }
+
+  protected newSetMessage(
+    startPos: Position,
+    values: T[],
+    meta: BunchMeta | undefined
+  ): ListCrdtSetMessage<T> {
+    return { type: "set", startPos, values, ...(meta ? { meta } : {}) };
+  }
+
+  protected writeOtherMessage(
+    writer: BinaryWriter,
+    message: ListCrdtMoveMessage | ListCrdtUpdateMessage<T>
+  ): void {
+    if (message.type === "update") {
+      writer.writeByte(MESSAGE_UPDATE);
+      this.writePosition(writer, message.id);
+      writer.writeBytes(this.valueCodec.encode(message.value));
+      writer.writeUvarint(message.lamport);
+      writer.writeID(message.replicaID);
+      return;
+    }
+    writer.writeByte(MESSAGE_MOVE);
+    this.writeRuns(writer, message.items);
+    this.writePosition(writer, message.startPos);
+    this.writeOptionalMeta(writer, message.meta);
+    writer.writeUvarint(message.lamport);
+  }
+
+  protected readOtherMessage(
+    reader: BinaryReader,
+    type: number
+  ): ListCrdtMoveMessage | ListCrdtUpdateMessage<T> {
+    switch (type) {
+      case MESSAGE_MOVE: {
+        const items = this.readRuns(reader);
+        const startPos = this.readPosition(reader);
+        const meta = this.readOptionalMeta(reader);
+        const lamport = reader.readUvarint();
+        return {
+          type: "move",
+          items,
+          startPos,
+          lamport,
+          ...(meta ? { meta } : {}),
+        };
+      }
+      case MESSAGE_UPDATE: {
+        const id = this.readPosition(reader);
+        const value = this.valueCodec.decode(reader.readBytes());
+        const lamport = reader.readUvarint();
+        return {
+          type: "update",
+          id,
+          value,
+          lamport,
+          replicaID: reader.readID(),
+        };
+      }
+      default:
+        throw new Error(`Invalid message type: ${type}`);
+    }
+  }
+}
+
+/**
+ * Binary encoder/decoder for TextCrdt messages and saved states.
+ */
+export class TextCrdtCodec extends BaseCrdtCodec<string, TextCrdtSetMessage> {
+  encodeMessage(message: TextCrdtMessage): Uint8Array {
+    return this.encodeMessageBase(message);
+  }
+
+  decodeMessage(bytes: Uint8Array): TextCrdtMessage {
+    return this.decodeMessageBase(bytes);
+  }
+
+  encodeSavedState(savedState: TextCrdtSavedState): Uint8Array {
+    const { text, ...rest } = savedState;
+    return this.encodeSavedStateBase({ ...rest, container: text });
+  }
+
+  decodeSavedState(bytes: Uint8Array): TextCrdtSavedState {
+    const { container, ...rest } = this.decodeSavedStateBase(bytes);
+    return { ...rest, text: container };
+  }
+
+  protected writeContent(writer: BinaryWriter, chars: string): void {
+    writer.writeString(chars);
+  }
+
+  protected readContent(reader: BinaryReader): string {
+    return reader.readString();
+  }
+
+  protected setMessageContent(message: TextCrdtSetMessage): string {
+    return message.chars;
+  }
+
+  protected newSetMessage(
+    startPos: Position,
+    chars: string,
+    meta: BunchMeta | undefined
+  ): TextCrdtSetMessage {
+    return { type: "set", startPos, chars, ...(meta ? { meta } : {}) };
+  }
+}
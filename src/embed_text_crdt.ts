@@ -0,0 +1,273 @@
+import {
+  BunchMeta,
+  OrderSavedState,
+  OutlineSavedState,
+  Position,
+  TextSavedState,
+} from "list-positions";
+import { maybeRandomString } from "maybe-random-string";
+import {
+  BaseCrdt,
+  CrdtDeleteMessage,
+  CrdtSummary,
+  CrdtTransactionEvent,
+  CrdtTransactionMessage,
+} from "./base_crdt";
+import {
+  EmbedRun,
+  EmbedText,
+  fromTextSavedState,
+  toTextSavedState,
+} from "./internal/embed_text";
+import { OpLog } from "./op_log";
+import { CrdtStamp } from "./version_vector";
+
+export type EmbedTextCrdtSetMessage<E extends object> = {
+  readonly type: "set";
+  readonly startPos: Position;
+  /**
+   * The inserted chars and embeds, in the compact form of `slice()`.
+   */
+  readonly content: (string | E)[];
+  readonly meta?: BunchMeta;
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * A message for a single EmbedTextCrdt operation.
+ */
+export type EmbedTextCrdtOperationMessage<E extends object> =
+  | EmbedTextCrdtSetMessage<E>
+  | CrdtDeleteMessage;
+
+export type EmbedTextCrdtMessage<E extends object> =
+  | EmbedTextCrdtOperationMessage<E>
+  | CrdtTransactionMessage<EmbedTextCrdtOperationMessage<E>>;
+
+export type EmbedTextCrdtSavedState<E extends object> = {
+  readonly order: OrderSavedState;
+  readonly text: TextSavedState<E>;
+  readonly seen: OutlineSavedState;
+  /**
+   * The stamps of all messages received; see `versionVector()`.
+   * Absent in saved states from before stamps; treated as empty.
+   */
+  readonly received?: OutlineSavedState;
+  /**
+   * IDs of bunches pruned by `collectGarbage()`, if any.
+   */
+  readonly pruned?: string[];
+  readonly buffer: EmbedTextCrdtOperationMessage<E>[];
+};
+
+/**
+ * Event emitted by an EmbedTextCrdt when chars and embeds are inserted.
+ */
+export type EmbedTextCrdtInsertEvent<E extends object> = {
+  /**
+   * The index of the first inserted value, in the state just after this event.
+   */
+  readonly index: number;
+  /**
+   * The Position of the first inserted value. The values use
+   * `expandPositions(startPos, count)`, where each char and each embed
+   * counts as one value.
+   */
+  readonly startPos: Position;
+  /**
+   * The inserted chars and embeds, in the compact form of `slice()`.
+   */
+  readonly content: (string | E)[];
+  /**
+   * Whether the insertion was performed locally (insertAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+/**
+ * Event emitted by an EmbedTextCrdt when chars and embeds are deleted.
+ */
+export type EmbedTextCrdtDeleteEvent<E extends object> = {
+  /**
+   * The index of the first deleted value, in the state just before this event.
+   */
+  readonly index: number;
+  /**
+   * The Position of the first deleted value. The values used
+   * `expandPositions(startPos, count)`, where each char and each embed
+   * counts as one value.
+   */
+  readonly startPos: Position;
+  /**
+   * The deleted chars and embeds, in the compact form of `slice()`.
+   */
+  readonly content: (string | E)[];
+  /**
+   * Whether the deletion was performed locally (deleteAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+export type EmbedTextCrdtEvents<E extends object> = {
+  Insert: EmbedTextCrdtInsertEvent<E>;
+  Delete: EmbedTextCrdtDeleteEvent<E>;
+  Transaction: CrdtTransactionEvent<EmbedTextCrdtEvents<E>>;
+};
+
+/**
+ * A text CRDT whose content is chars interleaved with embeds: opaque objects
+ * of type E, such as images, mentions, or widgets. Each embed takes up one index.
+ *
+ * It is like TextCrdt, but its state is a list-positions `Text<E>`.
+ * Content is described in the compact form of `Text.sliceWithEmbeds`:
+ * an array of strings of chars, separated by embeds, like
+ * `["Hi ", { type: "image", src: "..." }, "!"]`.
+ * Messages, events, and saved states use that form too, so plain text is still
+ * stored as strings. Embeds must be JSON objects if you serialize those types.
+ *
+ * Use `on("Insert", ...)` and `on("Delete", ...)` to learn of changes to the text.
+ * Each operation's events are emitted after the whole operation is applied,
+ * in an order such that applying the events to a copy of the previous text
+ * yields the current text. A transaction (`transact`) instead emits a single
+ * Transaction event, which lists its operations' events.
+ */
+export class EmbedTextCrdt<E extends object> extends BaseCrdt<
+  string | E,
+  EmbedRun<E>,
+  EmbedText<E>,
+  EmbedTextCrdtSetMessage<E>,
+  EmbedTextCrdtEvents<E>
+> {
+  /**
+   * @param options.replicaID Our replica ID. It must be globally unique
+   * and satisfy the rules for list-positions replicaIDs. Reuse it when
+   * reloading this replica from its own saved state, so that its messages
+   * keep their seqs in order.
+   * Default: A random alphanumeric string.
+   * @param options.opLog An OpLog in which to record every message that we
+   * send and receive.
+   */
+  constructor(
+    send: (message: EmbedTextCrdtMessage<E>) => void,
+    options?: {
+      replicaID?: string;
+      opLog?: OpLog<EmbedTextCrdtMessage<E>, EmbedTextCrdtSavedState<E>>;
+    }
+  ) {
+    const replicaID = options?.replicaID ?? maybeRandomString();
+    super(new EmbedText(), send, replicaID, options?.opLog);
+  }
+
+  /**
+   * Returns the chars, with each embed replaced by `"\uFFFC"`
+   * (the object replacement character), so that indices are preserved.
+   */
+  toString(): string {
+    return this.container.toString();
+  }
+
+  /**
+   * Returns the chars and embeds in `[start, end)`, as strings of chars
+   * separated by embeds.
+   */
+  slice(start?: number, end?: number): (string | E)[] {
+    return this.container.sliceWithEmbeds(start, end);
+  }
+
+  /**
+   * Returns the chars and embeds in the version tagged tag (see `tagVersion`),
+   * in the same form as `slice()`.
+   */
+  sliceAtVersion(tag: string): (string | E)[] {
+    return EmbedRun.from(this.valuesAtVersion(tag)).items.slice();
+  }
+
+  /**
+   * Inserts the given chars and embeds at index, in order.
+   *
+   * For example, `insertAt(0, "Hi ", image, "!")`.
+   */
+  insertAt(index: number, ...content: (string | E)[]): void {
+    this.insertContentAt(index, EmbedRun.from(content));
+  }
+
+  save(): EmbedTextCrdtSavedState<E> {
+    const { container, ...rest } = this.saveBase();
+    return { ...rest, text: toTextSavedState(container) };
+  }
+
+  /**
+   * Returns a delta: a saved state containing just the parts of our state that
+   * are missing from a replica with the given summary (from its `summary()` method).
+   *
+   * Pass the delta to that replica's `load` method. Loading it has the same effect
+   * as loading our full saved state.
+   */
+  saveDelta(summary: CrdtSummary): EmbedTextCrdtSavedState<E> {
+    const { container, ...rest } = this.saveDeltaBase(summary);
+    return { ...rest, text: toTextSavedState(container) };
+  }
+
+  /**
+   * Loads the given saved state.
+   *
+   * If this replica has never been used, this overwrites its state directly,
+   * without emitting events. Otherwise, it performs a state-based merge,
+   * emitting events for the changes.
+   */
+  load(savedState: EmbedTextCrdtSavedState<E>): void {
+    const { text, ...rest } = savedState;
+    this.loadBase({ ...rest, container: fromTextSavedState(text) });
+  }
+
+  protected containerInsertAt(
+    index: number,
+    run: EmbedRun<E>
+  ): [startPos: Position, newMeta: BunchMeta | null] {
+    return this.container.insertAt(index, run);
+  }
+
+  protected containerSet(startPos: Position, run: EmbedRun<E>): EmbedRun<E> {
+    this.container.set(startPos, run);
+    return run;
+  }
+
+  protected newSetMessage(
+    startPos: Position,
+    run: EmbedRun<E>,
+    meta: BunchMeta | null
+  ): EmbedTextCrdtSetMessage<E> {
+    return {
+      type: "set",
+      startPos,
+      content: run.items.slice(),
+      ...(meta ? { meta } : {}),
+    };
+  }
+
+  protected setMessageContent(
+    message: EmbedTextCrdtSetMessage<E>
+  ): EmbedRun<E> {
+    return EmbedRun.from(message.content);
+  }
+
+  protected newInsertEvent(
+    index: number,
+    startPos: Position,
+    run: EmbedRun<E>,
+    isLocal: boolean
+  ): EmbedTextCrdtInsertEvent<E> {
+    return { index, startPos, content: run.items.slice(), isLocal };
+  }
+
+  protected newDeleteEvent(
+    index: number,
+    startPos: Position,
+    run: EmbedRun<E>,
+    isLocal: boolean
+  ): EmbedTextCrdtDeleteEvent<E> {
+    return { index, startPos, content: run.items.slice(), isLocal };
+  }
+}
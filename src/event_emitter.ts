@@ -0,0 +1,48 @@
+/**
+ * A minimal typed event emitter, used by this package's CRDTs.
+ *
+ * `Events` maps each event name to the type of its event object.
+ */
+export class EventEmitter<Events extends object> {
+  private readonly handlers: {
+    [K in keyof Events]?: Set<(event: Events[K]) => void>;
+  } = {};
+
+  /**
+   * Registers an event handler that is triggered when the event happens.
+   *
+   * @returns A function that unregisters the handler.
+   */
+  on<K extends keyof Events>(
+    eventName: K,
+    handler: (event: Events[K]) => void
+  ): () => void {
+    let handlers = this.handlers[eventName];
+    if (handlers === undefined) {
+      handlers = new Set();
+      this.handlers[eventName] = handlers;
+    }
+    handlers.add(handler);
+    return () => handlers!.delete(handler);
+  }
+
+  /**
+   * Emits an event, calling all of its registered handlers in order.
+   */
+  protected emit<K extends keyof Events>(eventName: K, event: Events[K]): void {
+    const handlers = this.handlers[eventName];
+    if (handlers === undefined) return;
+    // Copy in case a handler unregisters itself.
+    for (const handler of [...handlers]) handler(event);
+  }
+
+  /**
+   * Returns whether any handlers are registered for the given event.
+   *
+   * Use this to skip computing events that no one will see.
+   */
+  protected hasHandlers(eventName: keyof Events): boolean {
+    const handlers = this.handlers[eventName];
+    return handlers !== undefined && handlers.size !== 0;
+  }
+}
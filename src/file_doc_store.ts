@@ -0,0 +1,37 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DocStore } from "./sync_server";
+
+/**
+ * DocStore that stores each doc's saved state in a JSON file, for Node.
+ *
+ * Files are named after the URI-encoded doc ID. Writes go to a temporary file
+ * that is renamed over the old one, so a crash never leaves a partial file.
+ *
+ * This module uses Node's `fs`, so it is not exported from the package's index.
+ */
+export class FileDocStore implements DocStore {
+  /**
+   * @param dir The directory to store files in. It is created if needed.
+   */
+  constructor(readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  get(docID: string): unknown {
+    const file = this.fileFor(docID);
+    if (!fs.existsSync(file)) return undefined;
+    return JSON.parse(fs.readFileSync(file, "utf8")) as unknown;
+  }
+
+  set(docID: string, savedState: unknown): void {
+    const file = this.fileFor(docID);
+    const tempFile = file + ".tmp";
+    fs.writeFileSync(tempFile, JSON.stringify(savedState));
+    fs.renameSync(tempFile, file);
+  }
+
+  private fileFor(docID: string): string {
+    return path.join(this.dir, encodeURIComponent(docID) + ".json");
+  }
+}
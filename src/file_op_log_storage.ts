@@ -0,0 +1,69 @@
+import * as fs from "fs";
+import { OpLogEntry, OpLogStorage } from "./op_log";
+
+/**
+ * OpLogStorage that stores the log in a file, for Node.
+ *
+ * The file has one JSON object per line: `{ "snapshot": ... }` first, if there
+ * is a snapshot, then `{ "entry": ... }` for each entry. So messages and
+ * snapshots must be JSON-serializable.
+ *
+ * Appends are synchronous, so an entry is in the file once `append` returns.
+ * If the process crashes mid-append, `read` ignores the incomplete last line,
+ * and the next `append` cuts it off before writing.
+ * Compaction writes a new file and renames it over the old one, so it is atomic.
+ *
+ * This module uses Node's `fs`, so it is not exported from the package's index.
+ */
+export class FileOpLogStorage<M, SS> implements OpLogStorage<M, SS> {
+  /**
+   * Whether we've cut off any incomplete last line left by a crash.
+   */
+  private tailChecked = false;
+
+  /**
+   * @param path The log file's path. It is created on the first write.
+   */
+  constructor(readonly path: string) {}
+
+  append(entry: OpLogEntry<M>): void {
+    if (!this.tailChecked) this.cutIncompleteLine();
+    fs.appendFileSync(this.path, JSON.stringify({ entry }) + "\n");
+  }
+
+  read(): { snapshot: SS | null; entries: OpLogEntry<M>[] } {
+    let snapshot: SS | null = null;
+    const entries: OpLogEntry<M>[] = [];
+    if (!fs.existsSync(this.path)) return { snapshot, entries };
+
+    const lines = fs.readFileSync(this.path, "utf8").split("\n");
+    // The last line is either empty or an incomplete append; skip it.
+    for (let i = 0; i < lines.length - 1; i++) {
+      const line = JSON.parse(lines[i]) as
+        | { snapshot: SS }
+        | { entry: OpLogEntry<M> };
+      if ("snapshot" in line) snapshot = line.snapshot;
+      else entries.push(line.entry);
+    }
+    return { snapshot, entries };
+  }
+
+  compact(snapshot: SS): void {
+    const tempPath = this.path + ".tmp";
+    fs.writeFileSync(tempPath, JSON.stringify({ snapshot }) + "\n");
+    fs.renameSync(tempPath, this.path);
+    this.tailChecked = true;
+  }
+
+  /**
+   * Truncates the file after its last newline, so that the next append starts
+   * on a new line.
+   */
+  private cutIncompleteLine(): void {
+    this.tailChecked = true;
+    if (!fs.existsSync(this.path)) return;
+    const contents = fs.readFileSync(this.path);
+    const end = contents.lastIndexOf("\n") + 1;
+    if (end !== contents.length) fs.truncateSync(this.path, end);
+  }
+}
@@ -1,2 +1,16 @@
+export * from "./base_crdt";
+export * from "./codecs";
+export * from "./event_emitter";
 export * from "./list_crdt";
 export * from "./text_crdt";
+export * from "./undo_manager";
+export * from "./rich_text_crdt";
+export * from "./embed_text_crdt";
+export * from "./json_crdt";
+export * from "./annotation_crdt";
+export * from "./version_vector";
+export * from "./op_log";
+export * from "./sync_provider";
+export * from "./sync_transports";
+export * from "./sync_server";
+export * from "./presence";
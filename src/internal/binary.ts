@@ -0,0 +1,220 @@
+/**
+ * Encodes a string as WTF-8: UTF-8, except that lone surrogates
+ * are encoded like other code points instead of being replaced.
+ *
+ * That way, any JavaScript string round-trips exactly, even if it was
+ * sliced in the middle of a surrogate pair.
+ */
+export function encodeString(str: string): Uint8Array {
+  // WTF-8 uses at most 3 bytes per UTF-16 code unit.
+  const bytes = new Uint8Array(3 * str.length);
+  let j = 0;
+  for (let i = 0; i < str.length; i++) {
+    let code = str.charCodeAt(i);
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < str.length) {
+      const next = str.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next < 0xe000) {
+        // Surrogate pair.
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+    if (code < 0x80) bytes[j++] = code;
+    else if (code < 0x800) {
+      bytes[j++] = 0xc0 | (code >> 6);
+      bytes[j++] = 0x80 | (code & 0x3f);
+    } else if (code < 0x10000) {
+      bytes[j++] = 0xe0 | (code >> 12);
+      bytes[j++] = 0x80 | ((code >> 6) & 0x3f);
+      bytes[j++] = 0x80 | (code & 0x3f);
+    } else {
+      bytes[j++] = 0xf0 | (code >> 18);
+      bytes[j++] = 0x80 | ((code >> 12) & 0x3f);
+      bytes[j++] = 0x80 | ((code >> 6) & 0x3f);
+      bytes[j++] = 0x80 | (code & 0x3f);
+    }
+  }
+  return bytes.slice(0, j);
+}
+
+/**
+ * Inverse of encodeString.
+ */
+export function decodeString(bytes: Uint8Array): string {
+  const codeUnits: number[] = [];
+  let ans = "";
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code =
+        ((byte & 0x0f) << 12) |
+        ((bytes[i + 1] & 0x3f) << 6) |
+        (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      code =
+        ((byte & 0x07) << 18) |
+        ((bytes[i + 1] & 0x3f) << 12) |
+        ((bytes[i + 2] & 0x3f) << 6) |
+        (bytes[i + 3] & 0x3f);
+      i += 4;
+    }
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      codeUnits.push(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+    } else codeUnits.push(code);
+    // Flush periodically to avoid exceeding the max number of function arguments.
+    if (codeUnits.length >= 4096) {
+      ans += String.fromCharCode(...codeUnits);
+      codeUnits.length = 0;
+    }
+  }
+  return ans + String.fromCharCode(...codeUnits);
+}
+
+/**
+ * Low-level binary writer used by this package's codecs.
+ *
+ * Numbers are written as unsigned LEB128 varints. IDs (bunch IDs and replica IDs)
+ * are deduplicated: the first occurrence is written in full, later occurrences
+ * as a table index.
+ */
+export class BinaryWriter {
+  private buffer = new Uint8Array(64);
+  private length = 0;
+  private readonly ids = new Map<string, number>();
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) return;
+    let newLength = this.buffer.length * 2;
+    while (newLength < this.length + count) newLength *= 2;
+    const newBuffer = new Uint8Array(newLength);
+    newBuffer.set(this.buffer.subarray(0, this.length));
+    this.buffer = newBuffer;
+  }
+
+  writeByte(byte: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  /**
+   * Writes a nonnegative integer as an unsigned LEB128 varint.
+   */
+  writeUvarint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new Error(`Cannot encode as uvarint: ${value}`);
+    }
+    this.reserve(8);
+    while (value >= 0x80) {
+      // Use % and / instead of bitwise ops, which truncate to 32 bits.
+      this.buffer[this.length++] = value % 0x80 | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.writeUvarint(bytes.length);
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /**
+   * Writes a string, encoded with encodeString.
+   */
+  writeString(str: string): void {
+    this.writeBytes(encodeString(str));
+  }
+
+  writeID(id: string): void {
+    const index = this.ids.get(id);
+    if (index === undefined) {
+      // 0 means "new ID follows".
+      this.writeUvarint(0);
+      this.writeString(id);
+      this.ids.set(id, this.ids.size);
+    } else this.writeUvarint(index + 1);
+  }
+
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Low-level binary reader, inverse of BinaryWriter.
+ *
+ * Its methods throw if the input ends early.
+ */
+export class BinaryReader {
+  private offset = 0;
+  private readonly ids: string[] = [];
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private check(count: number): void {
+    if (this.offset + count > this.bytes.length) {
+      throw new Error("Unexpected end of binary input");
+    }
+  }
+
+  readByte(): number {
+    this.check(1);
+    return this.bytes[this.offset++];
+  }
+
+  readUvarint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.readByte();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readUvarint();
+    this.check(length);
+    const ans = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return ans;
+  }
+
+  readString(): string {
+    return decodeString(this.readBytes());
+  }
+
+  readID(): string {
+    const index = this.readUvarint();
+    if (index === 0) {
+      const id = this.readString();
+      this.ids.push(id);
+      return id;
+    }
+    const id = this.ids[index - 1];
+    if (id === undefined) {
+      throw new Error(`Invalid ID reference: ${index}`);
+    }
+    return id;
+  }
+
+  /**
+   * Throws if there is unread input.
+   */
+  finish(): void {
+    if (this.offset !== this.bytes.length) {
+      throw new Error("Unexpected trailing binary input");
+    }
+  }
+}
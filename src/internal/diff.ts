@@ -0,0 +1,164 @@
+/**
+ * A contiguous change in a diff: replace `a.slice(aStart, aEnd)` with
+ * `b.slice(bStart, bEnd)`.
+ */
+export type DiffHunk = [
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+];
+
+/**
+ * Returns a minimal diff from a to b - one with the fewest inserted plus
+ * deleted items - as non-overlapping hunks in increasing order.
+ *
+ * This uses the linear-space version of Myers' O((N + M) D) algorithm, which
+ * recursively splits the diff at its "middle snake", after trimming the common
+ * prefix and suffix. So it is fast when the sequences are similar, and its
+ * memory use is O(N + M) even when they are not.
+ */
+export function diffSequences<T>(
+  a: ArrayLike<T>,
+  b: ArrayLike<T>,
+  equals: (x: T, y: T) => boolean
+): DiffHunk[] {
+  const differ = new Differ(a, b, equals);
+  differ.diff(0, a.length, 0, b.length);
+  return differ.hunks;
+}
+
+class Differ<T> {
+  readonly hunks: DiffHunk[] = [];
+  /**
+   * forward[offset + k] is the furthest x reached on diagonal k = x - y by
+   * the forward search, and backward likewise for the backward search,
+   * measured from the end. Shared by all calls to middleSnake.
+   */
+  private readonly forward: Int32Array;
+  private readonly backward: Int32Array;
+  private readonly offset: number;
+
+  constructor(
+    private readonly a: ArrayLike<T>,
+    private readonly b: ArrayLike<T>,
+    private readonly equals: (x: T, y: T) => boolean
+  ) {
+    const maxD = Math.ceil((a.length + b.length) / 2);
+    this.offset = maxD + 1;
+    this.forward = new Int32Array(2 * maxD + 3);
+    this.backward = new Int32Array(2 * maxD + 3);
+  }
+
+  /**
+   * Appends the hunks of a minimal diff from a.slice(aStart, aEnd) to
+   * b.slice(bStart, bEnd).
+   */
+  diff(aStart: number, aEnd: number, bStart: number, bEnd: number): void {
+    const { a, b, equals } = this;
+    while (aStart < aEnd && bStart < bEnd && equals(a[aStart], b[bStart])) {
+      aStart++;
+      bStart++;
+    }
+    while (aEnd > aStart && bEnd > bStart && equals(a[aEnd - 1], b[bEnd - 1])) {
+      aEnd--;
+      bEnd--;
+    }
+    if (aStart === aEnd || bStart === bEnd) {
+      this.addHunk(aStart, aEnd, bStart, bEnd);
+      return;
+    }
+
+    // Since the ends differ, the diff has at least two edits, so both halves
+    // are smaller than the whole.
+    const [x, y, u, v] = this.middleSnake(aStart, aEnd, bStart, bEnd);
+    this.diff(aStart, aStart + x, bStart, bStart + y);
+    this.diff(aStart + u, aEnd, bStart + v, bEnd);
+  }
+
+  /**
+   * Returns a snake (x, y) -> (u, v), relative to aStart and bStart, that is
+   * in the middle of some minimal diff: half of its edits come before the
+   * snake, and the rest come after.
+   */
+  private middleSnake(
+    aStart: number,
+    aEnd: number,
+    bStart: number,
+    bEnd: number
+  ): [x: number, y: number, u: number, v: number] {
+    const { a, b, equals, forward, backward, offset } = this;
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    // Diagonal k in the backward search is diagonal delta - k going forward.
+    const delta = n - m;
+    const isOdd = (delta & 1) === 1;
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+    for (let d = 0; d <= Math.ceil((n + m) / 2); d++) {
+      for (let k = -d; k <= d; k += 2) {
+        let x =
+          k === -d ||
+          (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+            ? forward[offset + k + 1]
+            : forward[offset + k - 1] + 1;
+        let y = x - k;
+        const x0 = x;
+        const y0 = y;
+        while (x < n && y < m && equals(a[aStart + x], b[bStart + y])) {
+          x++;
+          y++;
+        }
+        forward[offset + k] = x;
+        if (
+          isOdd &&
+          Math.abs(delta - k) <= d - 1 &&
+          x + backward[offset + delta - k] >= n
+        ) {
+          return [x0, y0, x, y];
+        }
+      }
+      for (let k = -d; k <= d; k += 2) {
+        let x =
+          k === -d ||
+          (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+            ? backward[offset + k + 1]
+            : backward[offset + k - 1] + 1;
+        let y = x - k;
+        const x0 = x;
+        const y0 = y;
+        while (x < n && y < m && equals(a[aEnd - 1 - x], b[bEnd - 1 - y])) {
+          x++;
+          y++;
+        }
+        backward[offset + k] = x;
+        if (
+          !isOdd &&
+          Math.abs(delta - k) <= d &&
+          x + forward[offset + delta - k] >= n
+        ) {
+          return [n - x, m - y, n - x0, m - y0];
+        }
+      }
+    }
+    throw new Error("Internal error: no middle snake");
+  }
+
+  /**
+   * Appends the hunk replacing a.slice(aStart, aEnd) with b.slice(bStart, bEnd),
+   * merging it into the last hunk if they are adjacent.
+   */
+  private addHunk(
+    aStart: number,
+    aEnd: number,
+    bStart: number,
+    bEnd: number
+  ): void {
+    if (aStart === aEnd && bStart === bEnd) return;
+    const last = this.hunks[this.hunks.length - 1];
+    if (last !== undefined && last[1] === aStart && last[3] === bStart) {
+      last[1] = aEnd;
+      last[3] = bEnd;
+    } else this.hunks.push([aStart, aEnd, bStart, bEnd]);
+  }
+}
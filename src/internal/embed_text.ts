@@ -0,0 +1,269 @@
+import {
+  BunchMeta,
+  MAX_POSITION,
+  MIN_POSITION,
+  Order,
+  OutlineSavedState,
+  Position,
+  Text,
+  TextSavedState,
+} from "list-positions";
+import { CrdtContainer, CrdtContainerSavedState } from "../base_crdt";
+
+/**
+ * A same-bunch run of chars and embeds, used as EmbedTextCrdt's content type.
+ *
+ * items uses the compact form of list-positions' `Text.sliceWithEmbeds`:
+ * non-empty strings of chars, separated by embeds. Its length counts
+ * each char and each embed as one value.
+ */
+export class EmbedRun<E extends object> {
+  readonly length: number;
+
+  /**
+   * items must be in compact form; use `EmbedRun.from` otherwise.
+   */
+  constructor(readonly items: readonly (string | E)[]) {
+    let length = 0;
+    for (const item of items) length += itemLength(item);
+    this.length = length;
+  }
+
+  /**
+   * Returns an EmbedRun with the given chars and embeds, merging adjacent
+   * strings and skipping empty ones.
+   */
+  static from<E extends object>(items: readonly (string | E)[]): EmbedRun<E> {
+    const compact: (string | E)[] = [];
+    for (const item of items) pushItem(compact, item);
+    return new EmbedRun(compact);
+  }
+
+  slice(start = 0, end = this.length): EmbedRun<E> {
+    const items: (string | E)[] = [];
+    let index = 0;
+    for (const item of this.items) {
+      if (index >= end) break;
+      const itemEnd = index + itemLength(item);
+      if (itemEnd > start) {
+        items.push(
+          typeof item === "string"
+            ? item.slice(Math.max(start - index, 0), end - index)
+            : item
+        );
+      }
+      index = itemEnd;
+    }
+    return new EmbedRun(items);
+  }
+
+  concat(...others: EmbedRun<E>[]): EmbedRun<E> {
+    const items = this.items.slice();
+    for (const other of others) {
+      for (const item of other.items) pushItem(items, item);
+    }
+    return new EmbedRun(items);
+  }
+}
+
+function itemLength(item: string | object): number {
+  return typeof item === "string" ? item.length : 1;
+}
+
+/**
+ * Pushes item onto the compact-form items, merging it with a preceding string.
+ */
+function pushItem<I>(items: (string | I)[], item: string | I): void {
+  if (typeof item === "string") {
+    if (item.length === 0) return;
+    const last = items[items.length - 1];
+    if (typeof last === "string") {
+      items[items.length - 1] = last + item;
+      return;
+    }
+  }
+  items.push(item);
+}
+
+/**
+ * Converts a TextSavedState to the equivalent container saved state,
+ * grouping each run of chars and embeds into an EmbedRun.
+ */
+export function fromTextSavedState<E extends object>(
+  savedState: TextSavedState<E>
+): CrdtContainerSavedState<EmbedRun<E>> {
+  const converted: CrdtContainerSavedState<EmbedRun<E>> = {};
+  for (const [bunchID, items] of Object.entries(savedState)) {
+    const bunchConverted: (EmbedRun<E> | number)[] = [];
+    let run: (string | E)[] = [];
+    for (const item of items) {
+      if (typeof item === "number") {
+        if (run.length !== 0) {
+          bunchConverted.push(new EmbedRun(run));
+          run = [];
+        }
+        bunchConverted.push(item);
+      } else pushItem(run, item);
+    }
+    if (run.length !== 0) bunchConverted.push(new EmbedRun(run));
+    converted[bunchID] = bunchConverted;
+  }
+  return converted;
+}
+
+/**
+ * Inverse of fromTextSavedState.
+ */
+export function toTextSavedState<E extends object>(
+  savedState: CrdtContainerSavedState<EmbedRun<E>>
+): TextSavedState<E> {
+  const converted: TextSavedState<E> = {};
+  for (const [bunchID, items] of Object.entries(savedState)) {
+    const bunchConverted: (string | E | number)[] = [];
+    for (const item of items) {
+      if (typeof item === "number") bunchConverted.push(item);
+      else {
+        for (const runItem of item.items) pushItem(bunchConverted, runItem);
+      }
+    }
+    converted[bunchID] = bunchConverted;
+  }
+  return converted;
+}
+
+/**
+ * A list-positions Text with embeds, adapted to use EmbedRun as its content type.
+ * Used by EmbedTextCrdt.
+ */
+export class EmbedText<E extends object>
+  implements CrdtContainer<string | E, EmbedRun<E>>
+{
+  readonly order: Order;
+  private readonly text: Text<E>;
+
+  constructor(order?: Order) {
+    this.text = new Text(order);
+    this.order = this.text.order;
+  }
+
+  get length(): number {
+    return this.text.length;
+  }
+
+  has(pos: Position): boolean {
+    return this.text.has(pos);
+  }
+
+  delete(startPos: Position, sameBunchCount?: number): void {
+    this.text.delete(startPos, sameBunchCount);
+  }
+
+  set(startPos: Position, run: EmbedRun<E>): void {
+    let innerIndex = startPos.innerIndex;
+    for (const item of run.items) {
+      this.text.set({ bunchID: startPos.bunchID, innerIndex }, item);
+      innerIndex += itemLength(item);
+    }
+  }
+
+  insertAt(
+    index: number,
+    run: EmbedRun<E>
+  ): [startPos: Position, newMeta: BunchMeta | null] {
+    // Text.insertAt only takes chars or a single embed, so create all of the
+    // Positions at once, then set them.
+    const prevPos =
+      index === 0 ? MIN_POSITION : this.text.positionAt(index - 1);
+    const nextPos =
+      index === this.text.length ? MAX_POSITION : this.text.positionAt(index);
+    const [startPos, newMeta] = this.order.createPositions(
+      prevPos,
+      nextPos,
+      run.length
+    );
+    this.set(startPos, run);
+    return [startPos, newMeta];
+  }
+
+  getAt(index: number): string | E {
+    return this.text.getAt(index);
+  }
+
+  indexOfPosition(
+    pos: Position,
+    searchDir?: "none" | "left" | "right"
+  ): number {
+    return this.text.indexOfPosition(pos, searchDir);
+  }
+
+  positionAt(index: number): Position {
+    return this.text.positionAt(index);
+  }
+
+  values(start?: number, end?: number): IterableIterator<string | E> {
+    return this.text.values(start, end);
+  }
+
+  slice(start?: number, end?: number): EmbedRun<E> {
+    return new EmbedRun(this.text.sliceWithEmbeds(start, end));
+  }
+
+  /**
+   * Returns the chars and embeds in compact form.
+   */
+  sliceWithEmbeds(start?: number, end?: number): (string | E)[] {
+    return this.text.sliceWithEmbeds(start, end);
+  }
+
+  /**
+   * Returns the chars, with each embed replaced by `"\uFFFC"`.
+   */
+  toString(): string {
+    return this.text.toString();
+  }
+
+  /**
+   * Yields runs of chars and embeds that are contiguous in the list and
+   * in the same bunch.
+   */
+  *items(
+    start?: number,
+    end?: number
+  ): IterableIterator<[startPos: Position, content: EmbedRun<E>]> {
+    // Text.items yields each embed separately; merge them with their
+    // neighboring chars when possible.
+    let runPos: Position | null = null;
+    let run: (string | E)[] = [];
+    let runLength = 0;
+    for (const [startPos, item] of this.text.items(start, end)) {
+      if (
+        runPos !== null &&
+        (startPos.bunchID !== runPos.bunchID ||
+          startPos.innerIndex !== runPos.innerIndex + runLength)
+      ) {
+        yield [runPos, new EmbedRun(run)];
+        runPos = null;
+      }
+      if (runPos === null) {
+        runPos = startPos;
+        run = [];
+        runLength = 0;
+      }
+      pushItem(run, item);
+      runLength += itemLength(item);
+    }
+    if (runPos !== null) yield [runPos, new EmbedRun(run)];
+  }
+
+  save(): CrdtContainerSavedState<EmbedRun<E>> {
+    return fromTextSavedState(this.text.save());
+  }
+
+  load(savedState: CrdtContainerSavedState<EmbedRun<E>>): void {
+    this.text.load(toTextSavedState(savedState));
+  }
+
+  saveOutline(): OutlineSavedState {
+    return this.text.saveOutline();
+  }
+}
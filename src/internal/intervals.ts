@@ -0,0 +1,141 @@
+/**
+ * Sorted, disjoint intervals of innerIndexes within a bunch.
+ */
+export type Intervals = [start: number, count: number][];
+
+/**
+ * Returns the intervals of present indices in a bunch's OutlineSavedState entry.
+ *
+ * Inverse of fromIntervals.
+ */
+export function outlineIntervals(state: number[]): Intervals {
+  const ans: Intervals = [];
+  let index = 0;
+  for (let i = 0; i < state.length; i++) {
+    // Even entries count present indices; odd entries count deleted indices.
+    if (i % 2 === 0 && state[i] !== 0) ans.push([index, state[i]]);
+    index += state[i];
+  }
+  return ans;
+}
+
+/**
+ * Returns the present runs in a bunch's CrdtContainerSavedState entry.
+ *
+ * Inverse of fromContainerRuns.
+ */
+export function containerRuns<S extends { readonly length: number }>(
+  state: (S | number)[]
+): [start: number, content: S][] {
+  const ans: [start: number, content: S][] = [];
+  let index = 0;
+  for (const item of state) {
+    if (typeof item === "number") index += item;
+    else {
+      ans.push([index, item]);
+      index += item.length;
+    }
+  }
+  return ans;
+}
+
+/**
+ * Returns the intervals in a but not in b.
+ */
+export function subtractIntervals(a: Intervals, b: Intervals): Intervals {
+  const ans: Intervals = [];
+  let j = 0;
+  for (const [aStart, aCount] of a) {
+    let start = aStart;
+    const end = aStart + aCount;
+    // Skip b intervals that end before start.
+    while (j < b.length && b[j][0] + b[j][1] <= start) j++;
+    // Remove b intervals that overlap [start, end).
+    let k = j;
+    while (k < b.length && b[k][0] < end) {
+      if (b[k][0] > start) ans.push([start, b[k][0] - start]);
+      start = Math.max(start, b[k][0] + b[k][1]);
+      k++;
+    }
+    if (start < end) ans.push([start, end - start]);
+  }
+  return ans;
+}
+
+/**
+ * Returns the intervals in both a and b.
+ */
+export function intersectIntervals(a: Intervals, b: Intervals): Intervals {
+  const ans: Intervals = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const aEnd = a[i][0] + a[i][1];
+    const bEnd = b[j][0] + b[j][1];
+    const end = Math.min(aEnd, bEnd);
+    if (start < end) ans.push([start, end - start]);
+    // Advance whichever interval ends first.
+    if (aEnd <= bEnd) i++;
+    else j++;
+  }
+  return ans;
+}
+
+/**
+ * Returns the intervals in a or b.
+ */
+export function unionIntervals(a: Intervals, b: Intervals): Intervals {
+  const ans: Intervals = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    // Take whichever interval starts first.
+    let next: [start: number, count: number];
+    if (j === b.length || (i < a.length && a[i][0] <= b[j][0])) next = a[i++];
+    else next = b[j++];
+
+    const last = ans[ans.length - 1];
+    if (last !== undefined && next[0] <= last[0] + last[1]) {
+      // Overlaps or touches last: extend it.
+      last[1] = Math.max(last[1], next[0] + next[1] - last[0]);
+    } else ans.push([next[0], next[1]]);
+  }
+  return ans;
+}
+
+/**
+ * Returns a bunch's OutlineSavedState entry with the given present intervals.
+ */
+export function fromIntervals(intervals: Intervals): number[] {
+  const ans: number[] = [];
+  let index = 0;
+  for (const [start, count] of intervals) {
+    // Alternate present and deleted counts, starting with present.
+    if (ans.length === 0) {
+      if (start !== 0) ans.push(0, start);
+      ans.push(count);
+    } else if (start === index) {
+      // Touches the previous interval: extend it.
+      ans[ans.length - 1] += count;
+    } else ans.push(start - index, count);
+    index = start + count;
+  }
+  return ans;
+}
+
+/**
+ * Returns a bunch's CrdtContainerSavedState entry with the given present runs.
+ */
+export function fromContainerRuns<S extends { readonly length: number }>(
+  runs: [start: number, content: S][]
+): (S | number)[] {
+  const ans: (S | number)[] = [];
+  let index = 0;
+  for (const [start, content] of runs) {
+    if (start !== index) ans.push(start - index);
+    ans.push(content);
+    index = start + content.length;
+  }
+  return ans;
+}
@@ -0,0 +1,285 @@
+import {
+  BunchMeta,
+  List,
+  ListSavedState,
+  MAX_POSITION,
+  MIN_POSITION,
+  Order,
+  OutlineSavedState,
+  Position,
+  PositionMap,
+  PositionSet,
+  expandPositions,
+} from "list-positions";
+import { CrdtContainer } from "../base_crdt";
+
+/**
+ * Max number of values to pass to a single List.set call.
+ */
+const SET_CHUNK_SIZE = 10000;
+
+/**
+ * A list whose values can move, used by ListCrdt.
+ *
+ * Each value has an ID: the Position where it was originally inserted.
+ * A value that has moved lives at a different Position, given by its location
+ * (type L). Methods that take or return a Position (has, delete, set,
+ * indexOfPosition, positionAt, items, save, load, saveOutline) use IDs,
+ * while index-based methods use the current list order.
+ *
+ * Locations are recorded even for values that are not present (yet).
+ */
+export class MovableList<T, L extends { readonly pos: Position }>
+  implements CrdtContainer<T, T[]>
+{
+  readonly order: Order;
+  /**
+   * The values, at their current Positions.
+   */
+  private readonly view: List<T>;
+  /**
+   * Maps each moved value's ID to its location.
+   */
+  private readonly locations = new PositionMap<L>();
+  /**
+   * Maps each moved value's current Position to its ID.
+   */
+  private readonly ids = new PositionMap<Position>();
+
+  constructor(order?: Order) {
+    this.view = new List(order);
+    this.order = this.view.order;
+  }
+
+  get length(): number {
+    return this.view.length;
+  }
+
+  location(id: Position): L | undefined {
+    return this.locations.get(id);
+  }
+
+  /**
+   * Returns the locations of moved values, keyed by ID.
+   */
+  saveLocations(): ListSavedState<L> {
+    return this.locations.save();
+  }
+
+  /**
+   * Returns whether any value in the given bunch has moved.
+   */
+  hasMoved(bunchID: string): boolean {
+    return this.locations.state.has(bunchID);
+  }
+
+  /**
+   * Returns whether any value has moved to a Position in the given bunch.
+   */
+  hasMovedInto(bunchID: string): boolean {
+    return this.ids.state.has(bunchID);
+  }
+
+  private currentPos(id: Position): Position {
+    return this.locations.get(id)?.pos ?? id;
+  }
+
+  private idOf(pos: Position): Position {
+    return this.ids.get(pos) ?? pos;
+  }
+
+  has(id: Position): boolean {
+    return this.view.has(this.currentPos(id));
+  }
+
+  delete(startID: Position, sameBunchCount = 1): void {
+    if (!this.hasMoved(startID.bunchID)) {
+      this.view.delete(startID, sameBunchCount);
+      return;
+    }
+    for (const id of expandPositions(startID, sameBunchCount)) {
+      this.view.delete(this.currentPos(id));
+    }
+  }
+
+  set(startID: Position, values: T[]): void {
+    if (!this.hasMoved(startID.bunchID)) {
+      // Set in chunks, since merging may set very long runs, which would exceed
+      // the maximum number of function arguments.
+      for (let i = 0; i < values.length; i += SET_CHUNK_SIZE) {
+        this.view.set(
+          { bunchID: startID.bunchID, innerIndex: startID.innerIndex + i },
+          ...values.slice(i, i + SET_CHUNK_SIZE)
+        );
+      }
+      return;
+    }
+    for (let i = 0; i < values.length; i++) {
+      this.view.set(
+        this.currentPos({
+          bunchID: startID.bunchID,
+          innerIndex: startID.innerIndex + i,
+        }),
+        values[i]
+      );
+    }
+  }
+
+  /**
+   * Inserts values at index. Their new Positions are also their IDs.
+   */
+  insertAt(
+    index: number,
+    values: T[]
+  ): [startID: Position, newMeta: BunchMeta | null] {
+    return this.view.insertAt(index, ...values);
+  }
+
+  /**
+   * Creates count new Positions that appear just before the value currently
+   * at index (or at the end, if index is the length).
+   */
+  createPositionsAt(
+    index: number,
+    count: number
+  ): [startPos: Position, newMeta: BunchMeta | null] {
+    const prevPos =
+      index === 0 ? MIN_POSITION : this.view.positionAt(index - 1);
+    const nextPos =
+      index === this.view.length ? MAX_POSITION : this.view.positionAt(index);
+    return this.order.createPositions(prevPos, nextPos, count);
+  }
+
+  /**
+   * Moves the value with the given ID to location.pos, recording location.
+   *
+   * location.pos must be a new Position whose BunchMeta is known.
+   *
+   * @returns The value and its index before and after the move,
+   * or null if the value is not present.
+   */
+  move(id: Position, location: L): [value: T, from: number, to: number] | null {
+    const oldPos = this.currentPos(id);
+    const oldLocation = this.locations.get(id);
+    if (oldLocation !== undefined) this.ids.delete(oldLocation.pos);
+    this.locations.set(id, location);
+    this.ids.set(location.pos, id);
+
+    // If the bunch is unknown, the value is definitely not present, and we
+    // should skip calling view.has to avoid a "Missing metadata" error.
+    if (
+      this.order.getNode(oldPos.bunchID) === undefined ||
+      !this.view.has(oldPos)
+    ) {
+      return null;
+    }
+    const from = this.view.indexOfPosition(oldPos);
+    const value = this.view.getAt(from);
+    this.view.delete(oldPos);
+    this.view.set(location.pos, value);
+    return [value, from, this.view.indexOfPosition(location.pos)];
+  }
+
+  getAt(index: number): T {
+    return this.view.getAt(index);
+  }
+
+  indexOfPosition(id: Position, searchDir?: "none" | "left" | "right"): number {
+    return this.view.indexOfPosition(this.currentPos(id), searchDir);
+  }
+
+  /**
+   * Returns the ID of the value at index.
+   */
+  positionAt(index: number): Position {
+    return this.idOf(this.view.positionAt(index));
+  }
+
+  values(start?: number, end?: number): IterableIterator<T> {
+    return this.view.values(start, end);
+  }
+
+  slice(start?: number, end?: number): T[] {
+    return this.view.slice(start, end);
+  }
+
+  /**
+   * Yields runs of values that are contiguous in the list and whose IDs
+   * are contiguous in the same bunch.
+   */
+  *items(
+    start?: number,
+    end?: number
+  ): IterableIterator<[startID: Position, values: T[]]> {
+    for (const [startPos, values] of this.view.items(start, end)) {
+      if (!this.ids.state.has(startPos.bunchID)) {
+        // No moved values here, so Positions are IDs.
+        yield [startPos, values];
+        continue;
+      }
+
+      let runID = this.idOf(startPos);
+      let runValues = [values[0]];
+      for (let i = 1; i < values.length; i++) {
+        const id = this.idOf({
+          bunchID: startPos.bunchID,
+          innerIndex: startPos.innerIndex + i,
+        });
+        if (
+          id.bunchID === runID.bunchID &&
+          id.innerIndex === runID.innerIndex + runValues.length
+        ) {
+          runValues.push(values[i]);
+        } else {
+          yield [runID, runValues];
+          runID = id;
+          runValues = [values[i]];
+        }
+      }
+      yield [runID, runValues];
+    }
+  }
+
+  /**
+   * Returns the present values, keyed by ID.
+   */
+  save(): ListSavedState<T> {
+    if (this.locations.state.size === 0) return this.view.save();
+
+    const byID = new PositionMap<T>();
+    for (const [pos, value] of this.view.entries()) {
+      byID.set(this.idOf(pos), value);
+    }
+    return byID.save();
+  }
+
+  /**
+   * Replaces the present values with savedState, which is keyed by ID.
+   *
+   * Locations are kept, so they must be updated first.
+   */
+  load(savedState: ListSavedState<T>): void {
+    if (this.locations.state.size === 0) {
+      this.view.load(savedState);
+      return;
+    }
+
+    this.view.clear();
+    const byID = new PositionMap<T>();
+    byID.load(savedState);
+    for (const [id, value] of byID.entries()) {
+      this.view.set(this.currentPos(id), value);
+    }
+  }
+
+  /**
+   * Returns the present IDs.
+   */
+  saveOutline(): OutlineSavedState {
+    if (this.locations.state.size === 0) return this.view.saveOutline();
+
+    const ids = new PositionSet();
+    for (const pos of this.view.positions()) ids.add(this.idOf(pos));
+    return ids.save();
+  }
+}
@@ -0,0 +1,685 @@
+import { BunchIDs } from "list-positions";
+import { maybeRandomString } from "maybe-random-string";
+import { EventEmitter } from "./event_emitter";
+import { ListCrdt, ListCrdtMessage, ListCrdtSavedState } from "./list_crdt";
+import { TextCrdt, TextCrdtMessage, TextCrdtSavedState } from "./text_crdt";
+
+export type JsonCrdtNodeType = "map" | "register" | "list" | "text";
+
+/**
+ * Maps each JsonCrdtNodeType to its node class.
+ *
+ * Text nodes are ordinary TextCrdts.
+ */
+export type JsonCrdtNodeTypes = {
+  map: JsonCrdtMap;
+  register: JsonCrdtRegister;
+  list: JsonCrdtList;
+  text: TextCrdt;
+};
+
+export type JsonCrdtNode = JsonCrdtNodeTypes[JsonCrdtNodeType];
+
+/**
+ * A reference to a child node, stored in its parent map or list.
+ *
+ * Each node has a globally unique ID, assigned by the operation that created it.
+ */
+export type JsonCrdtChild = {
+  readonly id: string;
+  readonly type: JsonCrdtNodeType;
+};
+
+/**
+ * A map node's value for a key: a child node, or null if the key was deleted.
+ *
+ * Concurrent sets of the same key are resolved by last-writer-wins:
+ * the entry with the greatest lamport wins, with ties broken by replicaID.
+ */
+export type JsonCrdtMapEntry = {
+  readonly child: JsonCrdtChild | null;
+  readonly lamport: number;
+  readonly replicaID: string;
+};
+
+/**
+ * A register node's value, resolved by last-writer-wins like JsonCrdtMapEntry.
+ */
+export type JsonCrdtRegisterValue = {
+  readonly value: unknown;
+  readonly lamport: number;
+  readonly replicaID: string;
+};
+
+export type JsonCrdtMapMessage = JsonCrdtMapEntry & {
+  readonly type: "set";
+  readonly key: string;
+};
+
+export type JsonCrdtRegisterMessage = JsonCrdtRegisterValue & {
+  readonly type: "set";
+};
+
+/**
+ * A message for a single node. Its format depends on the node's type.
+ */
+export type JsonCrdtNodeMessage =
+  | JsonCrdtMapMessage
+  | JsonCrdtRegisterMessage
+  | ListCrdtMessage<JsonCrdtChild>
+  | TextCrdtMessage;
+
+export type JsonCrdtMessage = {
+  /**
+   * The IDs of the nodes from the root (exclusive) to the target node (inclusive).
+   * Empty for the root.
+   *
+   * IDs are used instead of map keys because concurrent sets of the same key
+   * create different nodes, and a message must reach the node it was sent from.
+   */
+  readonly path: string[];
+  readonly message: JsonCrdtNodeMessage;
+};
+
+export type JsonCrdtNodeSavedState =
+  | {
+      readonly type: "map";
+      readonly entries: { [key: string]: JsonCrdtMapEntry };
+    }
+  | {
+      readonly type: "register";
+      readonly value: JsonCrdtRegisterValue | null;
+    }
+  | {
+      readonly type: "list";
+      readonly list: ListCrdtSavedState<JsonCrdtChild>;
+    }
+  | {
+      readonly type: "text";
+      readonly text: TextCrdtSavedState;
+    };
+
+export type JsonCrdtSavedState = {
+  /**
+   * Every node's state, including the root (path `[]`) and nodes that are no
+   * longer in the tree.
+   */
+  readonly nodes: {
+    readonly path: string[];
+    readonly state: JsonCrdtNodeSavedState;
+  }[];
+  /**
+   * Messages for nodes that have not been created yet.
+   */
+  readonly buffer: JsonCrdtMessage[];
+};
+
+/**
+ * Event emitted by a JsonCrdtMap when a key's value changes.
+ */
+export type JsonCrdtMapSetEvent = {
+  readonly key: string;
+  /**
+   * The key's new child node, or undefined if it was deleted.
+   */
+  readonly value: JsonCrdtNode | undefined;
+  readonly previousValue: JsonCrdtNode | undefined;
+  /**
+   * Whether the change was performed locally (set, delete) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+export type JsonCrdtMapEvents = {
+  Set: JsonCrdtMapSetEvent;
+};
+
+/**
+ * Event emitted by a JsonCrdtRegister when its value changes.
+ */
+export type JsonCrdtRegisterSetEvent = {
+  readonly value: unknown;
+  readonly previousValue: unknown;
+  /**
+   * Whether the change was performed locally (set) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+export type JsonCrdtRegisterEvents = {
+  Set: JsonCrdtRegisterSetEvent;
+};
+
+/**
+ * The parts of a JsonCrdt that its nodes use.
+ */
+interface JsonCrdtContext {
+  readonly replicaID: string;
+  /**
+   * Returns a new lamport timestamp, greater than all that we've seen.
+   */
+  tick(): number;
+  /**
+   * Records a lamport timestamp from another replica.
+   */
+  observe(lamport: number): void;
+  /**
+   * Creates a new, empty node under the node at parentPath, and returns a
+   * reference to it.
+   *
+   * The node exists before its creating message is sent, which may be later
+   * (e.g., at the end of a list's transaction).
+   */
+  newChild(parentPath: string[], type: JsonCrdtNodeType): JsonCrdtChild;
+  /**
+   * Returns the node referenced by child, which must have been created.
+   */
+  nodeOf(child: JsonCrdtChild): JsonCrdtNode;
+  /**
+   * Sends message from the node at path, creating any nodes that it references.
+   */
+  send(path: string[], message: JsonCrdtNodeMessage): void;
+}
+
+/**
+ * A map node in a JsonCrdt. Its keys are strings and its values are child nodes.
+ *
+ * Do not construct it directly; use JsonCrdt.
+ */
+export class JsonCrdtMap extends EventEmitter<JsonCrdtMapEvents> {
+  private readonly entries = new Map<string, JsonCrdtMapEntry>();
+
+  constructor(
+    private readonly context: JsonCrdtContext,
+    readonly path: string[]
+  ) {
+    super();
+  }
+
+  get(key: string): JsonCrdtNode | undefined {
+    const child = this.entries.get(key)?.child;
+    return child ? this.context.nodeOf(child) : undefined;
+  }
+
+  has(key: string): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.child !== null) keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Sets key to a new, empty node of the given type, and returns that node.
+   */
+  set<K extends JsonCrdtNodeType>(key: string, type: K): JsonCrdtNodeTypes[K] {
+    const child = this.context.newChild(this.path, type);
+    this.setEntry(key, child);
+    return this.context.nodeOf(child) as JsonCrdtNodeTypes[K];
+  }
+
+  delete(key: string): void {
+    if (this.has(key)) this.setEntry(key, null);
+  }
+
+  receive(message: JsonCrdtMapMessage): void {
+    const { key, child, lamport, replicaID } = message;
+    this.context.observe(lamport);
+    this.applyEntry(key, { child, lamport, replicaID }, false);
+  }
+
+  save(): { [key: string]: JsonCrdtMapEntry } {
+    return Object.fromEntries(this.entries);
+  }
+
+  /**
+   * Merges the given entries into ours.
+   */
+  load(entries: { [key: string]: JsonCrdtMapEntry }): void {
+    for (const [key, entry] of Object.entries(entries)) {
+      this.context.observe(entry.lamport);
+      this.applyEntry(key, entry, false);
+    }
+  }
+
+  toJSON(): { [key: string]: unknown } {
+    const json: { [key: string]: unknown } = {};
+    for (const key of this.keys()) json[key] = nodeToJSON(this.get(key)!);
+    return json;
+  }
+
+  private setEntry(key: string, child: JsonCrdtChild | null): void {
+    const entry: JsonCrdtMapEntry = {
+      child,
+      lamport: this.context.tick(),
+      replicaID: this.context.replicaID,
+    };
+    this.context.send(this.path, { type: "set", key, ...entry });
+    this.applyEntry(key, entry, true);
+  }
+
+  private applyEntry(
+    key: string,
+    entry: JsonCrdtMapEntry,
+    isLocal: boolean
+  ): void {
+    const current = this.entries.get(key);
+    if (current !== undefined && !isNewer(entry, current)) return;
+
+    const previousValue = this.get(key);
+    this.entries.set(key, entry);
+    const value = this.get(key);
+    if (value !== previousValue) {
+      this.emit("Set", { key, value, previousValue, isLocal });
+    }
+  }
+}
+
+/**
+ * A register node in a JsonCrdt, holding a single JSON value.
+ *
+ * Do not construct it directly; use JsonCrdt.
+ */
+export class JsonCrdtRegister extends EventEmitter<JsonCrdtRegisterEvents> {
+  private current: JsonCrdtRegisterValue | null = null;
+
+  constructor(
+    private readonly context: JsonCrdtContext,
+    readonly path: string[]
+  ) {
+    super();
+  }
+
+  /**
+   * The current value, or undefined if it has never been set.
+   */
+  get value(): unknown {
+    return this.current?.value;
+  }
+
+  set(value: unknown): void {
+    const newValue: JsonCrdtRegisterValue = {
+      value,
+      lamport: this.context.tick(),
+      replicaID: this.context.replicaID,
+    };
+    this.context.send(this.path, { type: "set", ...newValue });
+    this.apply(newValue, true);
+  }
+
+  receive(message: JsonCrdtRegisterMessage): void {
+    const { value, lamport, replicaID } = message;
+    this.context.observe(lamport);
+    this.apply({ value, lamport, replicaID }, false);
+  }
+
+  save(): JsonCrdtRegisterValue | null {
+    return this.current;
+  }
+
+  /**
+   * Merges the given value into ours.
+   */
+  load(value: JsonCrdtRegisterValue | null): void {
+    if (value === null) return;
+    this.context.observe(value.lamport);
+    this.apply(value, false);
+  }
+
+  toJSON(): unknown {
+    return this.value;
+  }
+
+  private apply(newValue: JsonCrdtRegisterValue, isLocal: boolean): void {
+    if (this.current !== null && !isNewer(newValue, this.current)) return;
+
+    const previousValue = this.value;
+    this.current = newValue;
+    this.emit("Set", { value: newValue.value, previousValue, isLocal });
+  }
+}
+
+/**
+ * A list node in a JsonCrdt, whose values are child nodes.
+ *
+ * Its state is a ListCrdt of child references, exposed as `list` so that you
+ * can read it and listen to its events directly. To insert values, use this
+ * class's insertAt, which creates the child nodes.
+ *
+ * Do not construct it directly; use JsonCrdt.
+ */
+export class JsonCrdtList {
+  readonly list: ListCrdt<JsonCrdtChild>;
+
+  constructor(
+    private readonly context: JsonCrdtContext,
+    readonly path: string[]
+  ) {
+    // Like text nodes, each list node gets its own random replicaID.
+    this.list = new ListCrdt((message) => context.send(path, message));
+  }
+
+  getAt(index: number): JsonCrdtNode {
+    return this.context.nodeOf(this.list.getAt(index));
+  }
+
+  children(): JsonCrdtNode[] {
+    return this.list.slice().map((child) => this.context.nodeOf(child));
+  }
+
+  /**
+   * Inserts a new, empty node of the given type at index, and returns that node.
+   */
+  insertAt<K extends JsonCrdtNodeType>(
+    index: number,
+    type: K
+  ): JsonCrdtNodeTypes[K] {
+    const child = this.context.newChild(this.path, type);
+    this.list.insertAt(index, child);
+    return this.context.nodeOf(child) as JsonCrdtNodeTypes[K];
+  }
+
+  deleteAt(index: number, count = 1): void {
+    this.list.deleteAt(index, count);
+  }
+
+  moveAt(from: number, to: number, count = 1): void {
+    this.list.moveAt(from, to, count);
+  }
+
+  toJSON(): unknown[] {
+    return this.children().map(nodeToJSON);
+  }
+}
+
+/**
+ * Internal record of a node.
+ */
+type NodeRecord = {
+  readonly path: string[];
+  readonly type: JsonCrdtNodeType;
+  readonly node: JsonCrdtNode;
+};
+
+/**
+ * A JSON document CRDT: a tree of map, register, list, and text nodes.
+ *
+ * The root is a map. Map and list values are child nodes, created by
+ * `map.set(key, type)` and `list.insertAt(index, type)`; register and
+ * text nodes hold the actual data. List and text nodes reuse ListCrdt and
+ * TextCrdt.
+ *
+ * Each node has a globally unique ID, and messages carry the path of node IDs
+ * to their target. Messages for a node that does not exist yet (because the
+ * message that creates it has not arrived) are buffered until it does, so that
+ * send/receive work on general networks like the other CRDTs in this package.
+ * save/load work on the whole tree as a state-based merge.
+ *
+ * Nodes that are deleted or lose a concurrent set are kept (but not shown), so
+ * that messages for them are still applied consistently.
+ */
+export class JsonCrdt {
+  /**
+   * Our replica ID, used to break ties between concurrent sets.
+   * List and text nodes instead use their own random replicaIDs.
+   */
+  readonly replicaID: string;
+  readonly root: JsonCrdtMap;
+  /**
+   * Lamport clock for map and register sets: the greatest lamport we've seen.
+   */
+  private lamport = 0;
+  /**
+   * Generates node IDs. It uses its own random replicaID, so that IDs are
+   * unique even if replicaID is reused after reloading.
+   */
+  private readonly newNodeID = BunchIDs.usingReplicaID();
+  private readonly context: JsonCrdtContext;
+  private readonly rootRecord: NodeRecord;
+  /**
+   * All nodes except the root, keyed by ID.
+   */
+  private readonly nodes = new Map<string, NodeRecord>();
+  /**
+   * Maps from node ID to messages that are waiting for that node to be created.
+   */
+  private readonly pending = new Map<string, JsonCrdtMessage[]>();
+
+  /**
+   * @param options.replicaID Our replica ID. It must be globally unique
+   * and satisfy the rules for list-positions replicaIDs.
+   * Default: A random alphanumeric string.
+   */
+  constructor(
+    private readonly send: (message: JsonCrdtMessage) => void,
+    options?: { replicaID?: string }
+  ) {
+    this.replicaID = options?.replicaID ?? maybeRandomString();
+    this.context = {
+      replicaID: this.replicaID,
+      tick: () => ++this.lamport,
+      observe: (lamport) => {
+        this.lamport = Math.max(this.lamport, lamport);
+      },
+      newChild: (parentPath, type) => {
+        const child = { id: this.newNodeID(), type };
+        this.createNode(parentPath, child);
+        return child;
+      },
+      nodeOf: (child) => this.nodes.get(child.id)!.node,
+      send: (path, message) => {
+        this.createChildren(path, message);
+        this.send({ path, message });
+      },
+    };
+    this.root = new JsonCrdtMap(this.context, []);
+    this.rootRecord = { path: [], type: "map", node: this.root };
+  }
+
+  /**
+   * Returns the node at the given path of node IDs, or undefined if it
+   * does not exist (yet).
+   */
+  getNode(path: string[]): JsonCrdtNode | undefined {
+    return this.record(path)?.node;
+  }
+
+  toJSON(): { [key: string]: unknown } {
+    return this.root.toJSON();
+  }
+
+  receive(message: JsonCrdtMessage): void {
+    const record = this.record(message.path);
+    if (record === undefined) {
+      // The target node's creation has not arrived yet.
+      const id = message.path[message.path.length - 1];
+      let nodePending = this.pending.get(id);
+      if (nodePending === undefined) {
+        nodePending = [];
+        this.pending.set(id, nodePending);
+      }
+      nodePending.push(message);
+      return;
+    }
+
+    // Create referenced nodes first, so that they exist when events are emitted.
+    this.createChildren(message.path, message.message);
+    switch (record.type) {
+      case "map":
+        (record.node as JsonCrdtMap).receive(
+          message.message as JsonCrdtMapMessage
+        );
+        break;
+      case "register":
+        (record.node as JsonCrdtRegister).receive(
+          message.message as JsonCrdtRegisterMessage
+        );
+        break;
+      case "list":
+        (record.node as JsonCrdtList).list.receive(
+          message.message as ListCrdtMessage<JsonCrdtChild>
+        );
+        break;
+      case "text":
+        (record.node as TextCrdt).receive(message.message as TextCrdtMessage);
+        break;
+    }
+  }
+
+  save(): JsonCrdtSavedState {
+    const nodes: JsonCrdtSavedState["nodes"] = [
+      { path: [], state: { type: "map", entries: this.root.save() } },
+    ];
+    for (const record of this.nodes.values()) {
+      nodes.push({ path: record.path, state: saveNode(record) });
+    }
+    const buffer: JsonCrdtMessage[] = [];
+    for (const messages of this.pending.values()) buffer.push(...messages);
+    return { nodes, buffer };
+  }
+
+  /**
+   * Loads the given saved state, merging it into ours.
+   *
+   * Nodes that are new to us are created and loaded directly; existing nodes
+   * perform a state-based merge, emitting events for the changes.
+   */
+  load(savedState: JsonCrdtSavedState): void {
+    // Create all new nodes first, so that they exist when events are emitted.
+    for (const { path, state } of savedState.nodes) {
+      if (this.record(path) === undefined) {
+        this.createNode(path.slice(0, -1), {
+          id: path[path.length - 1],
+          type: state.type,
+        });
+      }
+    }
+
+    for (const { path, state } of savedState.nodes) {
+      const record = this.record(path)!;
+      if (record.type !== state.type) continue;
+
+      switch (state.type) {
+        case "map":
+          (record.node as JsonCrdtMap).load(state.entries);
+          break;
+        case "register":
+          (record.node as JsonCrdtRegister).load(state.value);
+          break;
+        case "list":
+          (record.node as JsonCrdtList).list.load(state.list);
+          break;
+        case "text":
+          (record.node as TextCrdt).load(state.text);
+          break;
+      }
+    }
+
+    for (const message of savedState.buffer) this.receive(message);
+  }
+
+  private record(path: string[]): NodeRecord | undefined {
+    if (path.length === 0) return this.rootRecord;
+    return this.nodes.get(path[path.length - 1]);
+  }
+
+  /**
+   * Creates the nodes referenced by a message for the node at path.
+   *
+   * Nodes are created as soon as their creating message arrives, even if it
+   * has no visible effect (e.g., it loses to a concurrent set, or its list
+   * insertion was already deleted), so that later messages for them are not
+   * buffered forever.
+   */
+  private createChildren(path: string[], message: JsonCrdtNodeMessage): void {
+    switch (this.record(path)?.type) {
+      case "map": {
+        const { child } = message as JsonCrdtMapMessage;
+        if (child !== null) this.createNode(path, child);
+        break;
+      }
+      case "list": {
+        const listMessage = message as ListCrdtMessage<JsonCrdtChild>;
+        if (listMessage.type === "set") {
+          for (const child of listMessage.values) this.createNode(path, child);
+        } else if (listMessage.type === "update") {
+          this.createNode(path, listMessage.value);
+        } else if (listMessage.type === "transaction") {
+          for (const inner of listMessage.messages) {
+            this.createChildren(path, inner);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Creates the node referenced by child, if needed, then delivers any
+   * messages that were waiting for it.
+   */
+  private createNode(parentPath: string[], child: JsonCrdtChild): void {
+    if (this.nodes.has(child.id)) return;
+
+    const path = [...parentPath, child.id];
+    let node: JsonCrdtNode;
+    switch (child.type) {
+      case "map":
+        node = new JsonCrdtMap(this.context, path);
+        break;
+      case "register":
+        node = new JsonCrdtRegister(this.context, path);
+        break;
+      case "list":
+        node = new JsonCrdtList(this.context, path);
+        break;
+      case "text":
+        node = new TextCrdt((message) => this.context.send(path, message));
+        break;
+    }
+    this.nodes.set(child.id, { path, type: child.type, node });
+
+    const nodePending = this.pending.get(child.id);
+    if (nodePending !== undefined) {
+      this.pending.delete(child.id);
+      for (const message of nodePending) this.receive(message);
+    }
+  }
+}
+
+function saveNode(record: NodeRecord): JsonCrdtNodeSavedState {
+  switch (record.type) {
+    case "map":
+      return { type: "map", entries: (record.node as JsonCrdtMap).save() };
+    case "register":
+      return {
+        type: "register",
+        value: (record.node as JsonCrdtRegister).save(),
+      };
+    case "list":
+      return { type: "list", list: (record.node as JsonCrdtList).list.save() };
+    case "text":
+      return { type: "text", text: (record.node as TextCrdt).save() };
+  }
+}
+
+function nodeToJSON(node: JsonCrdtNode): unknown {
+  return node instanceof TextCrdt ? node.toString() : node.toJSON();
+}
+
+/**
+ * Returns whether a beats b; see JsonCrdtMapEntry.
+ */
+function isNewer(
+  a: { lamport: number; replicaID: string },
+  b: { lamport: number; replicaID: string }
+): boolean {
+  if (a.lamport !== b.lamport) return a.lamport > b.lamport;
+  return a.replicaID > b.replicaID;
+}
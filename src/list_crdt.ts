@@ -1,35 +1,232 @@
 import {
   BunchMeta,
-  List,
   ListSavedState,
   OrderSavedState,
-  Outline,
   OutlineSavedState,
   Position,
-  PositionSet,
+  PositionMap,
   expandPositions,
 } from "list-positions";
+import { maybeRandomString } from "maybe-random-string";
+import {
+  BaseCrdt,
+  CrdtDeleteMessage,
+  CrdtSummary,
+  CrdtTransactionEvent,
+  CrdtTransactionMessage,
+} from "./base_crdt";
+import { JsonValueCodec, ValueCodec } from "./codecs";
+import { MovableList } from "./internal/movable_list";
+import { OpLog } from "./op_log";
+import { CrdtStamp } from "./version_vector";
+
+export type ListCrdtSetMessage<T> = {
+  readonly type: "set";
+  readonly startPos: Position;
+  readonly values: T[];
+  readonly meta?: BunchMeta;
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * Message that moves values to new Positions.
+ */
+export type ListCrdtMoveMessage = {
+  readonly type: "move";
+  /**
+   * The moved values' IDs, as same-bunch runs.
+   */
+  readonly items: [startID: Position, count: number][];
+  /**
+   * The moved values' new Positions are `expandPositions(startPos, <total count>)`,
+   * in the same order as items.
+   */
+  readonly startPos: Position;
+  readonly meta?: BunchMeta;
+  /**
+   * Lamport timestamp, used to resolve concurrent moves; see ListCrdtLocation.
+   */
+  readonly lamport: number;
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * Message that sets the value with the given ID.
+ */
+export type ListCrdtUpdateMessage<T> = {
+  readonly type: "update";
+  readonly id: Position;
+  readonly value: T;
+  /**
+   * Lamport timestamp, used to resolve concurrent updates; see ListCrdtUpdate.
+   */
+  readonly lamport: number;
+  readonly replicaID: string;
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * A message for a single ListCrdt operation.
+ */
+export type ListCrdtOperationMessage<T> =
+  | ListCrdtSetMessage<T>
+  | CrdtDeleteMessage
+  | ListCrdtMoveMessage
+  | ListCrdtUpdateMessage<T>;
 
 export type ListCrdtMessage<T> =
-  | {
-      readonly type: "set";
-      readonly startPos: Position;
-      readonly values: T[];
-      readonly meta?: BunchMeta;
-    }
-  | {
-      readonly type: "delete";
-      readonly items: [startPos: Position, count: number][];
-    };
+  | ListCrdtOperationMessage<T>
+  | CrdtTransactionMessage<ListCrdtOperationMessage<T>>;
+
+/**
+ * The location of a value that has moved: its current Position, plus the
+ * Lamport timestamp of the move that put it there.
+ *
+ * Concurrent moves of the same value are resolved by last-writer-wins:
+ * the location with the greatest lamport wins, with ties broken by
+ * comparing `pos.bunchID`, then `pos.innerIndex`.
+ */
+export type ListCrdtLocation = {
+  readonly pos: Position;
+  readonly lamport: number;
+};
+
+/**
+ * The latest update to a value: its new value, plus the update's
+ * Lamport timestamp and replica ID.
+ *
+ * Concurrent updates to the same value are resolved by last-writer-wins:
+ * the update with the greatest lamport wins, with ties broken by replicaID.
+ * Any update beats the value's original insertion.
+ */
+export type ListCrdtUpdate<T> = {
+  readonly value: T;
+  readonly lamport: number;
+  readonly replicaID: string;
+};
 
 export type ListCrdtSavedState<T> = {
   readonly order: OrderSavedState;
+  /**
+   * The present values, keyed by ID.
+   */
   readonly list: ListSavedState<T>;
   readonly seen: OutlineSavedState;
-  readonly buffer: ListCrdtMessage<T>[];
+  /**
+   * The stamps of all messages received; see `versionVector()`.
+   * Absent in saved states from before stamps; treated as empty.
+   */
+  readonly received?: OutlineSavedState;
+  /**
+   * IDs of bunches pruned by `collectGarbage()`, if any.
+   */
+  readonly pruned?: string[];
+  /**
+   * The locations of values that have moved, keyed by ID.
+   * Absent in saved states from before moves; treated as empty.
+   */
+  readonly locations?: ListSavedState<ListCrdtLocation>;
+  /**
+   * The latest updates to values that have been updated, keyed by ID.
+   * Absent in saved states from before updates; treated as empty.
+   */
+  readonly updates?: ListSavedState<ListCrdtUpdate<T>>;
+  /**
+   * Messages that are waiting on dependencies. Update messages are never
+   * buffered: they are recorded immediately.
+   */
+  readonly buffer: (
+    | ListCrdtSetMessage<T>
+    | CrdtDeleteMessage
+    | ListCrdtMoveMessage
+  )[];
+};
+
+/**
+ * Event emitted by a ListCrdt when values are inserted.
+ */
+export type ListCrdtInsertEvent<T> = {
+  /**
+   * The index of the first inserted value, in the state just after this event.
+   */
+  readonly index: number;
+  /**
+   * The ID of the first inserted value. The values use
+   * `expandPositions(startPos, values.length)` as IDs.
+   */
+  readonly startPos: Position;
+  readonly values: T[];
+  /**
+   * Whether the insertion was performed locally (insertAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
 };
 
-// TODO: events
+/**
+ * Event emitted by a ListCrdt when values are deleted.
+ */
+export type ListCrdtDeleteEvent<T> = {
+  /**
+   * The index of the first deleted value, in the state just before this event.
+   */
+  readonly index: number;
+  /**
+   * The ID of the first deleted value. The values used
+   * `expandPositions(startPos, values.length)` as IDs.
+   */
+  readonly startPos: Position;
+  readonly values: T[];
+  /**
+   * Whether the deletion was performed locally (deleteAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+/**
+ * Event emitted by a ListCrdt when a value moves.
+ */
+export type ListCrdtMoveEvent<T> = {
+  /**
+   * The value's index in the state just before this event.
+   */
+  readonly index: number;
+  /**
+   * The value's index in the state just after this event.
+   */
+  readonly newIndex: number;
+  readonly id: Position;
+  readonly value: T;
+  /**
+   * Whether the move was performed locally (moveAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+/**
+ * Event emitted by a ListCrdt when a value is updated (setAt).
+ */
+export type ListCrdtUpdateEvent<T> = {
+  readonly index: number;
+  readonly id: Position;
+  readonly value: T;
+  readonly previousValue: T;
+  /**
+   * Whether the update was performed locally (setAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+export type ListCrdtEvents<T> = {
+  Insert: ListCrdtInsertEvent<T>;
+  Delete: ListCrdtDeleteEvent<T>;
+  Move: ListCrdtMoveEvent<T>;
+  Update: ListCrdtUpdateEvent<T>;
+  Transaction: CrdtTransactionEvent<ListCrdtEvents<T>>;
+};
 
 /**
  * A traditional op-based/state-based list CRDT implemented on top of list-positions.
@@ -38,217 +235,442 @@ export type ListCrdtSavedState<T> = {
  * and save/load work as state-based merging.
  *
  * Internally, its state is a `List<T>` (for values) and a PositionSet (for tracking
- * which Positions have been "seen"). This implementation uses Positions in messages
- * and manually manages metadata; in particular, it must buffer certain out-of-order
- * messages.
+ * which Positions have been "seen"); see BaseCrdt.
+ *
+ * Values can be moved with `moveAt`. Each value has a stable ID: the Position where
+ * it was originally inserted. Messages, saved states, and events refer to values
+ * by ID, so a concurrent move and delete still deletes the moved value.
+ * Concurrent moves of the same value are resolved by last-writer-wins
+ * (see ListCrdtLocation).
+ *
+ * Values can be overwritten with `setAt`. Concurrent updates of the same value
+ * are also resolved by last-writer-wins (see ListCrdtUpdate).
+ *
+ * Use `on("Insert", ...)`, `on("Delete", ...)`, `on("Move", ...)`, and
+ * `on("Update", ...)` to learn of changes to the list.
+ * Each operation's events are emitted after the whole operation is applied,
+ * in an order such that applying the events to a copy of the previous list
+ * yields the current list. A transaction (`transact`) instead emits a single
+ * Transaction event, which lists its operations' events.
  */
-export class ListCrdt<T> {
-  private readonly list: List<T>;
+export class ListCrdt<T> extends BaseCrdt<
+  T,
+  T[],
+  MovableList<T, ListCrdtLocation>,
+  ListCrdtSetMessage<T>,
+  ListCrdtEvents<T>,
+  ListCrdtMoveMessage,
+  ListCrdtOperationMessage<T>
+> {
   /**
-   * A set of all Positions we've ever seen, whether currently present or deleted.
-   * Used for state-based merging and handling reordered messages.
-   *
-   * We use PositionSet here because we don't care about the list order. If you did,
-   * you could use Outline instead, with the same Order as this.list
-   * (`this.seen = new Outline(this.order);`).
+   * Lamport clock for moves and updates: the greatest lamport we've seen.
+   */
+  private lamport = 0;
+  /**
+   * The latest update to each updated value, keyed by ID.
    *
-   * Tracking all seen Positions (instead of just deleted ones) reduces
-   * internal sparse array fragmentation, leading to smaller memory and saved state sizes.
+   * We keep updates to values that are not present, since an update may
+   * arrive before its value's insertion.
    */
-  private readonly seen: PositionSet;
+  private readonly updates = new PositionMap<ListCrdtUpdate<T>>();
   /**
-   * Maps from bunchID to a Set of messages that are waiting on that
-   * bunch's BunchMeta before they can be processed.
+   * How to encode our values as bytes, for `ListCrdtCodec.forList(this)`.
    */
-  private readonly pending: Map<string, Set<ListCrdtMessage<T>>>;
+  readonly valueCodec: ValueCodec<T>;
 
-  constructor(private readonly send: (message: ListCrdtMessage<T>) => void) {
-    this.list = new List();
-    this.seen = new PositionSet();
-    this.pending = new Map();
+  /**
+   * @param options.replicaID Our replica ID. It must be globally unique
+   * and satisfy the rules for list-positions replicaIDs. Reuse it when
+   * reloading this replica from its own saved state, so that its messages
+   * keep their seqs in order.
+   * Default: A random alphanumeric string.
+   * @param options.opLog An OpLog in which to record every message that we
+   * send and receive.
+   * @param options.valueCodec How to encode our values as bytes, for
+   * `ListCrdtCodec.forList(this)`. Default: A JsonValueCodec.
+   */
+  constructor(
+    send: (message: ListCrdtMessage<T>) => void,
+    options?: {
+      replicaID?: string;
+      opLog?: OpLog<ListCrdtMessage<T>, ListCrdtSavedState<T>>;
+      valueCodec?: ValueCodec<T>;
+    }
+  ) {
+    const replicaID = options?.replicaID ?? maybeRandomString();
+    super(new MovableList(), send, replicaID, options?.opLog);
+    this.valueCodec = options?.valueCodec ?? new JsonValueCodec<T>();
   }
 
-  getAt(index: number): T {
-    return this.list.getAt(index);
+  /**
+   * Returns the ID of the value at index: the Position where it was
+   * originally inserted.
+   */
+  idAt(index: number): Position {
+    return this.container.positionAt(index);
   }
 
-  [Symbol.iterator](): IterableIterator<T> {
-    return this.list.values();
+  slice(start?: number, end?: number): T[] {
+    return this.container.slice(start, end);
   }
 
-  values(): IterableIterator<T> {
-    return this.list.values();
+  /**
+   * Returns the values in the version tagged tag (see `tagVersion`).
+   *
+   * Values that are still present have their current value and order,
+   * so setAt and moveAt since the version are not undone.
+   */
+  sliceAtVersion(tag: string): T[] {
+    return this.valuesAtVersion(tag);
   }
 
-  slice(start?: number, end?: number): T[] {
-    return this.list.slice(start, end);
+  insertAt(index: number, ...values: T[]): void {
+    this.insertContentAt(index, values);
   }
 
-  insertAt(index: number, ...values: T[]): void {
-    if (values.length === 0) return;
-
-    const [pos, newMeta] = this.list.insertAt(index, ...values);
-    this.seen.add(pos, values.length);
-    const message: ListCrdtMessage<T> = {
-      type: "set",
-      startPos: pos,
-      values,
-      ...(newMeta ? { meta: newMeta } : {}),
+  /**
+   * Changes the list's values to values, by deleting and inserting values
+   * according to a minimal diff with the current values.
+   *
+   * Unchanged values keep their IDs, so concurrent edits to them are preserved.
+   * Changed values are deleted and re-inserted, not updated in place.
+   * Wrap it in `transact` to send a single message.
+   *
+   * @param equals Whether a current value equals a new value.
+   * Default: `===`.
+   */
+  setValues(
+    values: T[],
+    equals: (a: T, b: T) => boolean = (a, b) => a === b
+  ): void {
+    this.applyDiff(this.slice(), values, equals);
+  }
+
+  /**
+   * Sets the value at index, keeping its ID.
+   */
+  setAt(index: number, value: T): void {
+    const id = this.container.positionAt(index);
+    const update: ListCrdtUpdate<T> = {
+      value,
+      lamport: ++this.lamport,
+      replicaID: this.replicaID,
     };
-    this.send(message);
+    const event = this.applyUpdate(id, update, true);
+    this.send({ type: "update", id, ...update });
+    if (event !== null) this.emit("Update", event);
   }
 
-  deleteAt(index: number, count = 1): void {
+  /**
+   * Moves the values at indices `[from, from + count)` so that they appear just
+   * before the value currently at index `to` (or at the end, if `to` is the length).
+   *
+   * The values keep their IDs, but get new Positions.
+   */
+  moveAt(from: number, to: number, count = 1): void {
     if (count === 0) return;
-
-    const items: [startPos: Position, count: number][] = [];
-    if (count === 1) {
-      // Common case: use positionAt, which is faster than items.
-      items.push([this.list.positionAt(index), 1]);
-    } else {
-      for (const [startPos, values] of this.list.items(index, index + count)) {
-        items.push([startPos, values.length]);
-      }
+    if (from < 0 || count < 0 || from + count > this.container.length) {
+      throw new Error(
+        `Range out of bounds: [${from}, ${from + count}) (length: ${
+          this.container.length
+        })`
+      );
     }
-
-    for (const [startPos, itemCount] of items) {
-      this.list.delete(startPos, itemCount);
+    if (to < 0 || to > this.container.length) {
+      throw new Error(
+        `Index out of bounds: ${to} (length: ${this.container.length})`
+      );
     }
-    this.send({ type: "delete", items });
+
+    const items = [...this.container.items(from, from + count)].map(
+      ([startID, values]): [startID: Position, count: number] => [
+        startID,
+        values.length,
+      ]
+    );
+    const [startPos, newMeta] = this.container.createPositionsAt(to, count);
+    const message: ListCrdtMoveMessage = {
+      type: "move",
+      items,
+      startPos,
+      lamport: ++this.lamport,
+      ...(newMeta ? { meta: newMeta } : {}),
+    };
+    const events = this.applyMove(message, true);
+    this.send(message);
+    this.emitMoves(events);
   }
 
-  receive(message: ListCrdtMessage<T>): void {
-    switch (message.type) {
-      case "delete":
-        for (const [startPos, count] of message.items) {
-          // Mark each position as seen immediately, even if we don't have metadata
-          // for its bunch yet. Okay because this.seen is a PositionSet instead of an Outline.
-          this.seen.add(startPos, count);
-
-          // Delete the positions if present.
-          // If the bunch is unknown, it's definitely not present, and we
-          // should skip calling text.has to avoid a "Missing metadata" error.
-          if (this.list.order.getNode(startPos.bunchID) !== undefined) {
-            // For future events, we may need to delete individually. Do it now for consistency.
-            for (const pos of expandPositions(startPos, count)) {
-              if (this.list.has(pos)) {
-                this.list.delete(pos);
-              }
-            }
-          }
-        }
-        break;
-      case "set": {
-        const bunchID = message.startPos.bunchID;
-        if (message.meta) {
-          const parentID = message.meta.parentID;
-          if (this.list.order.getNode(parentID) === undefined) {
-            // The meta can't be processed yet because its parent bunch is unknown.
-            // Add it to pending.
-            this.addToPending(parentID, message);
-            return;
-          } else this.list.order.addMetas([message.meta]);
-        }
+  protected deliver(message: ListCrdtOperationMessage<T>): void {
+    if (message.type === "update") {
+      const { id, value, lamport, replicaID } = message;
+      this.lamport = Math.max(this.lamport, lamport);
+      const event = this.applyUpdate(id, { value, lamport, replicaID }, false);
+      if (event !== null) this.emit("Update", event);
+    } else super.deliver(message);
+  }
 
-        if (this.list.order.getNode(bunchID) === undefined) {
-          // The message can't be processed yet because its bunch is unknown.
-          // Add it to pending.
-          this.addToPending(bunchID, message);
-          return;
-        }
+  save(): ListCrdtSavedState<T> {
+    const { container, ...rest } = this.saveBase();
+    return {
+      ...rest,
+      list: container,
+      locations: this.container.saveLocations(),
+      updates: this.updates.save(),
+    };
+  }
+
+  /**
+   * Returns a delta: a saved state containing just the parts of our state that
+   * are missing from a replica with the given summary (from its `summary()` method).
+   *
+   * Pass the delta to that replica's `load` method. Loading it has the same effect
+   * as loading our full saved state.
+   */
+  saveDelta(summary: CrdtSummary): ListCrdtSavedState<T> {
+    const { container, ...rest } = this.saveDeltaBase(summary);
+    // Locations and updates are usually few, so always send all of them.
+    return {
+      ...rest,
+      list: container,
+      locations: this.container.saveLocations(),
+      updates: this.updates.save(),
+    };
+  }
+
+  /**
+   * Loads the given saved state.
+   *
+   * If this replica has never been used, this overwrites its state directly,
+   * without emitting events. Otherwise, it performs a state-based merge,
+   * emitting events for the changes.
+   */
+  load(savedState: ListCrdtSavedState<T>): void {
+    const { list, locations, updates, ...rest } = savedState;
 
-        // At this point, BunchMeta dependencies are satisfied. Process the message.
+    // Merge locations first, since this.container places values by location.
+    this.container.order.load(savedState.order);
+    const otherLocations = new PositionMap<ListCrdtLocation>();
+    otherLocations.load(locations ?? {});
+    const events: ListCrdtMoveEvent<T>[] = [];
+    for (const [id, location] of otherLocations.entries()) {
+      this.lamport = Math.max(this.lamport, location.lamport);
+      this.moveIfNewer(id, location, false, events);
+    }
+    this.emitMoves(events);
 
-        // Note that the insertion may have already been (partly) seen, due to
-        // redundant or out-of-order messages;
-        // only unseen positions need to be inserted.
-        const poss = expandPositions(message.startPos, message.values.length);
-        const toInsert: number[] = [];
-        for (let i = 0; i < poss.length; i++) {
-          if (!this.seen.has(poss[i])) toInsert.push(i);
-        }
-        if (toInsert.length === message.values.length) {
-          // All need inserting (normal case).
-          this.list.set(message.startPos, ...message.values);
-        } else {
-          for (const i of toInsert) {
-            this.list.set(poss[i], message.values[i]);
-          }
-        }
+    // Likewise for updates, since containerSet applies them to new values.
+    const otherUpdates = new PositionMap<ListCrdtUpdate<T>>();
+    otherUpdates.load(updates ?? {});
+    for (const [id, update] of otherUpdates.entries()) {
+      this.lamport = Math.max(this.lamport, update.lamport);
+      const event = this.applyUpdate(id, update, false);
+      if (event !== null) this.emit("Update", event);
+    }
 
-        this.seen.add(message.startPos, message.values.length);
-
-        if (message.meta) {
-          // The meta may have unblocked pending messages.
-          const unblocked = this.pending.get(message.meta.bunchID);
-          if (unblocked !== undefined) {
-            this.pending.delete(message.meta.bunchID);
-            // TODO: if you unblock a long dependency chain (unlikely),
-            // this recursion could overflow the stack.
-            for (const msg2 of unblocked) this.receive(msg2);
-          }
+    const isFirstLoad = this.isUnused();
+    this.loadBase({ ...rest, container: list });
+    if (isFirstLoad) {
+      // loadBase overwrote our state without calling containerSet, so apply
+      // any updates that we received before the values.
+      for (const [id, update] of this.updates.entries()) {
+        if (
+          this.container.order.getNode(id.bunchID) !== undefined &&
+          this.container.has(id)
+        ) {
+          this.container.set(id, [update.value]);
         }
-        break;
       }
     }
   }
 
-  private addToPending(bunchID: string, message: ListCrdtMessage<T>): void {
-    let bunchPending = this.pending.get(bunchID);
-    if (bunchPending === undefined) {
-      bunchPending = new Set();
-      this.pending.set(bunchID, bunchPending);
+  protected containerInsertAt(
+    index: number,
+    values: T[]
+  ): [startPos: Position, newMeta: BunchMeta | null] {
+    return this.container.insertAt(index, values);
+  }
+
+  protected containerSet(startPos: Position, values: T[]): T[] {
+    if (this.updates.state.has(startPos.bunchID)) {
+      // Apply updates that arrived before the values.
+      values = values.map((value, i) => {
+        const update = this.updates.get({
+          bunchID: startPos.bunchID,
+          innerIndex: startPos.innerIndex + i,
+        });
+        return update === undefined ? value : update.value;
+      });
     }
-    bunchPending.add(message);
+    this.container.set(startPos, values);
+    return values;
   }
 
-  save(): ListCrdtSavedState<T> {
-    const buffer: ListCrdtMessage<T>[] = [];
-    for (const messageSet of this.pending.values()) {
-      buffer.push(...messageSet);
+  protected newSetMessage(
+    startPos: Position,
+    values: T[],
+    meta: BunchMeta | null
+  ): ListCrdtSetMessage<T> {
+    return { type: "set", startPos, values, ...(meta ? { meta } : {}) };
+  }
+
+  protected setMessageContent(message: ListCrdtSetMessage<T>): T[] {
+    return message.values;
+  }
+
+  protected newInsertEvent(
+    index: number,
+    startPos: Position,
+    values: T[],
+    isLocal: boolean
+  ): ListCrdtInsertEvent<T> {
+    return { index, startPos, values, isLocal };
+  }
+
+  protected newDeleteEvent(
+    index: number,
+    startPos: Position,
+    values: T[],
+    isLocal: boolean
+  ): ListCrdtDeleteEvent<T> {
+    return { index, startPos, values, isLocal };
+  }
+
+  protected applyOther(message: ListCrdtMoveMessage): void {
+    this.lamport = Math.max(this.lamport, message.lamport);
+    this.emitMoves(this.applyMove(message, false));
+  }
+
+  protected isRunInOrder(startPos: Position): boolean {
+    return !this.container.hasMoved(startPos.bunchID);
+  }
+
+  protected currentPosition(id: Position): Position {
+    return this.container.location(id)?.pos ?? id;
+  }
+
+  protected referencedBunchIDs(message: ListCrdtOperationMessage<T>): string[] {
+    switch (message.type) {
+      case "update":
+        return [message.id.bunchID];
+      case "move":
+        return [
+          ...super.referencedBunchIDs(message),
+          ...message.items.map(([startID]) => startID.bunchID),
+        ];
+      default:
+        return super.referencedBunchIDs(message);
     }
-    return {
-      order: this.list.order.save(),
-      list: this.list.save(),
-      seen: this.seen.save(),
-      buffer,
-    };
   }
 
-  load(savedState: ListCrdtSavedState<T>): void {
-    if (this.seen.state.size === 0) {
-      // Never been used, so okay to load directly instead of doing a state-based
-      // merge.
-      this.list.order.load(savedState.order);
-      this.list.load(savedState.list);
-      this.seen.load(savedState.seen);
-    } else {
-      // TODO: benchmark merging.
-      const otherList = new List<T>();
-      const otherSeen = new Outline(otherList.order);
-      otherList.order.load(savedState.order);
-      otherList.load(savedState.list);
-      otherSeen.load(savedState.seen);
-
-      // Loop over all positions that had been inserted or deleted into
-      // the other list.
-      this.list.order.load(savedState.order);
-      for (const pos of otherSeen) {
-        if (!this.seen.has(pos)) {
-          // pos is new to us. Copy its state from the other list.
-          if (otherList.has(pos)) this.list.set(pos, otherList.get(pos)!);
-          this.seen.add(pos);
-        } else {
-          // We already know of pos. If it's deleted in the other list,
-          // ensure it's deleted here too.
-          if (!otherList.has(pos)) this.list.delete(pos);
-        }
+  /**
+   * Keeps bunches involved in moves or updates, whose locations and updates
+   * refer to them.
+   */
+  protected canPrune(bunchID: string): boolean {
+    return (
+      !this.container.hasMoved(bunchID) &&
+      !this.container.hasMovedInto(bunchID) &&
+      !this.updates.state.has(bunchID)
+    );
+  }
+
+  /**
+   * Applies a move message whose BunchMeta is known, returning Move events
+   * that the caller must emit.
+   */
+  private applyMove(
+    message: ListCrdtMoveMessage,
+    isLocal: boolean
+  ): ListCrdtMoveEvent<T>[] {
+    const events: ListCrdtMoveEvent<T>[] = [];
+    const { bunchID, innerIndex } = message.startPos;
+    let i = 0;
+    for (const [startID, count] of message.items) {
+      for (const id of expandPositions(startID, count)) {
+        this.moveIfNewer(
+          id,
+          {
+            pos: { bunchID, innerIndex: innerIndex + i },
+            lamport: message.lamport,
+          },
+          isLocal,
+          events
+        );
+        i++;
       }
     }
+    return events;
+  }
+
+  /**
+   * Moves the value with the given ID to location if it beats the value's
+   * current location, recording a Move event if the value is present.
+   */
+  private moveIfNewer(
+    id: Position,
+    location: ListCrdtLocation,
+    isLocal: boolean,
+    events: ListCrdtMoveEvent<T>[]
+  ): void {
+    const current = this.container.location(id);
+    if (current !== undefined && !isNewer(location, current)) return;
+
+    const moved = this.container.move(id, location);
+    if (moved !== null) {
+      const [value, index, newIndex] = moved;
+      events.push({ index, newIndex, id, value, isLocal });
+    }
+  }
+
+  private emitMoves(events: ListCrdtMoveEvent<T>[]): void {
+    for (const event of events) this.emit("Move", event);
+  }
 
-    // In either case, process buffer by re-delivering all of its messages.
-    for (const message of savedState.buffer) {
-      this.receive(message);
+  /**
+   * Records update for the value with the given ID if it beats the value's
+   * current update, setting the value if present.
+   *
+   * @returns An Update event that the caller must emit, or null if the value
+   * did not change.
+   */
+  private applyUpdate(
+    id: Position,
+    update: ListCrdtUpdate<T>,
+    isLocal: boolean
+  ): ListCrdtUpdateEvent<T> | null {
+    const current = this.updates.get(id);
+    if (current !== undefined && !isNewerUpdate(update, current)) return null;
+    this.updates.set(id, update);
+
+    // If the bunch is unknown, the value is definitely not present, and we
+    // should skip calling container.has to avoid a "Missing metadata" error.
+    if (
+      this.container.order.getNode(id.bunchID) === undefined ||
+      !this.container.has(id)
+    ) {
+      return null;
     }
+    const index = this.container.indexOfPosition(id);
+    const previousValue = this.container.getAt(index);
+    this.container.set(id, [update.value]);
+    return { index, id, value: update.value, previousValue, isLocal };
   }
 }
+
+/**
+ * Returns whether update a beats update b; see ListCrdtUpdate.
+ */
+function isNewerUpdate<T>(a: ListCrdtUpdate<T>, b: ListCrdtUpdate<T>): boolean {
+  if (a.lamport !== b.lamport) return a.lamport > b.lamport;
+  return a.replicaID > b.replicaID;
+}
+
+/**
+ * Returns whether location a beats location b; see ListCrdtLocation.
+ */
+function isNewer(a: ListCrdtLocation, b: ListCrdtLocation): boolean {
+  if (a.lamport !== b.lamport) return a.lamport > b.lamport;
+  if (a.pos.bunchID !== b.pos.bunchID) return a.pos.bunchID > b.pos.bunchID;
+  return a.pos.innerIndex > b.pos.innerIndex;
+}
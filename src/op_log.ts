@@ -0,0 +1,118 @@
+/**
+ * An entry in an OpLog: a message that a CRDT sent or received.
+ */
+export type OpLogEntry<M> = {
+  readonly direction: "sent" | "received";
+  readonly message: M;
+};
+
+/**
+ * Storage for an OpLog: an optional snapshot (a saved state) followed by an
+ * append-only list of entries.
+ *
+ * Implementations: MemoryOpLogStorage, and FileOpLogStorage for Node
+ * (in `file_op_log_storage.ts`, which is not exported from the package's index
+ * so that it can be used in browsers).
+ */
+export interface OpLogStorage<M, SS> {
+  /**
+   * Appends entry after all existing entries.
+   */
+  append(entry: OpLogEntry<M>): void;
+  /**
+   * Returns the snapshot (or null if there is none), plus the entries
+   * appended since the snapshot, in order.
+   */
+  read(): { snapshot: SS | null; entries: OpLogEntry<M>[] };
+  /**
+   * Replaces the snapshot with snapshot, which includes the effects of every
+   * entry appended so far, and discards those entries.
+   */
+  compact(snapshot: SS): void;
+}
+
+/**
+ * OpLogStorage that keeps everything in memory.
+ */
+export class MemoryOpLogStorage<M, SS> implements OpLogStorage<M, SS> {
+  private snapshot: SS | null = null;
+  private entries: OpLogEntry<M>[] = [];
+
+  append(entry: OpLogEntry<M>): void {
+    this.entries.push(entry);
+  }
+
+  read(): { snapshot: SS | null; entries: OpLogEntry<M>[] } {
+    return { snapshot: this.snapshot, entries: this.entries.slice() };
+  }
+
+  compact(snapshot: SS): void {
+    this.snapshot = snapshot;
+    this.entries = [];
+  }
+}
+
+/**
+ * An append-only log of the messages that a CRDT sends and receives,
+ * for crash recovery and auditing.
+ *
+ * Pass it to a CRDT's constructor (`{ opLog }` option) to record every message
+ * that the CRDT sends, and every new message that it receives. To rebuild the
+ * CRDT's state later, call `replay` on a fresh instance. Use `compact` to fold
+ * the log so far into a snapshot from the CRDT's `save()`.
+ *
+ * Saved states passed to the CRDT's `load` are not messages, so they are not
+ * recorded; call `compact` after loading to include them.
+ *
+ * Replayed messages are applied like received messages, so a replica
+ * rebuilt from the log should use a new replicaID, as usual for a new session.
+ */
+export class OpLog<M, SS> {
+  private replaying = false;
+
+  /**
+   * @param storage Where to store the log. Default: A new MemoryOpLogStorage.
+   */
+  constructor(
+    readonly storage: OpLogStorage<M, SS> = new MemoryOpLogStorage()
+  ) {}
+
+  /**
+   * Appends a message to the log. CRDTs call this; you do not need to.
+   *
+   * Messages are not recorded while replaying, since they are already in the log.
+   */
+  record(direction: "sent" | "received", message: M): void {
+    if (!this.replaying) this.storage.append({ direction, message });
+  }
+
+  /**
+   * Rebuilds crdt's state from the log: loads the snapshot, if any, then
+   * receives each entry's message in order.
+   *
+   * crdt should be a fresh instance. It may use this OpLog, in which case
+   * it continues recording after the replay.
+   */
+  replay(crdt: {
+    load(savedState: SS): void;
+    receive(message: M): void;
+  }): void {
+    const { snapshot, entries } = this.storage.read();
+    this.replaying = true;
+    try {
+      if (snapshot !== null) crdt.load(snapshot);
+      for (const entry of entries) crdt.receive(entry.message);
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Replaces the log so far with a snapshot of crdt's current state.
+   *
+   * crdt must be the CRDT that this OpLog records, or one with the same state.
+   */
+  compact(crdt: { save(): SS }): void {
+    this.storage.compact(crdt.save());
+  }
+}
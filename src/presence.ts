@@ -0,0 +1,428 @@
+import { maybeRandomString } from "maybe-random-string";
+import { EventEmitter } from "./event_emitter";
+import { SyncTransport, SyncableCrdt } from "./sync_provider";
+import { TextCrdtSelection } from "./text_crdt";
+
+/**
+ * A typical presence state for a TextCrdt editor. Presence's state type
+ * defaults to this, but you can use any JSON object.
+ */
+export type PresenceState = {
+  readonly name?: string;
+  readonly color?: string;
+  /**
+   * The user's selection, from `text.selectionAt(anchor, head)`.
+   *
+   * It refers to chars by Position, so it stays valid as the text changes.
+   * Display it with `text.indexOfSelection(selection)`.
+   */
+  readonly selection?: TextCrdtSelection;
+};
+
+/**
+ * A replica's presence state, plus its clock: the number of updates that
+ * the replica has made to its state, counting heartbeats.
+ *
+ * Newer clocks win, so stale states never overwrite fresher ones. At equal
+ * clocks, a removal wins.
+ */
+export type PresenceEntry<S> = {
+  readonly state: S;
+  readonly clock: number;
+};
+
+export type PresenceMessage<S> =
+  | {
+      /**
+       * Sets the replica's state. Also sent as a heartbeat.
+       */
+      readonly type: "update";
+      readonly replicaID: string;
+      readonly clock: number;
+      readonly state: S;
+    }
+  | {
+      /**
+       * Removes the replica's state, e.g., when it leaves, or when a
+       * SyncServer sees it disconnect.
+       */
+      readonly type: "remove";
+      readonly replicaID: string;
+      readonly clock: number;
+    };
+
+/**
+ * The present replicas' entries, keyed by replicaID.
+ */
+export type PresenceSavedState<S> = {
+  readonly [replicaID: string]: PresenceEntry<S>;
+};
+
+/**
+ * Event emitted by Presence when replicas' states change.
+ *
+ * Heartbeats that do not change a state are not reported.
+ */
+export type PresenceChangeEvent = {
+  readonly added: string[];
+  readonly updated: string[];
+  readonly removed: string[];
+  /**
+   * Whether the change was performed locally (setLocalState, dispose)
+   * instead of received from another replica or caused by a timeout or
+   * disconnection.
+   */
+  readonly isLocal: boolean;
+};
+
+export type PresenceEvents = {
+  Change: PresenceChangeEvent;
+};
+
+/**
+ * The replicaIDs in a PresenceChangeEvent, collected while applying changes.
+ */
+type PresenceChanges = Omit<PresenceChangeEvent, "isLocal">;
+
+/**
+ * Internal record of a replica's state. Removed states are kept as null,
+ * so that their clocks still reject stale messages.
+ */
+type PresenceRecord<S> = {
+  state: S | null;
+  clock: number;
+  /**
+   * When we last received a newer clock, according to `now()`.
+   */
+  lastSeen: number;
+};
+
+/**
+ * Ephemeral per-replica state, such as each user's name, color, and selection,
+ * shared alongside the CRDTs.
+ *
+ * Unlike the CRDTs, it does not keep history: each replica has one state
+ * (type S), which only it sets, and states disappear when their replicas leave.
+ * Use it as a SyncProvider doc, so that it shares the CRDTs' transport:
+ *
+ * ```ts
+ * const presence = provider.add(
+ *   "presence",
+ *   (send) => new Presence(send, { transport: provider.transport })
+ * );
+ * presence.setLocalState({ name: "Alice", selection: text.selectionAt(0, 0) });
+ * ```
+ *
+ * Each replica resends its state every `heartbeatInterval`, and other
+ * replicas remove a state once they have not heard from it for `timeout`,
+ * e.g., because its replica crashed. States are also removed when their
+ * replica calls `dispose()`, and all remote states are removed when
+ * `transport` closes; the next handshake restores them. We also resend our
+ * state when `transport` opens.
+ *
+ * With a SyncServer, return a Presence from `createDoc` for the presence
+ * doc's ID. The server's Presence has no state of its own. When a client
+ * disconnects, the server removes the states that the client sent and tells
+ * the other clients (see `removeReplicas`). Since Presence is `ephemeral`,
+ * the server never persists it, so a restarted server does not restore
+ * departed users.
+ */
+export class Presence<S extends object = PresenceState>
+  extends EventEmitter<PresenceEvents>
+  implements SyncableCrdt<PresenceMessage<S>, PresenceSavedState<S>>
+{
+  /**
+   * Our replica ID, which keys our state. It must be globally unique.
+   */
+  readonly replicaID: string;
+  /**
+   * Always true: states are not worth persisting, since they time out.
+   */
+  readonly ephemeral = true;
+  private readonly heartbeatInterval: number;
+  private readonly timeout: number;
+  private readonly now: () => number;
+  private readonly records = new Map<string, PresenceRecord<S>>();
+  /**
+   * When we last sent our state, according to `now()`.
+   */
+  private lastSent = 0;
+  private readonly timer: ReturnType<typeof setInterval> | null;
+  private readonly unsubscribes: (() => void)[] = [];
+
+  /**
+   * @param options.replicaID Our replica ID. It must be globally unique.
+   * Default: A random alphanumeric string.
+   * @param options.transport The transport that our messages travel over.
+   * If given, remote states are removed when it closes.
+   * @param options.heartbeatInterval How often to resend our state, in ms.
+   * Default: 15000.
+   * @param options.timeout How long to keep a remote state without hearing
+   * from its replica, in ms. It should be well over heartbeatInterval.
+   * Default: 30000.
+   * @param options.useTimers If false, no timer calls `tick()`, so you must
+   * call it yourself (e.g., in tests, with a fake `now`). Default: true.
+   * @param options.now Returns the current time in ms. Default: `Date.now`.
+   */
+  constructor(
+    private readonly send: (message: PresenceMessage<S>) => void,
+    options?: {
+      replicaID?: string;
+      transport?: SyncTransport;
+      heartbeatInterval?: number;
+      timeout?: number;
+      useTimers?: boolean;
+      now?: () => number;
+    }
+  ) {
+    super();
+    this.replicaID = options?.replicaID ?? maybeRandomString();
+    this.heartbeatInterval = options?.heartbeatInterval ?? 15000;
+    this.timeout = options?.timeout ?? 30000;
+    this.now = options?.now ?? Date.now;
+    this.records.set(this.replicaID, {
+      state: null,
+      clock: 0,
+      lastSeen: this.now(),
+    });
+
+    if (options?.transport !== undefined) {
+      this.unsubscribes.push(
+        options.transport.on("Close", () => this.removeRemoteStates()),
+        options.transport.on("Open", () => {
+          // Tell a SyncServer that our state comes from this connection.
+          const local = this.records.get(this.replicaID)!;
+          if (local.state !== null)
+            this.sendLocal(local.clock + 1, local.state);
+        })
+      );
+    }
+    this.timer =
+      options?.useTimers ?? true
+        ? setInterval(
+            () => this.tick(),
+            Math.min(this.heartbeatInterval, this.timeout) / 2
+          )
+        : null;
+    // Don't keep Node processes alive just for heartbeats.
+    (this.timer as { unref?: () => void } | null)?.unref?.();
+  }
+
+  /**
+   * Our state, or null if we have not set one (or removed it).
+   */
+  get localState(): S | null {
+    return this.records.get(this.replicaID)!.state;
+  }
+
+  /**
+   * Sets our state and sends it to other replicas. null removes it.
+   */
+  setLocalState(state: S | null): void {
+    const record = this.records.get(this.replicaID)!;
+    const previous = record.state;
+    this.sendLocal(record.clock + 1, state);
+    const changes = newChanges();
+    recordChange(changes, this.replicaID, previous, state);
+    this.emitChanges(changes, true);
+  }
+
+  /**
+   * Returns replicaID's state, or undefined if it is not present.
+   */
+  getState(replicaID: string): S | undefined {
+    return this.records.get(replicaID)?.state ?? undefined;
+  }
+
+  /**
+   * Returns all present states, including ours, keyed by replicaID.
+   */
+  getStates(): Map<string, S> {
+    const states = new Map<string, S>();
+    for (const [replicaID, record] of this.records) {
+      if (record.state !== null) states.set(replicaID, record.state);
+    }
+    return states;
+  }
+
+  receive(message: PresenceMessage<S>): void {
+    const changes = newChanges();
+    this.apply(
+      message.replicaID,
+      message.clock,
+      message.type === "update" ? message.state : null,
+      changes
+    );
+    this.emitChanges(changes, false);
+  }
+
+  replicaIDOf(message: PresenceMessage<S>): string | undefined {
+    return message.type === "update" ? message.replicaID : undefined;
+  }
+
+  /**
+   * Removes the given remote replicas' states, e.g., because they
+   * disconnected from a SyncServer, and returns the messages that tell
+   * other replicas.
+   *
+   * The messages keep each replica's latest clock, so that its next update
+   * (e.g., when it reconnects) wins over them.
+   */
+  removeReplicas(replicaIDs: string[]): PresenceMessage<S>[] {
+    const messages: PresenceMessage<S>[] = [];
+    const changes = newChanges();
+    for (const replicaID of replicaIDs) {
+      const record = this.records.get(replicaID);
+      if (
+        replicaID === this.replicaID ||
+        record === undefined ||
+        record.state === null
+      ) {
+        continue;
+      }
+      record.state = null;
+      changes.removed.push(replicaID);
+      messages.push({ type: "remove", replicaID, clock: record.clock });
+    }
+    this.emitChanges(changes, false);
+    return messages;
+  }
+
+  save(): PresenceSavedState<S> {
+    const savedState: { [replicaID: string]: PresenceEntry<S> } = {};
+    for (const [replicaID, { state, clock }] of this.records) {
+      if (state !== null) savedState[replicaID] = { state, clock };
+    }
+    return savedState;
+  }
+
+  /**
+   * Merges the given saved state into ours, like receiving an update for
+   * each of its entries.
+   */
+  load(savedState: PresenceSavedState<S>): void {
+    const changes = newChanges();
+    for (const [replicaID, { state, clock }] of Object.entries(savedState)) {
+      this.apply(replicaID, clock, state, changes);
+    }
+    this.emitChanges(changes, false);
+  }
+
+  /**
+   * Sends a heartbeat if one is due, and removes remote states that timed out.
+   *
+   * A timer calls this periodically, unless you passed `useTimers: false`.
+   */
+  tick(): void {
+    const now = this.now();
+    const local = this.records.get(this.replicaID)!;
+    if (local.state !== null && now - this.lastSent >= this.heartbeatInterval) {
+      this.sendLocal(local.clock + 1, local.state);
+    }
+
+    const changes = newChanges();
+    for (const [replicaID, record] of this.records) {
+      if (
+        replicaID !== this.replicaID &&
+        record.state !== null &&
+        now - record.lastSeen >= this.timeout
+      ) {
+        record.state = null;
+        changes.removed.push(replicaID);
+      }
+    }
+    this.emitChanges(changes, false);
+  }
+
+  /**
+   * Removes our state (telling other replicas that we left), then stops the
+   * timer and stops listening to the transport.
+   */
+  dispose(): void {
+    if (this.localState !== null) this.setLocalState(null);
+    if (this.timer !== null) clearInterval(this.timer);
+    for (const unsubscribe of this.unsubscribes) unsubscribe();
+  }
+
+  private sendLocal(clock: number, state: S | null): void {
+    const record = this.records.get(this.replicaID)!;
+    record.state = state;
+    record.clock = clock;
+    this.lastSent = this.now();
+    this.send(
+      state === null
+        ? { type: "remove", replicaID: this.replicaID, clock }
+        : { type: "update", replicaID: this.replicaID, clock, state }
+    );
+  }
+
+  private apply(
+    replicaID: string,
+    clock: number,
+    state: S | null,
+    changes: PresenceChanges
+  ): void {
+    const record = this.records.get(replicaID);
+    if (replicaID === this.replicaID) {
+      // A stale state of ours, e.g., from before we reloaded with the same
+      // replicaID. Resend our state with a newer clock, so that it wins.
+      if (clock > record!.clock) this.sendLocal(clock + 1, record!.state);
+      return;
+    }
+    if (record !== undefined) {
+      // At equal clocks, a removal wins, as in removeReplicas.
+      const isNewer =
+        clock > record.clock ||
+        (clock === record.clock && state === null && record.state !== null);
+      if (!isNewer) return;
+    }
+
+    const previous = record?.state ?? null;
+    this.records.set(replicaID, { state, clock, lastSeen: this.now() });
+    recordChange(changes, replicaID, previous, state);
+  }
+
+  /**
+   * Forgets all remote records, including their clocks, so that the next
+   * handshake can restore the same states.
+   */
+  private removeRemoteStates(): void {
+    const changes = newChanges();
+    for (const [replicaID, record] of [...this.records]) {
+      if (replicaID === this.replicaID) continue;
+      if (record.state !== null) changes.removed.push(replicaID);
+      this.records.delete(replicaID);
+    }
+    this.emitChanges(changes, false);
+  }
+
+  private emitChanges(changes: PresenceChanges, isLocal: boolean): void {
+    const { added, updated, removed } = changes;
+    if (added.length === 0 && updated.length === 0 && removed.length === 0) {
+      return;
+    }
+    this.emit("Change", { added, updated, removed, isLocal });
+  }
+}
+
+function newChanges(): PresenceChanges {
+  return { added: [], updated: [], removed: [] };
+}
+
+/**
+ * Records in changes how replicaID's state changed from previous to state.
+ */
+function recordChange<S>(
+  changes: PresenceChanges,
+  replicaID: string,
+  previous: S | null,
+  state: S | null
+): void {
+  if (previous === null) {
+    if (state !== null) changes.added.push(replicaID);
+  } else if (state === null) {
+    changes.removed.push(replicaID);
+  } else if (JSON.stringify(previous) !== JSON.stringify(state)) {
+    changes.updated.push(replicaID);
+  }
+}
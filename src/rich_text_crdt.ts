@@ -0,0 +1,508 @@
+import {
+  OrderSavedState,
+  OutlineSavedState,
+  Position,
+  TextSavedState,
+} from "list-positions";
+import {
+  CrdtDeleteMessage,
+  CrdtSummary,
+  CrdtTransactionEvent,
+  CrdtTransactionMessage,
+} from "./base_crdt";
+import { OpLog } from "./op_log";
+import {
+  BaseTextCrdt,
+  TextCrdtCursor,
+  TextCrdtDeleteEvent,
+  TextCrdtInsertEvent,
+  TextCrdtSetMessage,
+} from "./text_crdt";
+import { CrdtStamp } from "./version_vector";
+
+/**
+ * A formatting mark: sets the format `key` to `value` on a range of text.
+ * A `null` value removes the format.
+ *
+ * The range's ends are cursors (see TextCrdtCursor): the range contains the
+ * chars at or after the start cursor and before the end cursor. Their binds
+ * determine whether text inserted at each end is formatted too (Peritext-style
+ * expand behavior).
+ *
+ * Concurrent marks for the same key are resolved by last-writer-wins:
+ * the mark with the greatest lamport wins, with ties broken by replicaID.
+ */
+export type RichTextCrdtMark = {
+  readonly startPos: Position;
+  readonly startBind: "left" | "right";
+  readonly endPos: Position;
+  readonly endBind: "left" | "right";
+  readonly key: string;
+  readonly value: unknown;
+  readonly lamport: number;
+  readonly replicaID: string;
+};
+
+/**
+ * Message that adds a mark.
+ *
+ * Its startPos is the mark's start; it is buffered until the BunchMetas of
+ * both its start and end are known.
+ */
+export type RichTextCrdtMarkMessage = RichTextCrdtMark & {
+  readonly type: "mark";
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * A message for a single RichTextCrdt operation.
+ */
+export type RichTextCrdtOperationMessage =
+  | TextCrdtSetMessage
+  | CrdtDeleteMessage
+  | RichTextCrdtMarkMessage;
+
+export type RichTextCrdtMessage =
+  | RichTextCrdtOperationMessage
+  | CrdtTransactionMessage<RichTextCrdtOperationMessage>;
+
+export type RichTextCrdtSavedState = {
+  readonly order: OrderSavedState;
+  readonly text: TextSavedState;
+  readonly seen: OutlineSavedState;
+  /**
+   * The stamps of all messages received; see `versionVector()`.
+   * Absent in saved states from before stamps; treated as empty.
+   */
+  readonly received?: OutlineSavedState;
+  /**
+   * IDs of bunches pruned by `collectGarbage()`, if any.
+   */
+  readonly pruned?: string[];
+  /**
+   * All marks whose start and end are known, in LWW order.
+   */
+  readonly marks: RichTextCrdtMark[];
+  readonly buffer: RichTextCrdtOperationMessage[];
+};
+
+/**
+ * Which ends of a formatted range expand to include text inserted there.
+ *
+ * Typically, bold and italic use `"after"` (the default), while links use `"none"`.
+ */
+export type RichTextCrdtExpand = "none" | "before" | "after" | "both";
+
+/**
+ * The formats of some chars: a map from each format key to its value.
+ */
+export type RichTextCrdtFormat = { [key: string]: unknown };
+
+/**
+ * A maximal run of chars with the same format.
+ */
+export type RichTextCrdtSpan = {
+  readonly text: string;
+  readonly format: RichTextCrdtFormat;
+};
+
+/**
+ * Event emitted by a RichTextCrdt when a mark is added.
+ *
+ * The chars in `[startIndex, endIndex)` may have a new format for key.
+ * Some may keep their old format instead, if a newer mark for the same key
+ * covers them, so re-read their format with `formatAt` or `spans`.
+ */
+export type RichTextCrdtFormatEvent = {
+  readonly startIndex: number;
+  readonly endIndex: number;
+  readonly key: string;
+  readonly value: unknown;
+  /**
+   * Whether the mark was added locally (format) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+export type RichTextCrdtEvents = {
+  Insert: TextCrdtInsertEvent;
+  Delete: TextCrdtDeleteEvent;
+  Format: RichTextCrdtFormatEvent;
+  Transaction: CrdtTransactionEvent<RichTextCrdtEvents>;
+};
+
+/**
+ * A rich-text CRDT: TextCrdt's chars plus a layer of formatting marks,
+ * in the style of [Peritext](https://www.inkandswitch.com/peritext/).
+ *
+ * Marks are anchored to Positions from the same Order as the text, so they
+ * keep their place despite concurrent edits; see RichTextCrdtMark.
+ * Like the other CRDTs here, send/receive tolerate duplicated and out-of-order
+ * messages, and save/load work as state-based merging.
+ *
+ * Use `on("Insert", ...)`, `on("Delete", ...)`, and `on("Format", ...)` to learn
+ * of changes to the text. A transaction (`transact`) instead emits a single
+ * Transaction event, which lists its operations' events.
+ */
+export class RichTextCrdt extends BaseTextCrdt<
+  RichTextCrdtEvents,
+  RichTextCrdtMarkMessage
+> {
+  /**
+   * Lamport clock for marks: the greatest lamport we've seen.
+   */
+  private lamport = 0;
+  /**
+   * All marks whose start and end are known, sorted by compareMarks.
+   */
+  private readonly marks: RichTextCrdtMark[] = [];
+  /**
+   * Index of the marks' formats, or null if it needs rebuilding because a
+   * mark was added. Since it uses cursors, not indices, edits to the text
+   * do not invalidate it.
+   */
+  private formatIndex: FormatIndex | null = null;
+
+  /**
+   * @param options.replicaID Our replica ID. It must be globally unique
+   * and satisfy the rules for list-positions replicaIDs. Reuse it when
+   * reloading this replica from its own saved state, so that its messages
+   * keep their seqs in order.
+   * Default: A random alphanumeric string.
+   * @param options.opLog An OpLog in which to record every message that we
+   * send and receive.
+   */
+  constructor(
+    send: (message: RichTextCrdtMessage) => void,
+    options?: {
+      replicaID?: string;
+      opLog?: OpLog<RichTextCrdtMessage, RichTextCrdtSavedState>;
+    }
+  ) {
+    super(send, options);
+  }
+
+  /**
+   * Sets the format key to value on the chars in `[start, end)`.
+   * Use a `null` value to remove the format.
+   *
+   * @param expand Which ends of the range expand to include text inserted there.
+   * Default: `"after"`.
+   */
+  format(
+    start: number,
+    end: number,
+    key: string,
+    value: unknown,
+    expand: RichTextCrdtExpand = "after"
+  ): void {
+    if (start < 0 || end > this.container.length || start > end) {
+      throw new Error(
+        `Invalid range: [${start}, ${end}) (length: ${this.container.length})`
+      );
+    }
+    if (start === end) return;
+
+    const startBind =
+      expand === "before" || expand === "both" ? "left" : "right";
+    const endBind = expand === "after" || expand === "both" ? "right" : "left";
+    const mark: RichTextCrdtMark = {
+      startPos: this.container.cursorAt(start, startBind),
+      startBind,
+      endPos: this.container.cursorAt(end, endBind),
+      endBind,
+      key,
+      value,
+      lamport: ++this.lamport,
+      replicaID: this.replicaID,
+    };
+    this.addMark(mark);
+    this.send({ type: "mark", ...mark });
+    this.emitFormat(mark, true);
+  }
+
+  /**
+   * Returns the format of the char at index.
+   */
+  formatAt(index: number): RichTextCrdtFormat {
+    if (index < 0 || index >= this.container.length) {
+      throw new Error(
+        `Index out of bounds: ${index} (length: ${this.container.length})`
+      );
+    }
+    const { boundaries, formats } = this.getFormatIndex();
+    // The char's segment starts at the last boundary before it.
+    const before: TextCrdtCursor = {
+      pos: this.container.positionAt(index),
+      bind: "right",
+    };
+    let lo = 0;
+    let hi = boundaries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.compareCursors(boundaries[mid], before) <= 0) lo = mid + 1;
+      else hi = mid;
+    }
+    return { ...formats[lo] };
+  }
+
+  /**
+   * Returns the text as maximal runs of chars with the same format.
+   */
+  spans(): RichTextCrdtSpan[] {
+    const { boundaries, formats } = this.getFormatIndex();
+    const indices = [
+      0,
+      ...boundaries.map(({ pos, bind }) =>
+        this.container.indexOfCursor(pos, bind)
+      ),
+      this.container.length,
+    ];
+
+    const spans: RichTextCrdtSpan[] = [];
+    for (let i = 0; i < formats.length; i++) {
+      if (indices[i] >= indices[i + 1]) continue;
+      const text = this.container.slice(indices[i], indices[i + 1]);
+      const format = { ...formats[i] };
+      const last = spans[spans.length - 1];
+      if (last !== undefined && sameFormat(last.format, format)) {
+        spans[spans.length - 1] = { text: last.text + text, format };
+      } else spans.push({ text, format });
+    }
+    return spans;
+  }
+
+  save(): RichTextCrdtSavedState {
+    const { container, ...rest } = this.saveBase();
+    return { ...rest, text: container, marks: this.marks.slice() };
+  }
+
+  /**
+   * Returns a delta: a saved state containing just the parts of our state that
+   * are missing from a replica with the given summary (from its `summary()` method).
+   *
+   * Pass the delta to that replica's `load` method. Loading it has the same effect
+   * as loading our full saved state.
+   */
+  saveDelta(summary: CrdtSummary): RichTextCrdtSavedState {
+    const { container, ...rest } = this.saveDeltaBase(summary);
+    // Marks are usually few, so always send all of them.
+    return { ...rest, text: container, marks: this.marks.slice() };
+  }
+
+  /**
+   * Loads the given saved state.
+   *
+   * If this replica has never been used, this overwrites its state directly,
+   * without emitting events. Otherwise, it performs a state-based merge,
+   * emitting events for the changes.
+   */
+  load(savedState: RichTextCrdtSavedState): void {
+    const { text, marks, ...rest } = savedState;
+    const isFirstLoad = this.isUnused();
+    // Load the text first, so that the marks' BunchMetas are known.
+    this.loadBase({ ...rest, container: text });
+    for (const mark of marks) {
+      this.lamport = Math.max(this.lamport, mark.lamport);
+      if (this.addMark(mark) && !isFirstLoad) this.emitFormat(mark, false);
+    }
+  }
+
+  protected applyOther(message: RichTextCrdtMarkMessage): void {
+    // BaseCrdt waited for the start's BunchMeta; we also need the end's.
+    if (this.container.order.getNode(message.endPos.bunchID) === undefined) {
+      this.addToPending(message.endPos.bunchID, message);
+      return;
+    }
+
+    const { startPos, startBind, endPos, endBind, key, value } = message;
+    const { lamport, replicaID } = message;
+    const mark: RichTextCrdtMark = {
+      startPos,
+      startBind,
+      endPos,
+      endBind,
+      key,
+      value,
+      lamport,
+      replicaID,
+    };
+    this.lamport = Math.max(this.lamport, mark.lamport);
+    if (this.addMark(mark)) this.emitFormat(mark, false);
+  }
+
+  protected referencedBunchIDs(
+    message: RichTextCrdtOperationMessage
+  ): string[] {
+    const bunchIDs = super.referencedBunchIDs(message);
+    if (message.type === "mark") bunchIDs.push(message.endPos.bunchID);
+    return bunchIDs;
+  }
+
+  /**
+   * Keeps bunches that a mark is anchored to.
+   */
+  protected canPrune(bunchID: string): boolean {
+    return !this.marks.some(
+      (mark) =>
+        mark.startPos.bunchID === bunchID || mark.endPos.bunchID === bunchID
+    );
+  }
+
+  /**
+   * Adds mark to this.marks, in sorted order, unless it is already present.
+   *
+   * @returns Whether mark was added.
+   */
+  private addMark(mark: RichTextCrdtMark): boolean {
+    // Binary search for the first mark that is not less than mark.
+    let lo = 0;
+    let hi = this.marks.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (compareMarks(this.marks[mid], mark) < 0) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo < this.marks.length && compareMarks(this.marks[lo], mark) === 0) {
+      // Redundant (already received).
+      return false;
+    }
+    this.marks.splice(lo, 0, mark);
+    this.formatIndex = null;
+    return true;
+  }
+
+  private getFormatIndex(): FormatIndex {
+    if (this.formatIndex === null) {
+      this.formatIndex = buildFormatIndex(this.marks, (a, b) =>
+        this.compareCursors(a, b)
+      );
+    }
+    return this.formatIndex;
+  }
+
+  /**
+   * Compares cursors by the gaps they are bound to, in list order.
+   *
+   * Cursors bound to the same Position compare by bind: `"right"` is the gap
+   * before that char, and `"left"` the gap after it.
+   */
+  private compareCursors(a: TextCrdtCursor, b: TextCrdtCursor): number {
+    const byPos = this.container.order.compare(a.pos, b.pos);
+    if (byPos !== 0 || a.bind === b.bind) return byPos;
+    return a.bind === "right" ? -1 : 1;
+  }
+
+  /**
+   * Returns the current index range `[startIndex, endIndex)` of mark.
+   * It may be empty.
+   */
+  private markRange(
+    mark: RichTextCrdtMark
+  ): [startIndex: number, endIndex: number] {
+    return [
+      this.container.indexOfCursor(mark.startPos, mark.startBind),
+      this.container.indexOfCursor(mark.endPos, mark.endBind),
+    ];
+  }
+
+  private emitFormat(mark: RichTextCrdtMark, isLocal: boolean): void {
+    const [startIndex, endIndex] = this.markRange(mark);
+    if (startIndex >= endIndex) return;
+    this.emit("Format", {
+      startIndex,
+      endIndex,
+      key: mark.key,
+      value: mark.value,
+      isLocal,
+    });
+  }
+}
+
+/**
+ * An index of marks' formats, in terms of cursors (gaps between chars).
+ *
+ * The sorted, distinct `boundaries` split the text into segments whose chars
+ * have the same format: `formats[i]` is the format of the chars after
+ * `boundaries[i - 1]` (or the text's start) and before `boundaries[i]`
+ * (or the text's end).
+ */
+type FormatIndex = {
+  readonly boundaries: TextCrdtCursor[];
+  readonly formats: RichTextCrdtFormat[];
+};
+
+/**
+ * Builds the FormatIndex of marks (sorted by compareMarks) by sweeping
+ * over their boundaries, tracking the marks that cover each segment.
+ */
+function buildFormatIndex(
+  marks: RichTextCrdtMark[],
+  compareCursors: (a: TextCrdtCursor, b: TextCrdtCursor) => number
+): FormatIndex {
+  const starts: [cursor: TextCrdtCursor, markIndex: number][] = [];
+  const ends: [cursor: TextCrdtCursor, markIndex: number][] = [];
+  for (let m = 0; m < marks.length; m++) {
+    const start = { pos: marks[m].startPos, bind: marks[m].startBind };
+    const end = { pos: marks[m].endPos, bind: marks[m].endBind };
+    // Skip empty marks, which format nothing.
+    if (compareCursors(start, end) >= 0) continue;
+    starts.push([start, m]);
+    ends.push([end, m]);
+  }
+  const byCursor = (a: [TextCrdtCursor, number], b: [TextCrdtCursor, number]) =>
+    compareCursors(a[0], b[0]);
+  starts.sort(byCursor);
+  ends.sort(byCursor);
+
+  const boundaries: TextCrdtCursor[] = [];
+  const formats: RichTextCrdtFormat[] = [{}];
+  // The marks covering the current segment, as indices into marks.
+  const active = new Set<number>();
+  let s = 0;
+  let e = 0;
+  while (s < starts.length || e < ends.length) {
+    // The next boundary: the least remaining start or end.
+    const boundary =
+      e === ends.length ||
+      (s < starts.length && compareCursors(starts[s][0], ends[e][0]) <= 0)
+        ? starts[s][0]
+        : ends[e][0];
+    while (s < starts.length && compareCursors(starts[s][0], boundary) === 0) {
+      active.add(starts[s++][1]);
+    }
+    while (e < ends.length && compareCursors(ends[e][0], boundary) === 0) {
+      active.delete(ends[e++][1]);
+    }
+
+    const format: RichTextCrdtFormat = {};
+    for (const m of [...active].sort((a, b) => a - b)) {
+      applyMark(format, marks[m]);
+    }
+    boundaries.push(boundary);
+    formats.push(format);
+  }
+  return { boundaries, formats };
+}
+
+/**
+ * Orders marks by lamport, then replicaID. Each replica uses a given lamport
+ * for at most one mark, so marks that compare equal are the same mark.
+ */
+function compareMarks(a: RichTextCrdtMark, b: RichTextCrdtMark): number {
+  if (a.lamport !== b.lamport) return a.lamport - b.lamport;
+  if (a.replicaID === b.replicaID) return 0;
+  return a.replicaID < b.replicaID ? -1 : 1;
+}
+
+function applyMark(format: RichTextCrdtFormat, mark: RichTextCrdtMark): void {
+  if (mark.value === null) delete format[mark.key];
+  else format[mark.key] = mark.value;
+}
+
+function sameFormat(a: RichTextCrdtFormat, b: RichTextCrdtFormat): boolean {
+  const aKeys = Object.keys(a);
+  if (aKeys.length !== Object.keys(b).length) return false;
+  return aKeys.every((key) => key in b && a[key] === b[key]);
+}
@@ -0,0 +1,254 @@
+import { CrdtSummary } from "./base_crdt";
+
+/**
+ * A message between two SyncProviders, sent over a SyncTransport.
+ *
+ * Messages are JSON-serializable if the CRDTs' messages and saved states are.
+ */
+export type SyncMessage =
+  | {
+      /**
+       * Handshake: the sender's summary of each listed doc (null if the
+       * doc's CRDT does not support deltas). The recipient replies with a
+       * "state" for each listed doc that it has, plus its own hello for those
+       * docs (with isReply: true) so that it gets the sender's state too.
+       * A reply hello only gets states that were not already sent since the
+       * transport opened, e.g., when both peers' hellos crossed.
+       */
+      readonly type: "hello";
+      readonly docs: { readonly [name: string]: CrdtSummary | null };
+      readonly isReply: boolean;
+    }
+  | {
+      /**
+       * A saved state (or delta) for the recipient to load.
+       */
+      readonly type: "state";
+      readonly name: string;
+      readonly savedState: unknown;
+    }
+  | {
+      /**
+       * A CRDT message for the recipient to receive.
+       */
+      readonly type: "message";
+      readonly name: string;
+      readonly message: unknown;
+    };
+
+export type SyncTransportEvents = {
+  /**
+   * Emitted when the transport connects (or reconnects) to its peer.
+   */
+  Open: Record<string, never>;
+  /**
+   * Emitted when the transport disconnects from its peer.
+   */
+  Close: Record<string, never>;
+  /**
+   * Emitted when a message arrives from the peer.
+   */
+  Message: { readonly message: SyncMessage };
+};
+
+/**
+ * A connection to one peer, which SyncProvider sends its messages over.
+ *
+ * Implementations: MemoryTransport and WebSocketTransport.
+ * A transport may disconnect and reconnect; SyncProvider repeats its
+ * handshake on each Open event.
+ */
+export interface SyncTransport {
+  readonly isOpen: boolean;
+  /**
+   * Sends message to the peer. Only called while open.
+   */
+  send(message: SyncMessage): void;
+  on<K extends keyof SyncTransportEvents>(
+    eventName: K,
+    handler: (event: SyncTransportEvents[K]) => void
+  ): () => void;
+}
+
+/**
+ * The parts of a CRDT that SyncProvider uses. All of this package's CRDTs
+ * implement this.
+ *
+ * If summary and saveDelta are present, the handshake sends deltas instead
+ * of full saved states.
+ */
+export interface SyncableCrdt<M, SS> {
+  receive(message: M): void;
+  save(): SS;
+  load(savedState: SS): void;
+  summary?(): CrdtSummary;
+  saveDelta?(summary: CrdtSummary): SS;
+  /**
+   * If true, the doc's state only matters while replicas are connected
+   * (e.g., Presence), so SyncServer neither persists nor restores it.
+   */
+  readonly ephemeral?: boolean;
+  /**
+   * For docs with one entry per replica (e.g., Presence): returns the
+   * replicaID whose entry message sets, if any. SyncServer remembers it
+   * for the client that sent message.
+   */
+  replicaIDOf?(message: M): string | undefined;
+  /**
+   * Removes the entries of the given replicaIDs, returning the messages that
+   * tell other replicas. SyncServer calls it when a client disconnects,
+   * with the replicaIDs from that client's messages (see `replicaIDOf`).
+   */
+  removeReplicas?(replicaIDs: string[]): M[];
+  /**
+   * Releases the doc's resources, e.g., timers. SyncServer calls it when it
+   * unloads the doc.
+   */
+  dispose?(): void;
+}
+
+/**
+ * Syncs a set of named CRDTs ("docs") with a peer over a SyncTransport.
+ *
+ * Create each CRDT with `add`, which supplies its `send` callback. The provider
+ * forwards each sent message to the peer, tagged with the doc's name,
+ * and delivers the peer's messages to the same-named doc.
+ *
+ * When the transport opens, the providers exchange a handshake:
+ * each sends a summary of its docs, and the other replies with the saved
+ * state (or a delta, if supported) of each doc that they have in common.
+ * Each provider sends each doc's state once per connection, even if both
+ * start the handshake.
+ * Messages sent while the transport is closed are not queued; the next
+ * handshake makes up for them. Messages for docs that we do not have are ignored,
+ * until we add the doc and handshake for it.
+ */
+export class SyncProvider {
+  private readonly docs = new Map<string, SyncableCrdt<unknown, unknown>>();
+  /**
+   * Names of the docs whose state we sent since the transport last closed.
+   */
+  private readonly sentStates = new Set<string>();
+  private readonly unsubscribes: (() => void)[];
+
+  constructor(readonly transport: SyncTransport) {
+    this.unsubscribes = [
+      transport.on("Open", () => this.onOpen()),
+      transport.on("Close", () => this.sentStates.clear()),
+      transport.on("Message", ({ message }) => this.onMessage(message)),
+    ];
+    if (transport.isOpen) this.onOpen();
+  }
+
+  /**
+   * Adds a doc with the given name, returning the CRDT created by create.
+   *
+   * create receives the `send` callback to pass to the CRDT's constructor,
+   * e.g., `provider.add("notes", (send) => new TextCrdt(send))`.
+   *
+   * @throws If name is already in use.
+   */
+  add<M, C extends SyncableCrdt<M, unknown>>(
+    name: string,
+    create: (send: (message: M) => void) => C
+  ): C {
+    if (this.docs.has(name)) {
+      throw new Error(`Doc already exists: ${name}`);
+    }
+    const crdt: C = create((message) => {
+      if (this.docs.get(name) === crdt && this.transport.isOpen) {
+        this.transport.send({ type: "message", name, message });
+      }
+    });
+    this.docs.set(name, crdt as SyncableCrdt<unknown, unknown>);
+    if (this.transport.isOpen) this.sendHello([name], false);
+    return crdt;
+  }
+
+  /**
+   * Returns the doc with the given name, if any.
+   */
+  get(name: string): SyncableCrdt<unknown, unknown> | undefined {
+    return this.docs.get(name);
+  }
+
+  /**
+   * Returns the names of all docs.
+   */
+  names(): string[] {
+    return [...this.docs.keys()];
+  }
+
+  /**
+   * Stops syncing the doc with the given name. Its CRDT keeps working locally,
+   * but its messages are no longer sent.
+   */
+  remove(name: string): void {
+    this.docs.delete(name);
+    this.sentStates.delete(name);
+  }
+
+  /**
+   * Stops listening to the transport. Our docs' messages are no longer sent.
+   */
+  dispose(): void {
+    for (const unsubscribe of this.unsubscribes) unsubscribe();
+    this.docs.clear();
+    this.sentStates.clear();
+  }
+
+  private onOpen(): void {
+    // If we already sent a doc's state, the peer started the handshake for it
+    // (before our Open event), and our reply hello finishes it.
+    this.sendHello(
+      [...this.docs.keys()].filter((name) => !this.sentStates.has(name)),
+      false
+    );
+  }
+
+  private onMessage(message: SyncMessage): void {
+    switch (message.type) {
+      case "hello": {
+        const names = Object.keys(message.docs).filter((name) =>
+          this.docs.has(name)
+        );
+        if (!message.isReply && names.length !== 0) {
+          this.sendHello(names, true);
+        }
+        for (const name of names) {
+          if (message.isReply && this.sentStates.has(name)) continue;
+          this.sendState(name, message.docs[name]);
+        }
+        break;
+      }
+      case "state":
+        this.docs.get(message.name)?.load(message.savedState);
+        break;
+      case "message":
+        this.docs.get(message.name)?.receive(message.message);
+        break;
+    }
+  }
+
+  private sendHello(names: string[], isReply: boolean): void {
+    const docs: { [name: string]: CrdtSummary | null } = {};
+    for (const name of names) {
+      const crdt = this.docs.get(name)!;
+      docs[name] =
+        crdt.summary !== undefined && crdt.saveDelta !== undefined
+          ? crdt.summary()
+          : null;
+    }
+    this.transport.send({ type: "hello", docs, isReply });
+  }
+
+  private sendState(name: string, summary: CrdtSummary | null): void {
+    const crdt = this.docs.get(name)!;
+    const savedState =
+      summary !== null && crdt.saveDelta !== undefined
+        ? crdt.saveDelta(summary)
+        : crdt.save();
+    this.transport.send({ type: "state", name, savedState });
+    this.sentStates.add(name);
+  }
+}
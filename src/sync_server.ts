@@ -0,0 +1,323 @@
+import { CrdtSummary } from "./base_crdt";
+import { SyncMessage, SyncTransport, SyncableCrdt } from "./sync_provider";
+import { TextCrdt } from "./text_crdt";
+import { VersionVector, compareVersionVectors } from "./version_vector";
+
+/**
+ * Persistent storage for SyncServer's documents, keyed by doc ID.
+ *
+ * Implementations: MemoryDocStore, and FileDocStore for Node
+ * (in `file_doc_store.ts`, which is not exported from the package's index).
+ * A database adapter just needs to store one saved state per doc ID.
+ */
+export interface DocStore {
+  /**
+   * Returns the saved state stored for docID, or undefined if there is none.
+   */
+  get(docID: string): unknown;
+  /**
+   * Stores savedState for docID, replacing any previous saved state.
+   */
+  set(docID: string, savedState: unknown): void;
+}
+
+/**
+ * DocStore that keeps saved states in memory.
+ */
+export class MemoryDocStore implements DocStore {
+  private readonly savedStates = new Map<string, unknown>();
+
+  get(docID: string): unknown {
+    return this.savedStates.get(docID);
+  }
+
+  set(docID: string, savedState: unknown): void {
+    this.savedStates.set(docID, savedState);
+  }
+}
+
+/**
+ * A CRDT with an optional version vector, used to detect whether loading a
+ * client's state changed anything.
+ */
+type ServerCrdt = SyncableCrdt<unknown, unknown> & {
+  versionVector?(): VersionVector;
+};
+
+/**
+ * A loaded document: its authoritative CRDT and the clients subscribed to it.
+ */
+type ServerDoc = {
+  readonly crdt: ServerCrdt;
+  /**
+   * The subscribed clients, each with the replicaIDs that it sent
+   * entries for (see SyncableCrdt.replicaIDOf).
+   */
+  readonly clients: Map<SyncTransport, Set<string>>;
+};
+
+/**
+ * A reference hub for SyncProvider clients: it keeps an authoritative CRDT
+ * per doc ID (a SyncProvider doc name), relays messages between clients,
+ * and persists each doc to a DocStore.
+ *
+ * Connect each client's transport with `connect`, e.g., for a `ws` server:
+ * `wss.on("connection", (ws) => server.connect(new WebSocketTransport(ws)))`.
+ *
+ * When a client's SyncProvider sends a hello for a doc, the server loads the doc
+ * (from the store, or empty), subscribes the client, and replies with the doc's
+ * state (a delta if supported). It applies each message from a client to its
+ * CRDT and rebroadcasts it to the doc's other clients. When a client's state
+ * changes the doc, the server asks the other clients to handshake again, so that
+ * they get the changes as deltas.
+ *
+ * A doc is persisted `persistDelay` ms after its first unpersisted change, so
+ * that a burst of changes costs one write, and also when it is unloaded once
+ * it has no clients. Call `flush` to persist all changes immediately, e.g.,
+ * before the process exits. Ephemeral docs (e.g., Presence) are never
+ * persisted or restored; they are disposed when unloaded.
+ *
+ * When a client disconnects, the server removes the entries that it set in
+ * docs with per-replica entries, such as Presence, and broadcasts their
+ * removal to the remaining clients.
+ *
+ * If handling a client's message throws (e.g., the message is malformed, or
+ * its doc's saved state fails to load), the server disconnects that client
+ * and reports the error to `onError`. Other clients are unaffected.
+ */
+export class SyncServer {
+  private readonly store: DocStore;
+  private readonly createDoc: (docID: string) => ServerCrdt;
+  private readonly persistDelay: number;
+  private readonly onError: (error: unknown) => void;
+  private readonly docs = new Map<string, ServerDoc>();
+  /**
+   * Timers for docs with unpersisted changes, keyed by doc ID.
+   */
+  private readonly persistTimers = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+
+  /**
+   * @param options.store Where to persist docs. Default: A new MemoryDocStore.
+   * @param options.createDoc Returns a new, empty CRDT for docID. Its send
+   * callback is not needed, since the server makes no edits of its own.
+   * Default: A TextCrdt.
+   * @param options.persistDelay How long to wait after a doc changes before
+   * persisting it, in ms. 0 persists after every change, synchronously.
+   * Default: 1000.
+   * @param options.onError Called with each error thrown while handling a
+   * client's message (after disconnecting that client) or persisting a doc,
+   * e.g., to log it or close the client's socket. Default: `console.error`.
+   */
+  constructor(options?: {
+    store?: DocStore;
+    createDoc?: (docID: string) => SyncableCrdt<unknown, unknown>;
+    persistDelay?: number;
+    onError?: (error: unknown) => void;
+  }) {
+    this.store = options?.store ?? new MemoryDocStore();
+    this.createDoc = options?.createDoc ?? (() => new TextCrdt(() => {}));
+    this.persistDelay = options?.persistDelay ?? 1000;
+    this.onError = options?.onError ?? console.error;
+  }
+
+  /**
+   * Starts serving a client over transport.
+   *
+   * The client stays connected across the transport's Close and Open events,
+   * re-subscribing to its docs in each handshake.
+   *
+   * @returns A function that disconnects the client.
+   */
+  connect(transport: SyncTransport): () => void {
+    const unsubscribes = [
+      transport.on("Message", ({ message }) => {
+        try {
+          this.onMessage(transport, message);
+        } catch (error) {
+          disconnect();
+          this.onError(error);
+        }
+      }),
+      transport.on("Close", () => this.unsubscribe(transport)),
+    ];
+    const disconnect = () => {
+      for (const unsubscribe of unsubscribes) unsubscribe();
+      this.unsubscribe(transport);
+    };
+    return disconnect;
+  }
+
+  /**
+   * Persists all docs with unpersisted changes now.
+   */
+  flush(): void {
+    for (const docID of [...this.persistTimers.keys()]) {
+      this.persistNow(docID);
+    }
+  }
+
+  /**
+   * Returns the CRDT of the doc with the given ID, if it is loaded
+   * (i.e., some client is subscribed to it).
+   */
+  getDoc(docID: string): SyncableCrdt<unknown, unknown> | undefined {
+    return this.docs.get(docID)?.crdt;
+  }
+
+  private onMessage(client: SyncTransport, message: SyncMessage): void {
+    switch (message.type) {
+      case "hello": {
+        const docIDs = Object.keys(message.docs);
+        for (const docID of docIDs) this.subscribe(client, docID);
+        if (!message.isReply) this.sendHello(client, docIDs, true);
+        for (const docID of docIDs) {
+          this.sendState(client, docID, message.docs[docID]);
+        }
+        break;
+      }
+      case "state": {
+        const doc = this.docs.get(message.name);
+        if (doc === undefined || !doc.clients.has(client)) return;
+        const before = versionOf(doc.crdt);
+        doc.crdt.load(message.savedState);
+        if (isSameVersion(before, versionOf(doc.crdt))) return;
+        this.persist(message.name);
+        // Ask the other clients to handshake, so that they get the changes.
+        for (const other of doc.clients.keys()) {
+          if (other !== client && other.isOpen) {
+            this.sendHello(other, [message.name], false);
+          }
+        }
+        break;
+      }
+      case "message": {
+        const doc = this.docs.get(message.name);
+        if (doc === undefined || !doc.clients.has(client)) return;
+        doc.crdt.receive(message.message);
+        const replicaID = doc.crdt.replicaIDOf?.(message.message);
+        if (replicaID !== undefined) doc.clients.get(client)!.add(replicaID);
+        this.persist(message.name);
+        for (const other of doc.clients.keys()) {
+          if (other !== client && other.isOpen) other.send(message);
+        }
+        break;
+      }
+    }
+  }
+
+  private subscribe(client: SyncTransport, docID: string): void {
+    let doc = this.docs.get(docID);
+    if (doc === undefined) {
+      const crdt = this.createDoc(docID);
+      const savedState = crdt.ephemeral ? undefined : this.store.get(docID);
+      if (savedState !== undefined) crdt.load(savedState);
+      doc = { crdt, clients: new Map() };
+      this.docs.set(docID, doc);
+    }
+    if (!doc.clients.has(client)) doc.clients.set(client, new Set());
+  }
+
+  /**
+   * Unsubscribes client from all docs, removing its replicas' entries and
+   * unloading docs with no clients left.
+   */
+  private unsubscribe(client: SyncTransport): void {
+    for (const [docID, doc] of [...this.docs]) {
+      const replicaIDs = doc.clients.get(client);
+      if (replicaIDs === undefined) continue;
+      doc.clients.delete(client);
+      if (doc.clients.size === 0) {
+        if (this.persistTimers.has(docID)) this.persistNow(docID);
+        this.docs.delete(docID);
+        doc.crdt.dispose?.();
+      } else if (
+        replicaIDs.size !== 0 &&
+        doc.crdt.removeReplicas !== undefined
+      ) {
+        const messages = doc.crdt.removeReplicas([...replicaIDs]);
+        if (messages.length !== 0) this.persist(docID);
+        for (const message of messages) {
+          for (const other of doc.clients.keys()) {
+            if (other.isOpen)
+              other.send({ type: "message", name: docID, message });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Schedules docID to be persisted, unless it already is.
+   */
+  private persist(docID: string): void {
+    if (this.docs.get(docID)!.crdt.ephemeral) return;
+    if (this.persistDelay === 0) {
+      this.persistNow(docID);
+      return;
+    }
+    if (this.persistTimers.has(docID)) return;
+    const timer = setTimeout(() => this.persistNow(docID), this.persistDelay);
+    // Don't keep Node processes alive just to persist; call flush() instead.
+    (timer as { unref?: () => void }).unref?.();
+    this.persistTimers.set(docID, timer);
+  }
+
+  private persistNow(docID: string): void {
+    clearTimeout(this.persistTimers.get(docID));
+    this.persistTimers.delete(docID);
+    try {
+      this.store.set(docID, this.docs.get(docID)!.crdt.save());
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  private sendHello(
+    client: SyncTransport,
+    docIDs: string[],
+    isReply: boolean
+  ): void {
+    const docs: { [name: string]: CrdtSummary | null } = {};
+    for (const docID of docIDs) {
+      const crdt = this.docs.get(docID)!.crdt;
+      docs[docID] =
+        crdt.summary !== undefined && crdt.saveDelta !== undefined
+          ? crdt.summary()
+          : null;
+    }
+    client.send({ type: "hello", docs, isReply });
+  }
+
+  private sendState(
+    client: SyncTransport,
+    docID: string,
+    summary: CrdtSummary | null
+  ): void {
+    const crdt = this.docs.get(docID)!.crdt;
+    const savedState =
+      summary !== null && crdt.saveDelta !== undefined
+        ? crdt.saveDelta(summary)
+        : crdt.save();
+    client.send({ type: "state", name: docID, savedState });
+  }
+}
+
+/**
+ * Returns crdt's version vector, or its JSON saved state if it has none.
+ */
+function versionOf(crdt: ServerCrdt): VersionVector | string {
+  return crdt.versionVector !== undefined
+    ? crdt.versionVector()
+    : JSON.stringify(crdt.save());
+}
+
+function isSameVersion(
+  a: VersionVector | string,
+  b: VersionVector | string
+): boolean {
+  if (typeof a === "string" || typeof b === "string") return a === b;
+  return compareVersionVectors(a, b) === "equal";
+}
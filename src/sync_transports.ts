@@ -0,0 +1,180 @@
+import { EventEmitter } from "./event_emitter";
+import {
+  SyncMessage,
+  SyncTransport,
+  SyncTransportEvents,
+} from "./sync_provider";
+
+/**
+ * A SyncTransport that connects two SyncProviders in the same process,
+ * e.g., for tests. Create a connected pair with `MemoryTransport.pair()`.
+ *
+ * Messages are delivered synchronously, unless you pause delivery with
+ * `{ manual: true }` and call `flush()`.
+ */
+export class MemoryTransport
+  extends EventEmitter<SyncTransportEvents>
+  implements SyncTransport
+{
+  private peer: MemoryTransport | null = null;
+  private connected = false;
+  /**
+   * Messages from the peer waiting for flush(), in manual mode.
+   */
+  private readonly queue: SyncMessage[] = [];
+
+  private constructor(private readonly manual: boolean) {
+    super();
+  }
+
+  /**
+   * Returns two open transports connected to each other.
+   *
+   * @param options.manual If true, messages wait in a queue until the
+   * recipient's `flush()` is called. Default: false.
+   */
+  static pair(options?: {
+    manual?: boolean;
+  }): [MemoryTransport, MemoryTransport] {
+    const a = new MemoryTransport(options?.manual ?? false);
+    const b = new MemoryTransport(options?.manual ?? false);
+    a.peer = b;
+    b.peer = a;
+    a.connected = b.connected = true;
+    return [a, b];
+  }
+
+  get isOpen(): boolean {
+    return this.connected;
+  }
+
+  send(message: SyncMessage): void {
+    if (!this.connected) throw new Error("Transport is closed");
+    this.peer!.deliver(message);
+  }
+
+  /**
+   * Delivers all queued messages, in manual mode.
+   */
+  flush(): void {
+    while (this.queue.length !== 0) {
+      this.emit("Message", { message: this.queue.shift()! });
+    }
+  }
+
+  /**
+   * Disconnects both transports, discarding queued messages.
+   */
+  disconnect(): void {
+    if (!this.connected) return;
+    for (const transport of [this, this.peer!]) {
+      transport.connected = false;
+      transport.queue.length = 0;
+      transport.emit("Close", {});
+    }
+  }
+
+  /**
+   * Reconnects both transports after `disconnect()`.
+   */
+  reconnect(): void {
+    if (this.connected) return;
+    this.connected = this.peer!.connected = true;
+    this.emit("Open", {});
+    this.peer!.emit("Open", {});
+  }
+
+  private deliver(message: SyncMessage): void {
+    if (this.manual) this.queue.push(message);
+    else this.emit("Message", { message });
+  }
+}
+
+/**
+ * The parts of a WebSocket that WebSocketTransport uses.
+ *
+ * Browser WebSockets and the `ws` package's WebSockets implement this.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  addEventListener(
+    type: "open" | "close" | "message",
+    listener: (event: { data?: unknown }) => void
+  ): void;
+}
+
+/**
+ * The WebSocket readyState for an open connection.
+ */
+const WEB_SOCKET_OPEN = 1;
+
+/**
+ * A SyncTransport over a WebSocket (or anything with the same interface),
+ * sending each SyncMessage as a JSON string. Received data that is not valid
+ * JSON is ignored.
+ *
+ * It does not reconnect on its own. To reconnect, create a new WebSocket and
+ * call `setSocket`; the SyncProvider then repeats its handshake.
+ */
+export class WebSocketTransport
+  extends EventEmitter<SyncTransportEvents>
+  implements SyncTransport
+{
+  private socket!: WebSocketLike;
+
+  constructor(socket: WebSocketLike) {
+    super();
+    this.setSocket(socket);
+  }
+
+  get isOpen(): boolean {
+    return this.socket.readyState === WEB_SOCKET_OPEN;
+  }
+
+  send(message: SyncMessage): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  /**
+   * Switches to a new socket, e.g., after the old one closed.
+   *
+   * If the old socket is still open, this closes it and emits a Close event
+   * first. If the new socket is already open, this emits an Open event
+   * immediately.
+   */
+  setSocket(socket: WebSocketLike): void {
+    const old = this.socket as WebSocketLike | undefined;
+    this.socket = socket;
+    if (old !== undefined && old.readyState === WEB_SOCKET_OPEN) {
+      old.close();
+      this.emit("Close", {});
+    }
+    socket.addEventListener("open", () => {
+      if (this.socket === socket) this.emit("Open", {});
+    });
+    socket.addEventListener("close", () => {
+      if (this.socket === socket) this.emit("Close", {});
+    });
+    socket.addEventListener("message", (event) => {
+      if (this.socket !== socket) return;
+      let message: SyncMessage;
+      try {
+        message = JSON.parse(event.data as string) as SyncMessage;
+      } catch {
+        // Not from a SyncTransport; ignore it.
+        return;
+      }
+      this.emit("Message", { message });
+    });
+    if (this.isOpen) this.emit("Open", {});
+  }
+
+  /**
+   * Closes the current socket.
+   */
+  close(): void {
+    this.socket.close();
+  }
+}
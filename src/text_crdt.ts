@@ -1,258 +1,378 @@
 import {
   BunchMeta,
   OrderSavedState,
-  Outline,
   OutlineSavedState,
   Position,
-  PositionSet,
   Text,
   TextSavedState,
-  expandPositions,
 } from "list-positions";
+import { maybeRandomString } from "maybe-random-string";
+import {
+  BaseCrdt,
+  CrdtBunchMessageBase,
+  CrdtDeleteMessage,
+  CrdtSummary,
+  CrdtTransactionEvent,
+  CrdtTransactionMessage,
+} from "./base_crdt";
+import { OpLog } from "./op_log";
+import { CrdtStamp } from "./version_vector";
+
+export type TextCrdtSetMessage = {
+  readonly type: "set";
+  readonly startPos: Position;
+  readonly chars: string;
+  readonly meta?: BunchMeta;
+  readonly stamp?: CrdtStamp;
+};
+
+/**
+ * A message for a single TextCrdt operation.
+ */
+export type TextCrdtOperationMessage = TextCrdtSetMessage | CrdtDeleteMessage;
 
 export type TextCrdtMessage =
-  | {
-      readonly type: "set";
-      readonly startPos: Position;
-      readonly chars: string;
-      readonly meta?: BunchMeta;
-    }
-  | {
-      readonly type: "delete";
-      readonly items: [startPos: Position, count: number][];
-    };
+  | TextCrdtOperationMessage
+  | CrdtTransactionMessage<TextCrdtOperationMessage>;
 
 export type TextCrdtSavedState = {
   readonly order: OrderSavedState;
   readonly text: TextSavedState;
   readonly seen: OutlineSavedState;
-  readonly buffer: TextCrdtMessage[];
+  /**
+   * The stamps of all messages received; see `versionVector()`.
+   * Absent in saved states from before stamps; treated as empty.
+   */
+  readonly received?: OutlineSavedState;
+  /**
+   * IDs of bunches pruned by `collectGarbage()`, if any.
+   */
+  readonly pruned?: string[];
+  readonly buffer: TextCrdtOperationMessage[];
 };
 
-// TODO: events
+/**
+ * Event emitted by a TextCrdt when chars are inserted.
+ */
+export type TextCrdtInsertEvent = {
+  /**
+   * The index of the first inserted char, in the state just after this event.
+   */
+  readonly index: number;
+  /**
+   * The Position of the first inserted char. The chars use
+   * `expandPositions(startPos, chars.length)`.
+   */
+  readonly startPos: Position;
+  readonly chars: string;
+  /**
+   * Whether the insertion was performed locally (insertAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
 
 /**
- * A traditional op-based/state-based text CRDT implemented on top of list-positions.
- *
- * send/receive work on general networks (they build in exactly-once partial-order delivery),
- * and save/load work as state-based merging.
+ * Event emitted by a TextCrdt when chars are deleted.
+ */
+export type TextCrdtDeleteEvent = {
+  /**
+   * The index of the first deleted char, in the state just before this event.
+   */
+  readonly index: number;
+  /**
+   * The Position of the first deleted char. The chars used
+   * `expandPositions(startPos, chars.length)`.
+   */
+  readonly startPos: Position;
+  readonly chars: string;
+  /**
+   * Whether the deletion was performed locally (deleteAt) instead of
+   * received from another replica (receive, load).
+   */
+  readonly isLocal: boolean;
+};
+
+/**
+ * A cursor in a TextCrdt: a gap between two chars that keeps its place as
+ * chars are inserted and deleted around it. Create one with `cursorAt`.
  *
- * Internally, its state is a Text (for values) and a PositionSet (for tracking
- * which Positions have been "seen"). This implementation uses Positions in messages
- * and manually manages metadata; in particular, it must buffer certain out-of-order
- * messages.
+ * Cursors are JSON objects, so you can send them to other replicas,
+ * e.g., to display remote carets.
  */
-export class TextCrdt {
-  private readonly text: Text;
+export type TextCrdtCursor = {
   /**
-   * A set of all Positions we've ever seen, whether currently present or deleted.
-   * Used for state-based merging and handling reordered messages.
-   *
-   * We use PositionSet here because we don't care about the list order. If you did,
-   * you could use Outline instead, with the same Order as this.list
-   * (`this.seen = new Outline(this.order);`).
-   *
-   * Tracking all seen Positions (instead of just deleted ones) reduces
-   * internal sparse array fragmentation, leading to smaller memory and saved state sizes.
+   * The Position that the cursor is bound to, from list-positions' `cursorAt`.
    */
-  private readonly seen: PositionSet;
+  readonly pos: Position;
   /**
-   * Maps from bunchID to a Set of messages that are waiting on that
-   * bunch's BunchMeta before they can be processed.
+   * Which side of the gap the cursor sticks to when chars are inserted there:
+   * `"left"` stays after the char to its left, `"right"` stays before the char
+   * to its right. If that char is deleted, the cursor moves to where the char was.
    */
-  private readonly pending: Map<string, Set<TextCrdtMessage>>;
+  readonly bind: "left" | "right";
+};
 
-  constructor(private readonly send: (message: TextCrdtMessage) => void) {
-    this.text = new Text();
-    this.seen = new PositionSet();
-    this.pending = new Map();
-  }
+/**
+ * A selection in a TextCrdt, from `anchor` (where it started) to `head`
+ * (where the caret is). Create one with `selectionAt`.
+ */
+export type TextCrdtSelection = {
+  readonly anchor: TextCrdtCursor;
+  readonly head: TextCrdtCursor;
+};
 
-  getAt(index: number): string {
-    return this.text.getAt(index);
-  }
+export type TextCrdtEvents = {
+  Insert: TextCrdtInsertEvent;
+  Delete: TextCrdtDeleteEvent;
+  Transaction: CrdtTransactionEvent<TextCrdtEvents>;
+};
 
-  [Symbol.iterator](): IterableIterator<string> {
-    return this.text.values();
+/**
+ * The events that BaseTextCrdt's subclasses must include.
+ */
+export type BaseTextCrdtEvents = {
+  Insert: TextCrdtInsertEvent;
+  Delete: TextCrdtDeleteEvent;
+  Transaction: unknown;
+};
+
+/**
+ * Shared core of TextCrdt and RichTextCrdt: a BaseCrdt whose container is a
+ * Text, with string accessors, setText, and cursors.
+ *
+ * Type params E and OM are as in BaseCrdt. Subclasses add save/load, which
+ * name the container's saved state `text`.
+ */
+export abstract class BaseTextCrdt<
+  E extends BaseTextCrdtEvents,
+  OM extends CrdtBunchMessageBase = never
+> extends BaseCrdt<string, string, Text, TextCrdtSetMessage, E, OM> {
+  /**
+   * @param options.replicaID Our replica ID; see TextCrdt's constructor.
+   * Default: A random alphanumeric string.
+   * @param options.opLog An OpLog in which to record every message that we
+   * send and receive.
+   */
+  protected constructor(
+    send: (
+      message:
+        | TextCrdtSetMessage
+        | OM
+        | CrdtDeleteMessage
+        | CrdtTransactionMessage<TextCrdtSetMessage | OM | CrdtDeleteMessage>
+    ) => void,
+    options?: {
+      replicaID?: string;
+      opLog?: OpLog<
+        | TextCrdtSetMessage
+        | OM
+        | CrdtDeleteMessage
+        | CrdtTransactionMessage<TextCrdtSetMessage | OM | CrdtDeleteMessage>,
+        unknown
+      >;
+    }
+  ) {
+    super(
+      new Text(),
+      send,
+      options?.replicaID ?? maybeRandomString(),
+      options?.opLog
+    );
   }
 
-  values(): IterableIterator<string> {
-    return this.text.values();
+  toString(): string {
+    return this.container.toString();
   }
 
   slice(start?: number, end?: number): string {
-    return this.text.slice(start, end);
+    return this.container.slice(start, end);
   }
 
-  toString(): string {
-    return this.text.toString();
+  /**
+   * Changes the text to text, by deleting and inserting chars according to
+   * a minimal diff with the current text.
+   *
+   * Use this when you only know the new text, e.g., from a `<textarea>` or
+   * a formatter. Unchanged chars keep their Positions, so concurrent edits
+   * to them are preserved. Wrap it in `transact` to send a single message.
+   */
+  setText(text: string): void {
+    this.applyDiff(this.toString(), text, (a, b) => a === b);
   }
 
-  insertAt(index: number, chars: string): void {
-    if (chars.length === 0) return;
+  /**
+   * Returns the text in the version tagged tag (see `tagVersion`).
+   */
+  toStringAtVersion(tag: string): string {
+    return this.valuesAtVersion(tag).join("");
+  }
 
-    const [pos, newMeta] = this.text.insertAt(index, chars);
-    this.seen.add(pos, chars.length);
-    const message: TextCrdtMessage = {
-      type: "set",
-      startPos: pos,
-      chars,
-      ...(newMeta ? { meta: newMeta } : {}),
-    };
-    this.send(message);
+  insertAt(index: number, chars: string): void {
+    this.insertContentAt(index, chars);
   }
 
-  deleteAt(index: number, count = 1): void {
-    if (count === 0) return;
+  /**
+   * Returns a cursor at index, i.e., in the gap between the chars at
+   * `index - 1` and `index`.
+   *
+   * @param bind Which side of the gap to stick to; see TextCrdtCursor.
+   * Default: `"left"`, which is typical for carets.
+   * @throws If index is not in the range `[0, this.length]`.
+   */
+  cursorAt(index: number, bind: "left" | "right" = "left"): TextCrdtCursor {
+    return { pos: this.container.cursorAt(index, bind), bind };
+  }
 
-    const items: [startPos: Position, count: number][] = [];
-    if (count === 1) {
-      // Common case: use positionAt, which is faster than items.
-      items.push([this.text.positionAt(index), 1]);
-    } else {
-      for (const [startPos, chars] of this.text.items(index, index + count)) {
-        items.push([startPos, chars.length]);
-      }
-    }
+  /**
+   * Returns the current index of cursor, which may come from another replica.
+   *
+   * @throws If the cursor is bound to a char that this replica has not received
+   * yet.
+   */
+  indexOfCursor(cursor: TextCrdtCursor): number {
+    return this.container.indexOfCursor(cursor.pos, cursor.bind);
+  }
 
-    for (const [startPos, itemCount] of items) {
-      this.text.delete(startPos, itemCount);
+  /**
+   * Returns a selection from index anchor to index head.
+   *
+   * A non-empty selection binds its ends inwards, to the first and last selected
+   * chars, so that text typed just outside it is not selected.
+   * An empty selection is a caret that binds left.
+   */
+  selectionAt(anchor: number, head: number): TextCrdtSelection {
+    if (anchor === head) {
+      const cursor = this.cursorAt(anchor);
+      return { anchor: cursor, head: cursor };
     }
-    this.send({ type: "delete", items });
+    const anchorBind = anchor < head ? "right" : "left";
+    const headBind = anchor < head ? "left" : "right";
+    return {
+      anchor: this.cursorAt(anchor, anchorBind),
+      head: this.cursorAt(head, headBind),
+    };
   }
 
-  receive(message: TextCrdtMessage): void {
-    switch (message.type) {
-      case "delete":
-        for (const [startPos, count] of message.items) {
-          // Mark each position as seen immediately, even if we don't have metadata
-          // for its bunch yet. Okay because this.seen is a PositionSet instead of an Outline.
-          this.seen.add(startPos, count);
+  /**
+   * Returns the current indices of selection's anchor and head.
+   *
+   * If all of its chars were deleted, anchor and head become equal.
+   */
+  indexOfSelection(selection: TextCrdtSelection): {
+    anchor: number;
+    head: number;
+  } {
+    return {
+      anchor: this.indexOfCursor(selection.anchor),
+      head: this.indexOfCursor(selection.head),
+    };
+  }
 
-          // Delete the positions if present.
-          // If the bunch is unknown, it's definitely not present, and we
-          // should skip calling text.has to avoid a "Missing metadata" error.
-          if (this.text.order.getNode(startPos.bunchID) !== undefined) {
-            // For future events, we may need to delete individually. Do it now for consistency.
-            for (const pos of expandPositions(startPos, count)) {
-              if (this.text.has(pos)) {
-                this.text.delete(pos);
-              }
-            }
-          }
-        }
-        break;
-      case "set": {
-        const bunchID = message.startPos.bunchID;
-        if (message.meta) {
-          const parentID = message.meta.parentID;
-          if (this.text.order.getNode(parentID) === undefined) {
-            // The meta can't be processed yet because its parent bunch is unknown.
-            // Add it to pending.
-            this.addToPending(parentID, message);
-            return;
-          } else this.text.order.addMetas([message.meta]);
-        }
+  protected containerInsertAt(
+    index: number,
+    chars: string
+  ): [startPos: Position, newMeta: BunchMeta | null] {
+    return this.container.insertAt(index, chars);
+  }
 
-        if (this.text.order.getNode(bunchID) === undefined) {
-          // The message can't be processed yet because its bunch is unknown.
-          // Add it to pending.
-          this.addToPending(bunchID, message);
-          return;
-        }
+  protected containerSet(startPos: Position, chars: string): string {
+    this.container.set(startPos, chars);
+    return chars;
+  }
 
-        // At this point, BunchMeta dependencies are satisfied. Process the message.
+  protected newSetMessage(
+    startPos: Position,
+    chars: string,
+    meta: BunchMeta | null
+  ): TextCrdtSetMessage {
+    return { type: "set", startPos, chars, ...(meta ? { meta } : {}) };
+  }
 
-        // Note that the insertion may have already been (partly) seen, due to
-        // redundant or out-of-order messages;
-        // only unseen positions need to be inserted.
-        const poss = expandPositions(message.startPos, message.chars.length);
-        const toInsert: number[] = [];
-        for (let i = 0; i < poss.length; i++) {
-          if (!this.seen.has(poss[i])) toInsert.push(i);
-        }
-        if (toInsert.length === message.chars.length) {
-          // All need inserting (normal case).
-          this.text.set(message.startPos, message.chars);
-        } else {
-          for (const i of toInsert) {
-            this.text.set(poss[i], message.chars[i]);
-          }
-        }
+  protected setMessageContent(message: TextCrdtSetMessage): string {
+    return message.chars;
+  }
 
-        this.seen.add(message.startPos, message.chars.length);
+  protected newInsertEvent(
+    index: number,
+    startPos: Position,
+    chars: string,
+    isLocal: boolean
+  ): TextCrdtInsertEvent {
+    return { index, startPos, chars, isLocal };
+  }
 
-        if (message.meta) {
-          // The meta may have unblocked pending messages.
-          const unblocked = this.pending.get(message.meta.bunchID);
-          if (unblocked !== undefined) {
-            this.pending.delete(message.meta.bunchID);
-            // TODO: if you unblock a long dependency chain (unlikely),
-            // this recursion could overflow the stack.
-            for (const msg2 of unblocked) this.receive(msg2);
-          }
-        }
-        break;
-      }
-    }
+  protected newDeleteEvent(
+    index: number,
+    startPos: Position,
+    chars: string,
+    isLocal: boolean
+  ): TextCrdtDeleteEvent {
+    return { index, startPos, chars, isLocal };
   }
+}
 
-  private addToPending(bunchID: string, message: TextCrdtMessage): void {
-    let bunchPending = this.pending.get(bunchID);
-    if (bunchPending === undefined) {
-      bunchPending = new Set();
-      this.pending.set(bunchID, bunchPending);
+/**
+ * A traditional op-based/state-based text CRDT implemented on top of list-positions.
+ *
+ * send/receive work on general networks (they build in exactly-once partial-order delivery),
+ * and save/load work as state-based merging.
+ *
+ * Internally, its state is a Text (for values) and a PositionSet (for tracking
+ * which Positions have been "seen"); see BaseCrdt.
+ *
+ * Use `on("Insert", ...)` and `on("Delete", ...)` to learn of changes to the text.
+ * Each operation's events are emitted after the whole operation is applied,
+ * in an order such that applying the events to a copy of the previous text
+ * yields the current text. A transaction (`transact`) instead emits a single
+ * Transaction event, which lists its operations' events.
+ */
+export class TextCrdt extends BaseTextCrdt<TextCrdtEvents> {
+  /**
+   * @param options.replicaID Our replica ID. It must be globally unique
+   * and satisfy the rules for list-positions replicaIDs. Reuse it when
+   * reloading this replica from its own saved state, so that its messages
+   * keep their seqs in order.
+   * Default: A random alphanumeric string.
+   * @param options.opLog An OpLog in which to record every message that we
+   * send and receive.
+   */
+  constructor(
+    send: (message: TextCrdtMessage) => void,
+    options?: {
+      replicaID?: string;
+      opLog?: OpLog<TextCrdtMessage, TextCrdtSavedState>;
     }
-    bunchPending.add(message);
+  ) {
+    super(send, options);
   }
 
   save(): TextCrdtSavedState {
-    const buffer: TextCrdtMessage[] = [];
-    for (const messageSet of this.pending.values()) {
-      buffer.push(...messageSet);
-    }
-    return {
-      order: this.text.order.save(),
-      text: this.text.save(),
-      seen: this.seen.save(),
-      buffer,
-    };
+    const { container, ...rest } = this.saveBase();
+    return { ...rest, text: container };
   }
 
-  load(savedState: TextCrdtSavedState): void {
-    if (this.seen.state.size === 0) {
-      // Never been used, so okay to load directly instead of doing a state-based
-      // merge.
-      this.text.order.load(savedState.order);
-      this.text.load(savedState.text);
-      this.seen.load(savedState.seen);
-    } else {
-      // TODO: benchmark merging.
-      const otherText = new Text();
-      const otherSeen = new Outline(otherText.order);
-      otherText.order.load(savedState.order);
-      otherText.load(savedState.text);
-      otherSeen.load(savedState.seen);
-
-      // Loop over all positions that had been inserted or deleted into
-      // the other list.
-      this.text.order.load(savedState.order);
-      for (const pos of otherSeen) {
-        if (!this.seen.has(pos)) {
-          // pos is new to us. Copy its state from the other list.
-          if (otherText.has(pos)) this.text.set(pos, otherText.get(pos)!);
-          this.seen.add(pos);
-        } else {
-          // We already know of pos. If it's deleted in the other list,
-          // ensure it's deleted here too.
-          if (!otherText.has(pos)) this.text.delete(pos);
-        }
-      }
-    }
+  /**
+   * Returns a delta: a saved state containing just the parts of our state that
+   * are missing from a replica with the given summary (from its `summary()` method).
+   *
+   * Pass the delta to that replica's `load` method. Loading it has the same effect
+   * as loading our full saved state.
+   */
+  saveDelta(summary: CrdtSummary): TextCrdtSavedState {
+    const { container, ...rest } = this.saveDeltaBase(summary);
+    return { ...rest, text: container };
+  }
 
-    // In either case, process buffer by re-delivering all of its messages.
-    for (const message of savedState.buffer) {
-      this.receive(message);
-    }
+  /**
+   * Loads the given saved state.
+   *
+   * If this replica has never been used, this overwrites its state directly,
+   * without emitting events. Otherwise, it performs a state-based merge,
+   * emitting events for the changes.
+   */
+  load(savedState: TextCrdtSavedState): void {
+    const { text, ...rest } = savedState;
+    this.loadBase({ ...rest, container: text });
   }
 }
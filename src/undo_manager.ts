@@ -0,0 +1,306 @@
+import { Position, PositionMap, expandPositions } from "list-positions";
+import { CrdtContent } from "./base_crdt";
+
+/**
+ * An Insert or Delete event from a ListCrdt or TextCrdt.
+ */
+export type UndoableEvent<S> = {
+  readonly startPos: Position;
+  readonly isLocal: boolean;
+} & ({ readonly values: S } | { readonly chars: S });
+
+/**
+ * A Transaction event from a ListCrdt or TextCrdt.
+ */
+export type UndoableTransactionEvent = {
+  readonly events: { readonly name: string; readonly event: unknown }[];
+  readonly isLocal: boolean;
+};
+
+/**
+ * The parts of a CRDT that UndoManager uses. ListCrdt and TextCrdt
+ * implement this.
+ */
+export interface UndoableCrdt<S> {
+  on(
+    eventName: "Insert" | "Delete",
+    handler: (event: UndoableEvent<S>) => void
+  ): () => void;
+  on(
+    eventName: "Transaction",
+    handler: (event: UndoableTransactionEvent) => void
+  ): () => void;
+  insertAfterPosition(prevPos: Position, content: S): void;
+  delete(startPos: Position, sameBunchCount?: number): void;
+}
+
+/**
+ * An operation recorded by UndoManager, described by the Positions it affected.
+ */
+type UndoOp<S> =
+  | { readonly type: "insert"; readonly startPos: Position; count: number }
+  | { readonly type: "delete"; readonly startPos: Position; content: S };
+
+/**
+ * Per-user undo/redo for a ListCrdt or TextCrdt.
+ *
+ * It records local insertions and deletions (those with `isLocal: true`),
+ * ignoring other users' operations. Undoing an insertion deletes exactly the
+ * inserted values that are still present; undoing a deletion restores the deleted
+ * content in its original place, even if there were concurrent edits.
+ * Undo and redo are ordinary local operations, so other replicas need no changes.
+ *
+ * A deletion's original Positions cannot be reused, since other replicas would
+ * ignore them as already-seen. Instead, restored content gets new Positions
+ * at the same place, and later undo/redo steps follow them.
+ *
+ * Consecutive operations of the same kind (insert or delete) within
+ * `captureTimeout` ms are grouped into one undo step, so that typing a word
+ * is undone all at once. Call `stopCapturing()` to end the current group early.
+ * A transaction (`transact`) is always its own undo step.
+ *
+ * Moves and updates in a ListCrdt are not recorded.
+ */
+export class UndoManager<S extends CrdtContent<S>> {
+  private readonly captureTimeout: number;
+  private readonly now: () => number;
+  private readonly undoStack: UndoOp<S>[][] = [];
+  private readonly redoStack: UndoOp<S>[][] = [];
+  /**
+   * Maps each restored Position to the Position that replaced it.
+   */
+  private readonly redirects = new PositionMap<Position>();
+  private readonly unsubscribes: (() => void)[];
+
+  /**
+   * While undoing or redoing, the step that records the inverse ops.
+   */
+  private inverse: UndoOp<S>[] | null = null;
+  /**
+   * While recording a transaction, its undo step.
+   */
+  private transaction: UndoOp<S>[] | null = null;
+  /**
+   * While restoring a deletion, its original startPos.
+   */
+  private restoring: Position | null = null;
+  private lastType: UndoOp<S>["type"] | null = null;
+  private lastTime = 0;
+
+  /**
+   * @param options.captureTimeout Max time in ms between operations that are
+   * grouped into one undo step. Default: 500.
+   * @param options.now Returns the current time in ms. Default: `Date.now`.
+   */
+  constructor(
+    private readonly crdt: UndoableCrdt<S>,
+    options?: { captureTimeout?: number; now?: () => number }
+  ) {
+    this.captureTimeout = options?.captureTimeout ?? 500;
+    this.now = options?.now ?? Date.now;
+    this.unsubscribes = [
+      crdt.on("Insert", (e) => this.onInsert(e)),
+      crdt.on("Delete", (e) => this.onDelete(e)),
+      crdt.on("Transaction", (e) => {
+        if (!e.isLocal) return;
+        const step: UndoOp<S>[] = [];
+        this.transaction = step;
+        try {
+          for (const { name, event } of e.events) {
+            if (name === "Insert") this.onInsert(event as UndoableEvent<S>);
+            else if (name === "Delete") {
+              this.onDelete(event as UndoableEvent<S>);
+            }
+          }
+        } finally {
+          this.transaction = null;
+        }
+        if (step.length === 0) return;
+        this.redoStack.length = 0;
+        this.undoStack.push(step);
+        this.stopCapturing();
+      }),
+    ];
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length !== 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length !== 0;
+  }
+
+  /**
+   * Undoes the last undo step.
+   *
+   * @returns Whether there was a step to undo.
+   */
+  undo(): boolean {
+    const step = this.undoStack.pop();
+    if (step === undefined) return false;
+    this.redoStack.push(this.applyInverse(step));
+    this.stopCapturing();
+    return true;
+  }
+
+  /**
+   * Redoes the last undone step.
+   *
+   * @returns Whether there was a step to redo.
+   */
+  redo(): boolean {
+    const step = this.redoStack.pop();
+    if (step === undefined) return false;
+    this.undoStack.push(this.applyInverse(step));
+    this.stopCapturing();
+    return true;
+  }
+
+  /**
+   * Ends the current undo step, so that the next operation starts a new one.
+   */
+  stopCapturing(): void {
+    this.lastType = null;
+  }
+
+  /**
+   * Forgets all undo and redo steps.
+   */
+  clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this.stopCapturing();
+  }
+
+  /**
+   * Stops recording operations.
+   */
+  dispose(): void {
+    for (const unsubscribe of this.unsubscribes) unsubscribe();
+  }
+
+  private onInsert(e: UndoableEvent<S>): void {
+    if (!e.isLocal) return;
+    const content = eventContent(e);
+    if (this.restoring !== null) {
+      for (let i = 0; i < content.length; i++) {
+        this.redirects.set(
+          {
+            bunchID: this.restoring.bunchID,
+            innerIndex: this.restoring.innerIndex + i,
+          },
+          {
+            bunchID: e.startPos.bunchID,
+            innerIndex: e.startPos.innerIndex + i,
+          }
+        );
+      }
+    }
+    this.record({
+      type: "insert",
+      startPos: e.startPos,
+      count: content.length,
+    });
+  }
+
+  private onDelete(e: UndoableEvent<S>): void {
+    if (!e.isLocal) return;
+    this.record({
+      type: "delete",
+      startPos: e.startPos,
+      content: eventContent(e),
+    });
+  }
+
+  private record(op: UndoOp<S>): void {
+    if (this.inverse !== null) {
+      this.inverse.push(op);
+      return;
+    }
+    if (this.transaction !== null) {
+      this.transaction.push(op);
+      return;
+    }
+
+    // A new local operation invalidates the redo steps.
+    this.redoStack.length = 0;
+    const now = this.now();
+    if (
+      this.lastType === op.type &&
+      now - this.lastTime <= this.captureTimeout
+    ) {
+      this.undoStack[this.undoStack.length - 1].push(op);
+    } else this.undoStack.push([op]);
+    this.lastType = op.type;
+    this.lastTime = now;
+  }
+
+  /**
+   * Applies the inverse of step's ops, in reverse order.
+   *
+   * @returns The step's inverse, which undoes this call.
+   */
+  private applyInverse(step: UndoOp<S>[]): UndoOp<S>[] {
+    const inverse: UndoOp<S>[] = [];
+    this.inverse = inverse;
+    try {
+      for (let i = step.length - 1; i >= 0; i--) {
+        const op = step[i];
+        if (op.type === "insert") {
+          for (const [startPos, count] of this.resolve(op.startPos, op.count)) {
+            this.crdt.delete(startPos, count);
+          }
+        } else {
+          // Place the content just after its last original Position.
+          this.restoring = op.startPos;
+          try {
+            this.crdt.insertAfterPosition(
+              {
+                bunchID: op.startPos.bunchID,
+                innerIndex: op.startPos.innerIndex + op.content.length - 1,
+              },
+              op.content
+            );
+          } finally {
+            this.restoring = null;
+          }
+        }
+      }
+    } finally {
+      this.inverse = null;
+    }
+    return inverse;
+  }
+
+  /**
+   * Returns the current Positions of the values inserted at the same-bunch
+   * Positions (startPos, count), following redirects, as same-bunch runs.
+   */
+  private resolve(
+    startPos: Position,
+    count: number
+  ): [startPos: Position, count: number][] {
+    const runs: [startPos: Position, count: number][] = [];
+    for (let pos of expandPositions(startPos, count)) {
+      for (;;) {
+        const next = this.redirects.get(pos);
+        if (next === undefined) break;
+        pos = next;
+      }
+      const last = runs[runs.length - 1];
+      if (
+        last !== undefined &&
+        last[0].bunchID === pos.bunchID &&
+        last[0].innerIndex + last[1] === pos.innerIndex
+      ) {
+        last[1]++;
+      } else runs.push([pos, 1]);
+    }
+    return runs;
+  }
+}
+
+function eventContent<S>(event: UndoableEvent<S>): S {
+  return "values" in event ? event.values : event.chars;
+}
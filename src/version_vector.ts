@@ -0,0 +1,78 @@
+/**
+ * Identifies an operation: the replica that performed it, plus its sequence
+ * number on that replica (0, 1, 2, ...).
+ *
+ * BaseCrdt attaches a stamp to each message that it sends.
+ */
+export type CrdtStamp = {
+  readonly replicaID: string;
+  readonly seq: number;
+};
+
+/**
+ * Maps each replicaID to the number of its operations that a replica has
+ * received without gaps, i.e., seqs `[0, vector[replicaID])`.
+ * Missing replicaIDs map to 0.
+ *
+ * Operations received out of order past a gap are not counted until the
+ * gap is filled.
+ */
+export type VersionVector = { readonly [replicaID: string]: number };
+
+/**
+ * Compares two version vectors:
+ * - `"equal"`: They cover the same operations.
+ * - `"before"`: a covers a strict subset of b's operations.
+ * - `"after"`: a covers a strict superset of b's operations.
+ * - `"concurrent"`: Each covers an operation that the other does not.
+ */
+export function compareVersionVectors(
+  a: VersionVector,
+  b: VersionVector
+): "equal" | "before" | "after" | "concurrent" {
+  let aAhead = false;
+  let bAhead = false;
+  for (const replicaID of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const aCount = a[replicaID] ?? 0;
+    const bCount = b[replicaID] ?? 0;
+    if (aCount > bCount) aAhead = true;
+    else if (bCount > aCount) bAhead = true;
+  }
+  if (aAhead) return bAhead ? "concurrent" : "after";
+  return bAhead ? "before" : "equal";
+}
+
+/**
+ * Returns the operations covered by `to` but not by `from`, as a map from
+ * replicaID to a range of seqs `[start, end)`.
+ *
+ * E.g., call `versionVectorGap(myVector, peerVector)` to learn what to ask
+ * the peer for.
+ */
+export function versionVectorGap(
+  from: VersionVector,
+  to: VersionVector
+): { [replicaID: string]: [start: number, end: number] } {
+  const gap: { [replicaID: string]: [start: number, end: number] } = {};
+  for (const [replicaID, toCount] of Object.entries(to)) {
+    const fromCount = from[replicaID] ?? 0;
+    if (toCount > fromCount) gap[replicaID] = [fromCount, toCount];
+  }
+  return gap;
+}
+
+/**
+ * Returns the version vector covering every operation covered by any of
+ * the given vectors, i.e., their entry-wise maximum.
+ */
+export function mergeVersionVectors(
+  ...vectors: VersionVector[]
+): VersionVector {
+  const merged: { [replicaID: string]: number } = {};
+  for (const vector of vectors) {
+    for (const [replicaID, count] of Object.entries(vector)) {
+      merged[replicaID] = Math.max(merged[replicaID] ?? 0, count);
+    }
+  }
+  return merged;
+}
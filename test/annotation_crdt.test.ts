@@ -0,0 +1,264 @@
+import { describe, it } from "mocha";
+import { assert } from "chai";
+import {
+  AnnotationCrdt,
+  AnnotationCrdtChangeEvent,
+  AnnotationCrdtMessage,
+  TextCrdt,
+  TextCrdtMessage,
+} from "../src";
+
+type Comment = { text: string };
+
+describe("AnnotationCrdt", () => {
+  let aliceText!: TextCrdt;
+  let bobText!: TextCrdt;
+  let alice!: AnnotationCrdt<Comment>;
+  let bob!: AnnotationCrdt<Comment>;
+  let textMessages!: TextCrdtMessage[];
+  let aliceMessages!: AnnotationCrdtMessage<Comment>[];
+  let bobMessages!: AnnotationCrdtMessage<Comment>[];
+
+  beforeEach(() => {
+    textMessages = [];
+    aliceMessages = [];
+    bobMessages = [];
+    aliceText = new TextCrdt((message) => textMessages.push(message));
+    bobText = new TextCrdt(() => {});
+    alice = new AnnotationCrdt(
+      aliceText,
+      (message) => aliceMessages.push(message),
+      { replicaID: "alice" }
+    );
+    bob = new AnnotationCrdt(bobText, (message) => bobMessages.push(message), {
+      replicaID: "bob",
+    });
+
+    aliceText.insertAt(0, "hello world");
+    deliverText();
+  });
+
+  function deliverText() {
+    for (const message of textMessages) bobText.receive(message);
+    textMessages.length = 0;
+  }
+
+  /**
+   * Delivers all messages in the given array to to, in order, then clears it.
+   */
+  function deliverAll(
+    messages: AnnotationCrdtMessage<Comment>[],
+    to: AnnotationCrdt<Comment>
+  ) {
+    for (const message of messages) to.receive(message);
+    messages.length = 0;
+  }
+
+  it("tracks ranges as the text changes", () => {
+    const id = alice.add(6, 11, { text: "nice" });
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.get(id)?.data, { text: "nice" });
+    assert.deepStrictEqual(bob.rangeOf(id), {
+      start: 6,
+      end: 11,
+      orphaned: false,
+    });
+
+    aliceText.insertAt(0, ">> ");
+    aliceText.insertAt(11, "!");
+    assert.deepStrictEqual(alice.rangeOf(id), {
+      start: 9,
+      end: 15,
+      orphaned: false,
+    });
+    assert.strictEqual(aliceText.slice(9, 15), "wo!rld");
+
+    // Deleting the anchors' chars shrinks the range.
+    aliceText.deleteAt(9, 1);
+    aliceText.deleteAt(13, 1);
+    assert.deepStrictEqual(alice.rangeOf(id), {
+      start: 9,
+      end: 13,
+      orphaned: false,
+    });
+    assert.strictEqual(aliceText.slice(9, 13), "o!rl");
+
+    // Deleting the whole range orphans it.
+    aliceText.deleteAt(9, 4);
+    assert.strictEqual(aliceText.toString(), ">> hello ");
+    assert.deepStrictEqual(alice.rangeOf(id), {
+      start: 9,
+      end: 9,
+      orphaned: true,
+    });
+    assert.isTrue(alice.has(id));
+  });
+
+  it("resolves concurrent sets by last-writer-wins", () => {
+    const id = alice.add(0, 5, { text: "a" });
+    deliverAll(aliceMessages, bob);
+
+    alice.setData(id, { text: "alice" });
+    bob.setData(id, { text: "bob" });
+    bob.resolve(id);
+    deliverAll(aliceMessages, bob);
+    deliverAll(bobMessages, alice);
+    assert.deepStrictEqual(alice.get(id), bob.get(id));
+    // Same lamport, so the greater replicaID wins.
+    assert.deepStrictEqual(alice.get(id)?.data, { text: "bob" });
+    assert.isTrue(alice.get(id)?.resolved);
+
+    alice.resolve(id, false);
+    deliverAll(aliceMessages, bob);
+    assert.isFalse(bob.get(id)?.resolved);
+  });
+
+  it("lets delete win over concurrent sets", () => {
+    const id = alice.add(0, 5, { text: "a" });
+    deliverAll(aliceMessages, bob);
+
+    alice.delete(id);
+    bob.setData(id, { text: "edited" });
+    deliverAll(aliceMessages, bob);
+    deliverAll(bobMessages, alice);
+    assert.isUndefined(alice.get(id));
+    assert.isUndefined(bob.get(id));
+    assert.isUndefined(bob.rangeOf(id));
+    assert.deepStrictEqual(bob.annotations(), []);
+    assert.throws(() => alice.setData(id, { text: "again" }));
+  });
+
+  it("buffers messages that arrive before their annotation", () => {
+    const id = alice.add(0, 5, { text: "a" });
+    alice.setData(id, { text: "b" });
+    const [add, update] = aliceMessages;
+
+    bob.receive(update);
+    assert.isFalse(bob.has(id));
+    assert.strictEqual(bob.save().buffer.length, 1);
+
+    bob.receive(add);
+    assert.deepStrictEqual(bob.get(id)?.data, { text: "b" });
+    assert.deepStrictEqual(bob.save().buffer, []);
+  });
+
+  it("has no range until the text receives its anchors", () => {
+    aliceText.insertAt(11, "!!!");
+    const id = alice.add(11, 14, { text: "loud" });
+    deliverAll(aliceMessages, bob);
+    assert.isTrue(bob.has(id));
+    assert.isUndefined(bob.rangeOf(id));
+
+    deliverText();
+    assert.deepStrictEqual(bob.rangeOf(id), {
+      start: 11,
+      end: 14,
+      orphaned: false,
+    });
+  });
+
+  it("merges saved states", () => {
+    const id1 = alice.add(0, 5, { text: "one" });
+    const id2 = alice.add(6, 11, { text: "two" });
+    deliverAll(aliceMessages, bob);
+    aliceMessages.length = 0;
+    alice.delete(id1);
+    bob.setData(id2, { text: "two!" });
+    const id3 = bob.add(0, 11, { text: "three" });
+
+    const events: AnnotationCrdtChangeEvent<Comment>[] = [];
+    alice.on("Change", (e) => events.push(e));
+    alice.load(bob.save());
+    bob.load(alice.save());
+
+    assert.deepStrictEqual(alice.annotations(), bob.annotations());
+    assert.deepStrictEqual(
+      alice.annotations().map(({ id, data }) => [id, data.text]),
+      [
+        [id2, "two!"],
+        [id3, "three"],
+      ]
+    );
+    assert.deepStrictEqual(
+      events.map(({ id, value, previousValue, isLocal }) => [
+        id,
+        value?.data.text,
+        previousValue?.data.text,
+        isLocal,
+      ]),
+      [
+        [id2, "two!", "two", false],
+        [id3, "three", undefined, false],
+      ]
+    );
+
+    // Redundant.
+    events.length = 0;
+    alice.load(bob.save());
+    assert.deepStrictEqual(events, []);
+  });
+
+  it("skips annotations that were deleted before loading", () => {
+    const id1 = alice.add(0, 5, { text: "one" });
+    const id2 = alice.add(6, 11, { text: "two" });
+    alice.delete(id1);
+
+    const events: AnnotationCrdtChangeEvent<Comment>[] = [];
+    bob.on("Change", (e) => events.push(e));
+    bob.load(alice.save());
+    assert.deepStrictEqual(
+      events.map(({ id }) => id),
+      [id2]
+    );
+    assert.isFalse(bob.has(id1));
+
+    // The delete still wins over a late add.
+    bob.receive(aliceMessages[0]);
+    assert.isFalse(bob.has(id1));
+  });
+
+  it("keeps anchors from garbage collection", () => {
+    aliceText.insertAt(5, "XYZ");
+    const id = alice.add(5, 8, { text: "xyz" });
+    aliceText.deleteAt(5, 3);
+    aliceText.collectGarbage([]);
+    assert.deepStrictEqual(aliceText.collectGarbage([]), []);
+    assert.deepStrictEqual(alice.rangeOf(id), {
+      start: 5,
+      end: 5,
+      orphaned: true,
+    });
+
+    // Once the annotation is deleted, its anchors' bunch can be pruned.
+    alice.delete(id);
+    aliceText.collectGarbage([]);
+    assert.lengthOf(aliceText.collectGarbage([]), 1);
+  });
+
+  it("orphans annotations whose anchors were pruned", () => {
+    aliceText.insertAt(5, "XYZ");
+    const id = alice.add(5, 8, { text: "xyz" });
+    aliceText.deleteAt(5, 3);
+    deliverText();
+    // bob prunes the anchors' bunch before he receives the annotation.
+    bobText.collectGarbage([]);
+    assert.lengthOf(bobText.collectGarbage([]), 1);
+    deliverAll(aliceMessages, bob);
+    const orphaned = { start: 0, end: 0, orphaned: true };
+    assert.deepStrictEqual(bob.rangeOf(id), orphaned);
+
+    // Also after reloading the text, which forgets the pruned bunch.
+    const text2 = new TextCrdt(() => {});
+    text2.load(bobText.save());
+    const bob2 = new AnnotationCrdt<Comment>(text2, () => {});
+    bob2.load(bob.save());
+    assert.deepStrictEqual(bob2.rangeOf(id), orphaned);
+  });
+
+  it("rejects invalid operations", () => {
+    assert.throws(() => alice.add(3, 3, { text: "empty" }));
+    assert.throws(() => alice.add(5, 12, { text: "too long" }));
+    assert.throws(() => alice.resolve("unknown"));
+    assert.throws(() => alice.delete("unknown"));
+  });
+});
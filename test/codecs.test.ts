@@ -0,0 +1,348 @@
+import { describe } from "mocha";
+import { assert } from "chai";
+import {
+  BINARY_FORMAT_VERSION,
+  ListCrdt,
+  ListCrdtCodec,
+  ListCrdtMessage,
+  ListCrdtSetMessage,
+  TextCrdt,
+  TextCrdtCodec,
+  TextCrdtMessage,
+  TextCrdtSavedState,
+  ValueCodec,
+} from "../src";
+
+function toHex(bytes: Uint8Array): string {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 * i, 2 * i + 2), 16);
+  }
+  return bytes;
+}
+
+describe("codecs", () => {
+  describe("ListCrdtCodec", () => {
+    let messages!: ListCrdtMessage<unknown>[];
+    let alice!: ListCrdt<unknown>;
+    let codec!: ListCrdtCodec<unknown>;
+
+    beforeEach(() => {
+      messages = [];
+      alice = new ListCrdt((message) => messages.push(message));
+      codec = new ListCrdtCodec();
+    });
+
+    function checkMessages() {
+      assert.isNotEmpty(messages);
+      for (const message of messages) {
+        const decoded = codec.decodeMessage(codec.encodeMessage(message));
+        assert.deepStrictEqual(decoded, message);
+      }
+    }
+
+    it("round-trips set messages", () => {
+      // New bunch (with meta).
+      alice.insertAt(0, "a", 1, { b: [true, null] });
+      // Append to existing bunch (no meta).
+      alice.insertAt(3, "c");
+      // New bunch with a non-root parent.
+      alice.insertAt(1, "x", "y");
+      // Empty-ish values.
+      alice.insertAt(0, "", 0, []);
+      checkMessages();
+    });
+
+    it("round-trips unstamped messages", () => {
+      alice.insertAt(0, ..."abc");
+      alice.deleteAt(1);
+      messages = messages.map((message) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { stamp, ...unstamped } = message;
+        return unstamped;
+      });
+      checkMessages();
+    });
+
+    it("round-trips delete messages", () => {
+      alice.insertAt(0, ..."abcdef");
+      alice.insertAt(3, ..."xyz");
+      messages = [];
+      alice.deleteAt(1, 7);
+      alice.deleteAt(0);
+      checkMessages();
+    });
+
+    it("round-trips move messages", () => {
+      alice.insertAt(0, ..."abcdef");
+      alice.moveAt(0, 6);
+      alice.moveAt(1, 0, 3);
+      alice.moveAt(5, 2);
+      assert.isTrue(messages.some((message) => message.type === "move"));
+      checkMessages();
+
+      // Locations in saved states.
+      const savedState = alice.save();
+      assert.isNotEmpty(Object.keys(savedState.locations!));
+      assert.deepStrictEqual(
+        codec.decodeSavedState(codec.encodeSavedState(savedState)),
+        savedState
+      );
+    });
+
+    it("round-trips update messages", () => {
+      alice.insertAt(0, ..."abc");
+      alice.setAt(1, { x: 1 });
+      alice.setAt(1, null);
+      alice.setAt(2, "z");
+      assert.isTrue(messages.some((message) => message.type === "update"));
+      checkMessages();
+
+      // Updates in saved states.
+      const savedState = alice.save();
+      assert.isNotEmpty(Object.keys(savedState.updates!));
+      assert.deepStrictEqual(
+        codec.decodeSavedState(codec.encodeSavedState(savedState)),
+        savedState
+      );
+    });
+
+    it("round-trips transaction messages", () => {
+      alice.transact(() => {
+        alice.insertAt(0, ..."abcdef");
+        alice.moveAt(0, 6);
+        alice.setAt(1, { x: 1 });
+        alice.deleteAt(2, 2);
+      });
+      assert.deepStrictEqual(
+        messages.map((message) => message.type),
+        ["transaction"]
+      );
+      checkMessages();
+    });
+
+    it("round-trips saved states", () => {
+      alice.insertAt(0, ..."abcdef");
+      alice.insertAt(3, 1, 2, 3);
+      alice.deleteAt(2, 3);
+
+      // Give bob a buffered message, with both bunch IDs and metas.
+      const bob = new ListCrdt<unknown>(() => {});
+      const message1 = messages[1] as ListCrdtSetMessage<unknown>;
+      bob.receive(message1);
+      bob.receive({ type: "delete", items: [[message1.startPos, 2]] });
+
+      for (const savedState of [alice.save(), bob.save()]) {
+        const decoded = codec.decodeSavedState(
+          codec.encodeSavedState(savedState)
+        );
+        assert.deepStrictEqual(decoded, savedState);
+      }
+
+      assert.isNotEmpty(bob.save().buffer);
+
+      const charlie = new ListCrdt<unknown>(() => {});
+      charlie.load(
+        codec.decodeSavedState(codec.encodeSavedState(alice.save()))
+      );
+      assert.deepStrictEqual(charlie.slice(), alice.slice());
+    });
+
+    it("round-trips deltas", () => {
+      const bob = new ListCrdt<unknown>(() => {});
+      alice.insertAt(0, ..."abc");
+      bob.load(alice.save());
+      alice.insertAt(3, ..."def");
+      alice.deleteAt(0);
+
+      const delta = alice.saveDelta(bob.summary());
+      const decoded = codec.decodeSavedState(codec.encodeSavedState(delta));
+      assert.deepStrictEqual(decoded, delta);
+      bob.load(decoded);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("dedupes bunch IDs", () => {
+      alice.insertAt(0, ..."abc");
+      alice.insertAt(1, ..."xyz");
+      const { bunchID } = alice.save().order[0];
+      const encoded = codec.encodeSavedState(alice.save());
+      const text = String.fromCharCode(...encoded);
+      assert.strictEqual(text.split(bunchID).length - 1, 1);
+    });
+
+    it("uses a custom value codec", () => {
+      const dateCodec: ValueCodec<Date> = {
+        encode(value) {
+          const view = new DataView(new ArrayBuffer(8));
+          view.setFloat64(0, value.getTime());
+          return new Uint8Array(view.buffer);
+        },
+        decode(bytes) {
+          const view = new DataView(
+            bytes.buffer,
+            bytes.byteOffset,
+            bytes.byteLength
+          );
+          return new Date(view.getFloat64(0));
+        },
+      };
+      const dateMessages: ListCrdtMessage<Date>[] = [];
+      const dates = new ListCrdt<Date>(
+        (message) => dateMessages.push(message),
+        { valueCodec: dateCodec }
+      );
+      const dateCodec2 = ListCrdtCodec.forList(dates);
+      dates.insertAt(0, new Date(0), new Date(1700000000000));
+
+      const decoded = dateCodec2.decodeMessage(
+        dateCodec2.encodeMessage(dateMessages[0])
+      );
+      assert.deepStrictEqual(decoded, dateMessages[0]);
+      assert.instanceOf((decoded as { values: Date[] }).values[1], Date);
+
+      const savedState = dates.save();
+      assert.deepStrictEqual(
+        dateCodec2.decodeSavedState(dateCodec2.encodeSavedState(savedState)),
+        savedState
+      );
+    });
+
+    it("rejects other versions and kinds", () => {
+      alice.insertAt(0, "a");
+      const encoded = codec.encodeMessage(messages[0]);
+      assert.strictEqual(encoded[0], BINARY_FORMAT_VERSION);
+
+      const wrongVersion = encoded.slice();
+      wrongVersion[0] = BINARY_FORMAT_VERSION + 1;
+      assert.throws(() => codec.decodeMessage(wrongVersion), /version/);
+
+      assert.throws(() => codec.decodeSavedState(encoded), /saved state/);
+      assert.throws(() => codec.decodeMessage(encoded.subarray(0, 4)));
+    });
+  });
+
+  describe("TextCrdtCodec", () => {
+    let messages!: TextCrdtMessage[];
+    let alice!: TextCrdt;
+    let codec!: TextCrdtCodec;
+
+    beforeEach(() => {
+      messages = [];
+      alice = new TextCrdt((message) => messages.push(message));
+      codec = new TextCrdtCodec();
+    });
+
+    it("round-trips messages", () => {
+      alice.insertAt(0, "hello");
+      alice.insertAt(5, " world");
+      alice.insertAt(2, "ünï😀cødé");
+      alice.deleteAt(1, 8);
+      assert.isNotEmpty(messages);
+      for (const message of messages) {
+        assert.deepStrictEqual(
+          codec.decodeMessage(codec.encodeMessage(message)),
+          message
+        );
+      }
+    });
+
+    it("round-trips saved states", () => {
+      alice.insertAt(0, "abc😀def");
+      alice.insertAt(3, "xyz");
+      // Split the surrogate pair, leaving a lone surrogate in the saved state.
+      alice.deleteAt(6);
+      alice.deleteAt(0, 2);
+
+      const savedState = alice.save();
+      const decoded = codec.decodeSavedState(
+        codec.encodeSavedState(savedState)
+      );
+      assert.deepStrictEqual(decoded, savedState);
+
+      const bob = new TextCrdt(() => {});
+      bob.load(decoded);
+      assert.strictEqual(bob.toString(), alice.toString());
+    });
+
+    it("decodes fixed encodings of this version", () => {
+      // If this fails, the format changed: bump BINARY_FORMAT_VERSION,
+      // then update the fixtures.
+      const savedState: TextCrdtSavedState = {
+        order: [{ bunchID: "b1", parentID: "ROOT", offset: 1 }],
+        text: { b1: ["hi", 1, "!"] },
+        seen: { b1: [4] },
+        received: { r1: [0, 2] },
+        pruned: ["b0"],
+        buffer: [],
+      };
+      const savedStateHex =
+        "010101000262310004524f4f54010101030002686903000121010101040100027231020002010002623000";
+      const message: TextCrdtMessage = {
+        type: "transaction",
+        messages: [
+          {
+            type: "set",
+            startPos: { bunchID: "b1", innerIndex: 4 },
+            chars: "?",
+          },
+          { type: "delete", items: [[{ bunchID: "b1", innerIndex: 0 }, 2]] },
+        ],
+        stamp: { replicaID: "r1", seq: 2 },
+      };
+      const messageHex = "010001000272310202020000000262310400013f000101020002";
+
+      assert.strictEqual(BINARY_FORMAT_VERSION, 1);
+      assert.deepStrictEqual(
+        codec.decodeSavedState(fromHex(savedStateHex)),
+        savedState
+      );
+      assert.strictEqual(
+        toHex(codec.encodeSavedState(savedState)),
+        savedStateHex
+      );
+      assert.deepStrictEqual(codec.decodeMessage(fromHex(messageHex)), message);
+      assert.strictEqual(toHex(codec.encodeMessage(message)), messageHex);
+    });
+
+    it("round-trips pruned bunches", () => {
+      alice.insertAt(0, "abc");
+      alice.insertAt(0, "xyz");
+      alice.deleteAt(0, 3);
+      alice.collectGarbage([]);
+      assert.lengthOf(alice.collectGarbage([]), 1);
+
+      const savedState = alice.save();
+      assert.deepStrictEqual(
+        codec.decodeSavedState(codec.encodeSavedState(savedState)),
+        savedState
+      );
+    });
+
+    it("round-trips a lone surrogate in a message", () => {
+      alice.insertAt(0, "\ud83d");
+      alice.insertAt(1, "\ude00x\udc00");
+      for (const message of messages) {
+        assert.deepStrictEqual(
+          codec.decodeMessage(codec.encodeMessage(message)),
+          message
+        );
+      }
+    });
+
+    it("encodes large numbers", () => {
+      const message: TextCrdtMessage = {
+        type: "delete",
+        items: [[{ bunchID: "b", innerIndex: 2 ** 40 }, 2 ** 20 + 3]],
+      };
+      assert.deepStrictEqual(
+        codec.decodeMessage(codec.encodeMessage(message)),
+        message
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe } from "mocha";
+import { assert } from "chai";
+import {
+  EmbedTextCrdt,
+  EmbedTextCrdtDeleteEvent,
+  EmbedTextCrdtInsertEvent,
+  EmbedTextCrdtMessage,
+} from "../src";
+
+type Embed = { type: string; src?: string };
+
+describe("EmbedTextCrdt", () => {
+  const image: Embed = { type: "image", src: "cat.png" };
+  const mention: Embed = { type: "mention" };
+
+  let aliceMessages!: EmbedTextCrdtMessage<Embed>[];
+  let bobMessages!: EmbedTextCrdtMessage<Embed>[];
+  let alice!: EmbedTextCrdt<Embed>;
+  let bob!: EmbedTextCrdt<Embed>;
+
+  beforeEach(() => {
+    aliceMessages = [];
+    alice = new EmbedTextCrdt((message) => aliceMessages.push(message));
+    bobMessages = [];
+    bob = new EmbedTextCrdt((message) => bobMessages.push(message));
+  });
+
+  /**
+   * Delivers all messages in the given array to to, in order, then clears it.
+   */
+  function deliverAll(
+    messages: EmbedTextCrdtMessage<Embed>[],
+    to: EmbedTextCrdt<Embed>
+  ) {
+    for (const message of messages) to.receive(message);
+    messages.length = 0;
+  }
+
+  it("inserts chars and embeds", () => {
+    alice.insertAt(0, "Hi ", image, "!");
+    assert.strictEqual(alice.toString(), "Hi \uFFFC!");
+    assert.deepStrictEqual(alice.slice(), ["Hi ", image, "!"]);
+    assert.deepStrictEqual(alice.slice(1, 4), ["i ", image]);
+    assert.strictEqual(alice.getAt(3), image);
+
+    // The whole insertion is one compact message.
+    assert.strictEqual(aliceMessages.length, 1);
+    assert.deepStrictEqual((aliceMessages[0] as { content: unknown }).content, [
+      "Hi ",
+      image,
+      "!",
+    ]);
+
+    deliverAll(aliceMessages, bob);
+    bob.insertAt(1, mention, "", "ey");
+    assert.deepStrictEqual(bob.slice(), ["H", mention, "eyi ", image, "!"]);
+    deliverAll(bobMessages, alice);
+    assert.deepStrictEqual(alice.slice(), bob.slice());
+  });
+
+  it("deletes", () => {
+    alice.insertAt(0, "ab", image, "cd", mention);
+    deliverAll(aliceMessages, bob);
+
+    alice.deleteAt(1, 3);
+    assert.deepStrictEqual(alice.slice(), ["ad", mention]);
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.slice(), ["ad", mention]);
+
+    bob.deleteAt(2);
+    deliverAll(bobMessages, alice);
+    assert.strictEqual(alice.toString(), "ad");
+  });
+
+  it("merges saved states", () => {
+    alice.insertAt(0, "hello world");
+    bob.load(alice.save());
+
+    alice.insertAt(5, image);
+    alice.deleteAt(0);
+    bob.insertAt(11, "!", mention);
+
+    const charlie = new EmbedTextCrdt<Embed>(() => {});
+    charlie.load(alice.save());
+    charlie.load(bob.save());
+    alice.load(bob.save());
+    bob.load(alice.save());
+
+    const expected = ["ello", image, " world!", mention];
+    assert.deepStrictEqual(alice.slice(), expected);
+    assert.deepStrictEqual(bob.slice(), expected);
+    assert.deepStrictEqual(charlie.slice(), expected);
+
+    // Saved states use TextSavedState's compact format.
+    const text = Object.values(alice.save().text);
+    assert.isTrue(text.every((items) => items.length <= 3));
+  });
+
+  it("syncs with deltas", () => {
+    alice.insertAt(0, "ab", image);
+    bob.load(alice.save());
+    alice.insertAt(3, "c");
+    bob.deleteAt(1);
+    bob.insertAt(0, mention);
+
+    bob.load(alice.saveDelta(bob.summary()));
+    alice.load(bob.saveDelta(alice.summary()));
+    assert.deepStrictEqual(alice.slice(), [mention, "a", image, "c"]);
+    assert.deepStrictEqual(bob.slice(), alice.slice());
+  });
+
+  it("emits events", () => {
+    const inserts: EmbedTextCrdtInsertEvent<Embed>[] = [];
+    const deletes: EmbedTextCrdtDeleteEvent<Embed>[] = [];
+    bob.on("Insert", (e) => inserts.push(e));
+    bob.on("Delete", (e) => deletes.push(e));
+
+    alice.insertAt(0, "ab", image, "c");
+    deliverAll(aliceMessages, bob);
+    assert.strictEqual(inserts.length, 1);
+    assert.deepStrictEqual(inserts[0].content, ["ab", image, "c"]);
+    assert.strictEqual(inserts[0].isLocal, false);
+
+    bob.deleteAt(1, 2);
+    assert.deepStrictEqual(
+      deletes.map((e) => [e.index, e.content, e.isLocal]),
+      [[1, ["b", image], true]]
+    );
+  });
+});
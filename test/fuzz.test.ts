@@ -0,0 +1,367 @@
+import { describe, it } from "mocha";
+import { assert } from "chai";
+import { ListCrdt, TextCrdt } from "../src";
+
+/**
+ * Randomized convergence tests: N replicas make random inserts and deletes,
+ * over a network that reorders, duplicates, and drops-then-resends messages,
+ * with random state-based merges (save/load) in between. After the network
+ * quiesces, all replicas must have the same values and equivalent `save()`s.
+ *
+ * Each trial is reproducible from its seed. On failure, the trace is shrunk
+ * to a minimal failing one, which is included in the error message.
+ *
+ * Environment variables:
+ * - `FUZZ_SEED`: Run only this seed (e.g., from a failure message).
+ * - `FUZZ_TRIALS`: Number of seeds to run per CRDT (default 20).
+ * - `FUZZ_STEPS`: Actions per trace (default 200).
+ */
+
+const NUM_REPLICAS = 3;
+const TRIALS = Number(process.env.FUZZ_TRIALS ?? 20);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 200);
+
+/**
+ * Seeded PRNG (mulberry32), so that traces are reproducible.
+ */
+function rng(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * One step of a trace.
+ *
+ * Indices are fractions in [0, 1), scaled to the current length when the action
+ * runs, so that any subsequence of a trace is still a valid trace (for shrinking).
+ */
+type Action =
+  | { type: "insert"; replica: number; at: number; count: number }
+  | { type: "delete"; replica: number; at: number; count: number }
+  /** Delivers an in-flight message, keeping a copy in flight if duplicate. */
+  | { type: "deliver"; pick: number; duplicate: boolean }
+  /** Drops an in-flight message; its sender resends it on "resend". */
+  | { type: "drop"; pick: number }
+  | { type: "resend"; replica: number }
+  /** State-based merge: replica `to` loads replica `from`'s saved state. */
+  | { type: "merge"; from: number; to: number };
+
+function generateTrace(seed: number, steps: number): Action[] {
+  const random = rng(seed);
+  const replica = () => Math.floor(random() * NUM_REPLICAS);
+  const trace: Action[] = [];
+  for (let i = 0; i < steps; i++) {
+    const r = random();
+    if (r < 0.3) {
+      trace.push({
+        type: "insert",
+        replica: replica(),
+        at: random(),
+        count: 1 + Math.floor(random() * 4),
+      });
+    } else if (r < 0.45) {
+      trace.push({
+        type: "delete",
+        replica: replica(),
+        at: random(),
+        count: 1 + Math.floor(random() * 3),
+      });
+    } else if (r < 0.8) {
+      trace.push({
+        type: "deliver",
+        pick: random(),
+        duplicate: random() < 0.2,
+      });
+    } else if (r < 0.88) {
+      trace.push({ type: "drop", pick: random() });
+    } else if (r < 0.95) {
+      trace.push({ type: "resend", replica: replica() });
+    } else {
+      trace.push({ type: "merge", from: replica(), to: replica() });
+    }
+  }
+  return trace;
+}
+
+/**
+ * Wraps a CRDT type for the harness.
+ */
+type FuzzTarget = {
+  name: string;
+  create(replicaID: string, send: (message: unknown) => void): FuzzReplica;
+};
+
+type FuzzReplica = {
+  readonly length: number;
+  /**
+   * Inserts count new values at index, using counter to make them distinct.
+   */
+  insertAt(index: number, count: number, counter: number): void;
+  deleteAt(index: number, count: number): void;
+  values(): unknown[];
+  receive(message: unknown): void;
+  save(): unknown;
+  load(savedState: unknown): void;
+};
+
+const targets: FuzzTarget[] = [
+  {
+    name: "TextCrdt",
+    create(replicaID, send) {
+      const crdt = new TextCrdt(send, { replicaID });
+      return {
+        get length() {
+          return crdt.length;
+        },
+        insertAt: (index, count, counter) =>
+          crdt.insertAt(
+            index,
+            String.fromCharCode(97 + (counter % 26)).repeat(count)
+          ),
+        deleteAt: (index, count) => crdt.deleteAt(index, count),
+        values: () => [...crdt.toString()],
+        receive: (message) => crdt.receive(message as never),
+        save: () => crdt.save(),
+        load: (savedState) => crdt.load(savedState as never),
+      };
+    },
+  },
+  {
+    name: "ListCrdt",
+    create(replicaID, send) {
+      const crdt = new ListCrdt<string>(send, { replicaID });
+      return {
+        get length() {
+          return crdt.length;
+        },
+        insertAt: (index, count, counter) =>
+          crdt.insertAt(
+            index,
+            ...Array.from({ length: count }, (_, i) => `${counter}.${i}`)
+          ),
+        deleteAt: (index, count) => crdt.deleteAt(index, count),
+        values: () => crdt.slice(),
+        receive: (message) => crdt.receive(message as never),
+        save: () => crdt.save(),
+        load: (savedState) => crdt.load(savedState as never),
+      };
+    },
+  },
+];
+
+type Packet = { from: number; to: number; message: unknown };
+
+/**
+ * Runs trace on fresh replicas of target, then quiesces the network and
+ * checks convergence.
+ *
+ * @returns An error message, or null if the replicas converged.
+ */
+function runTrace(target: FuzzTarget, trace: Action[]): string | null {
+  const inFlight: Packet[] = [];
+  const dropped: Packet[] = [];
+  const replicas = Array.from({ length: NUM_REPLICAS }, (_, i) =>
+    target.create(`r${i}`, (message) => {
+      // Deep-copy messages, so that receivers can't share state with the sender.
+      const copy = JSON.parse(JSON.stringify(message)) as unknown;
+      for (let to = 0; to < NUM_REPLICAS; to++) {
+        if (to !== i) inFlight.push({ from: i, to, message: copy });
+      }
+    })
+  );
+  const pickIndex = (fraction: number, length: number) =>
+    Math.floor(fraction * length);
+
+  try {
+    let counter = 0;
+    for (const action of trace) {
+      switch (action.type) {
+        case "insert": {
+          const replica = replicas[action.replica];
+          replica.insertAt(
+            pickIndex(action.at, replica.length + 1),
+            action.count,
+            counter++
+          );
+          break;
+        }
+        case "delete": {
+          const replica = replicas[action.replica];
+          if (replica.length === 0) break;
+          const index = pickIndex(action.at, replica.length);
+          replica.deleteAt(
+            index,
+            Math.min(action.count, replica.length - index)
+          );
+          break;
+        }
+        case "deliver": {
+          if (inFlight.length === 0) break;
+          const i = pickIndex(action.pick, inFlight.length);
+          const packet = inFlight[i];
+          if (!action.duplicate) inFlight.splice(i, 1);
+          replicas[packet.to].receive(packet.message);
+          break;
+        }
+        case "drop": {
+          if (inFlight.length === 0) break;
+          const i = pickIndex(action.pick, inFlight.length);
+          dropped.push(...inFlight.splice(i, 1));
+          break;
+        }
+        case "resend":
+          for (let i = dropped.length - 1; i >= 0; i--) {
+            if (dropped[i].from === action.replica) {
+              inFlight.push(...dropped.splice(i, 1));
+            }
+          }
+          break;
+        case "merge":
+          if (action.from !== action.to) {
+            replicas[action.to].load(
+              JSON.parse(JSON.stringify(replicas[action.from].save()))
+            );
+          }
+          break;
+      }
+    }
+
+    // Quiesce: resend everything that was dropped, then deliver everything.
+    for (const packet of [...inFlight, ...dropped]) {
+      replicas[packet.to].receive(packet.message);
+    }
+  } catch (err) {
+    return `Threw: ${(err as Error).stack}`;
+  }
+
+  const values0 = JSON.stringify(replicas[0].values());
+  const saved0 = canonicalize(replicas[0].save());
+  for (let i = 1; i < NUM_REPLICAS; i++) {
+    const values = JSON.stringify(replicas[i].values());
+    if (values !== values0) {
+      return `Values differ: r0 has ${values0}, r${i} has ${values}`;
+    }
+    const saved = canonicalize(replicas[i].save());
+    if (saved !== saved0) {
+      return `Saved states differ: r0 has ${saved0}, r${i} has ${saved}`;
+    }
+  }
+
+  // The saved state must also reproduce the values in a fresh replica.
+  const fresh = target.create("fresh", () => {});
+  fresh.load(JSON.parse(JSON.stringify(replicas[0].save())));
+  const freshValues = JSON.stringify(fresh.values());
+  if (freshValues !== values0) {
+    return `Loaded state differs: r0 has ${values0}, loaded has ${freshValues}`;
+  }
+  return null;
+}
+
+/**
+ * Returns a JSON string for savedState that does not depend on the order in
+ * which it was built: object keys and the order's BunchMetas are sorted.
+ */
+function canonicalize(savedState: unknown): string {
+  return JSON.stringify(savedState, (key, value: unknown) => {
+    if (key === "order" && Array.isArray(value)) {
+      return [...(value as { bunchID: string }[])].sort((a, b) =>
+        a.bunchID < b.bunchID ? -1 : a.bunchID > b.bunchID ? 1 : 0
+      );
+    }
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      const sorted: { [key: string]: unknown } = {};
+      for (const k of Object.keys(value).sort()) {
+        sorted[k] = (value as { [key: string]: unknown })[k];
+      }
+      return sorted;
+    }
+    return value;
+  });
+}
+
+/**
+ * Shrinks a failing trace by repeatedly removing chunks of actions
+ * (delta debugging), keeping each removal that still fails.
+ */
+function shrink(target: FuzzTarget, trace: Action[]): Action[] {
+  let current = trace;
+  for (
+    let chunk = Math.floor(current.length / 2);
+    chunk >= 1;
+    chunk = Math.floor(chunk / 2)
+  ) {
+    for (let start = 0; start < current.length; ) {
+      const candidate = [
+        ...current.slice(0, start),
+        ...current.slice(start + chunk),
+      ];
+      if (runTrace(target, candidate) !== null) current = candidate;
+      else start += chunk;
+    }
+  }
+  return current;
+}
+
+/**
+ * Runs the trace for seed, throwing with a shrunk trace if it fails.
+ */
+function checkSeed(target: FuzzTarget, seed: number): void {
+  const trace = generateTrace(seed, STEPS);
+  if (runTrace(target, trace) === null) return;
+
+  const shrunk = shrink(target, trace);
+  assert.fail(
+    `${target.name} failed for FUZZ_SEED=${seed}: ${runTrace(
+      target,
+      shrunk
+    )}\nShrunk trace (${shrunk.length} of ${
+      trace.length
+    } actions): ${JSON.stringify(shrunk)}`
+  );
+}
+
+describe("fuzz", () => {
+  const seeds =
+    process.env.FUZZ_SEED !== undefined
+      ? [Number(process.env.FUZZ_SEED)]
+      : Array.from({ length: TRIALS }, (_, i) => i + 1);
+
+  for (const target of targets) {
+    describe(target.name, () => {
+      // Each trial takes tens of ms, but shrinking a failure takes longer.
+      it("converges", () => {
+        for (const seed of seeds) checkSeed(target, seed);
+      }).timeout(Math.max(10000, seeds.length * 200));
+    });
+  }
+
+  describe("harness", () => {
+    it("generates reproducible traces", () => {
+      assert.deepStrictEqual(generateTrace(7, 50), generateTrace(7, 50));
+      assert.notDeepEqual(generateTrace(7, 50), generateTrace(8, 50));
+    });
+
+    it("shrinks failing traces", () => {
+      // A broken "CRDT" that ignores remote messages fails after any insert,
+      // so the shrunk trace is a single insert.
+      const broken: FuzzTarget = {
+        name: "broken",
+        create(replicaID, send) {
+          const text = targets[0].create(replicaID, send);
+          return { ...text, receive: () => {} };
+        },
+      };
+      const trace = generateTrace(1, 100);
+      assert.isNotNull(runTrace(broken, trace));
+      const shrunk = shrink(broken, trace);
+      assert.deepStrictEqual(
+        shrunk.map((action) => action.type),
+        ["insert"]
+      );
+    });
+  });
+});
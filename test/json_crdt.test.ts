@@ -0,0 +1,216 @@
+import { describe } from "mocha";
+import { assert } from "chai";
+import {
+  JsonCrdt,
+  JsonCrdtList,
+  JsonCrdtMap,
+  JsonCrdtMapSetEvent,
+  JsonCrdtMessage,
+  JsonCrdtRegister,
+  JsonCrdtSavedState,
+  TextCrdt,
+} from "../src";
+
+describe("JsonCrdt", () => {
+  let aliceMessages!: JsonCrdtMessage[];
+  let bobMessages!: JsonCrdtMessage[];
+  let alice!: JsonCrdt;
+  let bob!: JsonCrdt;
+
+  beforeEach(() => {
+    aliceMessages = [];
+    alice = new JsonCrdt((message) => aliceMessages.push(message), {
+      replicaID: "alice",
+    });
+    bobMessages = [];
+    bob = new JsonCrdt((message) => bobMessages.push(message), {
+      replicaID: "bob",
+    });
+  });
+
+  /**
+   * Delivers all messages in the given array to to, in order, then clears it.
+   */
+  function deliverAll(messages: JsonCrdtMessage[], to: JsonCrdt) {
+    for (const message of messages) to.receive(message);
+    messages.length = 0;
+  }
+
+  /**
+   * Adds a todo with the given title to alice's "todos" list.
+   */
+  function addTodo(todos: JsonCrdtList, index: number, title: string) {
+    const todo = todos.insertAt(index, "map");
+    todo.set("title", "text").insertAt(0, title);
+    todo.set("done", "register").set(false);
+    return todo;
+  }
+
+  it("builds a tree", () => {
+    const todos = alice.root.set("todos", "list");
+    addTodo(todos, 0, "milk");
+    addTodo(todos, 1, "eggs");
+    alice.root.set("owner", "register").set({ name: "Alice" });
+
+    const expected = {
+      todos: [
+        { title: "milk", done: false },
+        { title: "eggs", done: false },
+      ],
+      owner: { name: "Alice" },
+    };
+    assert.deepStrictEqual(alice.toJSON(), expected);
+
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.toJSON(), expected);
+
+    // Edit nested text on bob, via the path from a message.
+    const bobTodos = bob.root.get("todos") as JsonCrdtList;
+    const title = (bobTodos.getAt(1) as JsonCrdtMap).get("title") as TextCrdt;
+    title.insertAt(4, "!");
+    assert.strictEqual(bobMessages.length, 1);
+    assert.strictEqual(bobMessages[0].path.length, 3);
+    assert.strictEqual(bob.getNode(bobMessages[0].path), title);
+    deliverAll(bobMessages, alice);
+    assert.deepStrictEqual(alice.toJSON(), {
+      ...expected,
+      todos: [expected.todos[0], { title: "eggs!", done: false }],
+    });
+  });
+
+  it("resolves concurrent sets", () => {
+    const register = alice.root.set("x", "register");
+    register.set(1);
+    bob.root.set("x", "text").insertAt(0, "bob");
+    deliverAll(aliceMessages, bob);
+    deliverAll(bobMessages, alice);
+    // Same lamport, so the greater replicaID wins.
+    assert.deepStrictEqual(alice.toJSON(), { x: "bob" });
+    assert.deepStrictEqual(bob.toJSON(), { x: "bob" });
+
+    // Edits to the losing node are still delivered, but not shown.
+    assert.strictEqual(alice.getNode(register.path), register);
+    register.set(2);
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.toJSON(), { x: "bob" });
+
+    alice.root.delete("x");
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.toJSON(), {});
+  });
+
+  it("buffers messages for nodes that do not exist yet", () => {
+    const todos = alice.root.set("todos", "list");
+    addTodo(todos, 0, "milk");
+    todos.moveAt(0, 1);
+
+    // Deliver in reverse order, twice.
+    const messages = [...aliceMessages].reverse();
+    aliceMessages.length = 0;
+    deliverAll([...messages], bob);
+    assert.deepStrictEqual(bob.toJSON(), alice.toJSON());
+    deliverAll(messages, bob);
+    assert.deepStrictEqual(bob.toJSON(), alice.toJSON());
+  });
+
+  it("creates nodes inserted in a transaction", () => {
+    const todos = alice.root.set("todos", "list");
+    todos.list.transact(() => {
+      addTodo(todos, 0, "milk");
+      todos.insertAt(1, "text").insertAt(0, "note");
+    });
+    const expected = { todos: [{ title: "milk", done: false }, "note"] };
+    assert.deepStrictEqual(alice.toJSON(), expected);
+
+    // The children's own messages are sent before the list's transaction,
+    // so bob buffers them until it creates the children.
+    assert.strictEqual(
+      aliceMessages[aliceMessages.length - 1].message.type,
+      "transaction"
+    );
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.toJSON(), expected);
+  });
+
+  it("gives each list node its own replicaID", () => {
+    const lists = [alice.root.set("a", "list"), alice.root.set("b", "list")];
+    const replicaIDs = new Set([
+      alice.replicaID,
+      ...lists.map((list) => list.list.replicaID),
+    ]);
+    assert.strictEqual(replicaIDs.size, 3);
+  });
+
+  it("keeps buffered messages across save and load", () => {
+    const text = alice.root.set("text", "text");
+    const [create] = aliceMessages.splice(0);
+    text.insertAt(0, "hi");
+
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.toJSON(), {});
+    const charlie = new JsonCrdt(() => {});
+    charlie.load(bob.save());
+    charlie.receive(create);
+    assert.deepStrictEqual(charlie.toJSON(), { text: "hi" });
+  });
+
+  it("merges saved states", () => {
+    const todos = alice.root.set("todos", "list");
+    addTodo(todos, 0, "milk");
+    bob.load(alice.save());
+
+    addTodo(todos, 1, "eggs");
+    const bobTodo = (bob.root.get("todos") as JsonCrdtList).getAt(0);
+    ((bobTodo as JsonCrdtMap).get("done") as JsonCrdtRegister).set(true);
+    bob.root.set("owner", "register").set("Bob");
+
+    const charlie = new JsonCrdt(() => {});
+    charlie.load(alice.save());
+    charlie.load(bob.save());
+    alice.load(bob.save());
+    bob.load(alice.save());
+
+    const expected = {
+      todos: [
+        { title: "milk", done: true },
+        { title: "eggs", done: false },
+      ],
+      owner: "Bob",
+    };
+    assert.deepStrictEqual(alice.toJSON(), expected);
+    assert.deepStrictEqual(bob.toJSON(), expected);
+    assert.deepStrictEqual(charlie.toJSON(), expected);
+
+    // Saved states are JSON.
+    const copy = new JsonCrdt(() => {});
+    copy.load(JSON.parse(JSON.stringify(alice.save())) as JsonCrdtSavedState);
+    assert.deepStrictEqual(copy.toJSON(), expected);
+  });
+
+  it("emits events", () => {
+    const events: JsonCrdtMapSetEvent[] = [];
+    bob.root.on("Set", (e) => events.push(e));
+
+    const register = alice.root.set("x", "register");
+    register.set(1);
+    deliverAll(aliceMessages, bob);
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].key, "x");
+    assert.instanceOf(events[0].value, JsonCrdtRegister);
+    assert.isUndefined(events[0].previousValue);
+    assert.isFalse(events[0].isLocal);
+
+    const values: unknown[] = [];
+    (bob.root.get("x") as JsonCrdtRegister).on("Set", (e) =>
+      values.push(e.value)
+    );
+    register.set(2);
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(values, [2]);
+
+    bob.root.delete("x");
+    assert.strictEqual(events.length, 2);
+    assert.isUndefined(events[1].value);
+    assert.isTrue(events[1].isLocal);
+  });
+});
@@ -1,6 +1,11 @@
 import { describe } from "mocha";
 import { assert } from "chai";
-import { ListCrdt, ListCrdtMessage } from "../src";
+import {
+  ListCrdt,
+  ListCrdtMessage,
+  ListCrdtSetMessage,
+  versionVectorGap,
+} from "../src";
 
 describe("ListCrdt", () => {
   let alice!: ListCrdt<string>;
@@ -33,6 +38,17 @@ describe("ListCrdt", () => {
     };
   });
 
+  /**
+   * Delivers all messages in the given array to to, in order, then clears it.
+   */
+  function deliverAll(
+    messages: ListCrdtMessage<string>[],
+    to: ListCrdt<string>
+  ) {
+    for (const message of messages) to.receive(message);
+    messages.length = 0;
+  }
+
   it("inserts", () => {
     alice.insertAt(0, ..."abc");
     assert.deepStrictEqual(alice.slice(), [..."abc"]);
@@ -224,6 +240,38 @@ describe("ListCrdt", () => {
     assert.deepStrictEqual(bob.slice(), [..."999888777666555444333222111000"]);
   });
 
+  it("buffers a long dependency chain", () => {
+    // A chain of bunches, each the child of the previous one, as if each
+    // char were typed in a separate session and then deleted (except the last).
+    // We construct the messages directly because creating such a deep
+    // chain through insertAt is slow.
+    const depth = 100000;
+    const ms: ListCrdtSetMessage<string>[] = [];
+    for (let i = 0; i < depth; i++) {
+      const bunchID = `b${i}`;
+      ms.push({
+        type: "set",
+        startPos: { bunchID, innerIndex: 0 },
+        values: [`${i}`],
+        meta: { bunchID, parentID: i === 0 ? "ROOT" : `b${i - 1}`, offset: 1 },
+      });
+    }
+    bob.receive({
+      type: "delete",
+      items: ms.slice(0, -1).map((m) => [m.startPos, 1]),
+    });
+
+    // Deliver in reverse order, so that every message is buffered until
+    // the last one unblocks the whole chain.
+    for (let i = depth - 1; i > 0; i--) bob.receive(ms[i]);
+    assert.deepStrictEqual(bob.slice(), []);
+    bob.receive(ms[0]);
+    assert.deepStrictEqual(bob.slice(), [`${depth - 1}`]);
+
+    // Buffer should be empty now.
+    assert.deepStrictEqual(bob.save().buffer, []);
+  }).timeout(10000);
+
   it("skips redundant messages after reload", () => {
     alice.insertAt(0, ..."a");
     const m1 = getAliceMessage();
@@ -324,6 +372,39 @@ describe("ListCrdt", () => {
     assert.deepStrictEqual(alice.slice(), [..."fgabcde"]);
   });
 
+  it("merges partially seen bunches", () => {
+    alice.insertAt(0, ..."abcdef");
+    bob.receive(getAliceMessage());
+
+    // Extend the same bunch, then delete across old and new positions.
+    alice.insertAt(6, ..."ghij");
+    const m1 = getAliceMessage();
+    alice.deleteAt(4, 4);
+    const m2 = getAliceMessage();
+    assert.deepStrictEqual(alice.slice(), [..."abcdij"]);
+
+    // Bob learns of the deletion but not the insertion,
+    // then deletes some chars of his own.
+    bob.receive(m2);
+    assert.deepStrictEqual(bob.slice(), [..."abcd"]);
+    bob.deleteAt(1, 2);
+    assert.deepStrictEqual(bob.slice(), [..."ad"]);
+
+    const bobSave = bob.save();
+    bob.load(alice.save());
+    alice.load(bobSave);
+    assert.deepStrictEqual(alice.slice(), [..."adij"]);
+    assert.deepStrictEqual(bob.slice(), [..."adij"]);
+
+    // The original messages are redundant.
+    for (const m of [m1, m2]) {
+      alice.receive(m);
+      bob.receive(m);
+    }
+    assert.deepStrictEqual(alice.slice(), [..."adij"]);
+    assert.deepStrictEqual(bob.slice(), [..."adij"]);
+  });
+
   it("merges buffered messages", () => {
     alice.insertAt(0, ..."abcde");
     bob.receive(getAliceMessage());
@@ -347,4 +428,831 @@ describe("ListCrdt", () => {
     bob.load(alice.save());
     assert.deepStrictEqual(bob.slice(), [..."abfikghcde"]);
   });
+
+  describe("events", () => {
+    /**
+     * Returns an array that mirrors crdt's state using only its events,
+     * plus a log of the events' isLocal flags.
+     */
+    function mirror(crdt: ListCrdt<string>) {
+      const values = crdt.slice();
+      const isLocals: boolean[] = [];
+      crdt.on("Insert", (e) => {
+        assert.deepStrictEqual(
+          crdt.slice(e.index, e.index + e.values.length),
+          e.values
+        );
+        values.splice(e.index, 0, ...e.values);
+        isLocals.push(e.isLocal);
+      });
+      crdt.on("Delete", (e) => {
+        assert.deepStrictEqual(
+          values.slice(e.index, e.index + e.values.length),
+          e.values
+        );
+        values.splice(e.index, e.values.length);
+        isLocals.push(e.isLocal);
+      });
+      return { values, isLocals };
+    }
+
+    it("local ops", () => {
+      const aliceMirror = mirror(alice);
+      alice.insertAt(0, ..."abcde");
+      alice.insertAt(2, ..."xy");
+      alice.deleteAt(1, 5);
+      alice.deleteAt(0);
+      assert.deepStrictEqual(aliceMirror.values, alice.slice());
+      assert.deepStrictEqual(aliceMirror.values, [..."e"]);
+      // deleteAt(1, 5) deletes 3 items: "b", "xy", "cd".
+      assert.deepStrictEqual(aliceMirror.isLocals, [
+        true,
+        true,
+        true,
+        true,
+        true,
+        true,
+      ]);
+    });
+
+    it("remote ops", () => {
+      const bobMirror = mirror(bob);
+      alice.insertAt(0, ..."abcde");
+      bob.receive(getAliceMessage());
+      alice.insertAt(2, ..."xy");
+      bob.receive(getAliceMessage());
+      alice.deleteAt(1, 5);
+      bob.receive(getAliceMessage());
+      assert.deepStrictEqual(bobMirror.values, bob.slice());
+      assert.deepStrictEqual(bobMirror.values, [..."ae"]);
+      assert.isTrue(bobMirror.isLocals.every((isLocal) => !isLocal));
+    });
+
+    it("unordered ops", () => {
+      const bobMirror = mirror(bob);
+      alice.insertAt(0, ..."abcde");
+      const m1 = getAliceMessage();
+      alice.insertAt(2, ..."xy");
+      const m2 = getAliceMessage();
+      alice.deleteAt(3, 3);
+      const m3 = getAliceMessage();
+      alice.insertAt(0, ..."z");
+      const m4 = getAliceMessage();
+
+      // Buffered until m1 arrives.
+      bob.receive(m4);
+      bob.receive(m3);
+      bob.receive(m2);
+      assert.deepStrictEqual(bobMirror.values, []);
+
+      // Releases the buffered messages.
+      bob.receive(m1);
+      assert.deepStrictEqual(bobMirror.values, bob.slice());
+      assert.deepStrictEqual(bobMirror.values, [..."zabxe"]);
+    });
+
+    it("partial inserts", () => {
+      alice.insertAt(0, ..."a");
+      bob.receive(getAliceMessage());
+      const bobMirror = mirror(bob);
+
+      alice.insertAt(1, ..."bcdef");
+      const m1 = getAliceMessage();
+      alice.insertAt(3, ..."xy");
+      const m2 = getAliceMessage();
+      alice.deleteAt(5, 2);
+      const m3 = getAliceMessage();
+      assert.deepStrictEqual(alice.slice(), [..."abcxyf"]);
+
+      bob.receive(m3);
+      bob.receive(m2);
+      bob.receive(m1);
+      assert.deepStrictEqual(bobMirror.values, bob.slice());
+      assert.deepStrictEqual(bobMirror.values, [..."abcxyf"]);
+    });
+
+    it("merges", () => {
+      alice.insertAt(0, ..."abcde");
+      bob.receive(getAliceMessage());
+      const aliceMirror = mirror(alice);
+
+      bob.deleteAt(1, 2);
+      bob.insertAt(0, ..."xy");
+      bob.insertAt(5, ..."z");
+      alice.insertAt(5, ..."w");
+      alice.deleteAt(4);
+
+      alice.load(bob.save());
+      assert.deepStrictEqual(aliceMirror.values, alice.slice());
+      assert.deepStrictEqual(aliceMirror.values, [..."xyadzw"]);
+      assert.deepStrictEqual(aliceMirror.isLocals, [
+        true,
+        true,
+        false,
+        false,
+        false,
+      ]);
+    });
+  });
+
+  describe("delta sync", () => {
+    /**
+     * Syncs both ways using deltas.
+     */
+    function syncDeltas(a: ListCrdt<string>, b: ListCrdt<string>) {
+      const aDelta = a.saveDelta(b.summary());
+      const bDelta = b.saveDelta(a.summary());
+      b.load(aDelta);
+      a.load(bDelta);
+    }
+
+    it("sends only missing values", () => {
+      alice.insertAt(0, ..."abcdef");
+      bob.receive(getAliceMessage());
+
+      alice.insertAt(3, ..."xy");
+      bob.insertAt(6, ..."z");
+
+      const delta = alice.saveDelta(bob.summary());
+      assert.deepStrictEqual(Object.values(delta.list).flat(2), [..."xy"]);
+
+      syncDeltas(alice, bob);
+      assert.deepStrictEqual(alice.slice(), [..."abcxydefz"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("sends deletions", () => {
+      alice.insertAt(0, ..."abcdef");
+      bob.receive(getAliceMessage());
+
+      alice.deleteAt(1, 2);
+      bob.deleteAt(4);
+      // New positions that are already deleted.
+      alice.insertAt(0, ..."xyz");
+      alice.deleteAt(0, 3);
+
+      syncDeltas(alice, bob);
+      assert.deepStrictEqual(alice.slice(), [..."adf"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+
+      // The original messages are redundant.
+      bob.receive(getAliceMessage());
+      assert.deepStrictEqual(bob.slice(), [..."adf"]);
+    });
+
+    it("sends metas for delete-only bunches", () => {
+      alice.insertAt(0, ..."abc");
+      const m1 = getAliceMessage();
+      alice.deleteAt(1);
+      bob.receive(getAliceMessage());
+      assert.deepStrictEqual(bob.summary().unknownMetas, [
+        (m1 as ListCrdtSetMessage<string>).startPos.bunchID,
+      ]);
+
+      bob.load(alice.saveDelta(bob.summary()));
+      assert.deepStrictEqual(bob.slice(), [..."ac"]);
+      assert.deepStrictEqual(bob.summary().unknownMetas, []);
+    });
+
+    it("matches a full load", () => {
+      alice.insertAt(0, ..."abcdef");
+      bob.receive(getAliceMessage());
+      alice.insertAt(2, ..."ghi");
+      alice.deleteAt(4, 3);
+      bob.insertAt(0, ..."jk");
+
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.load(bob.save());
+      charlie.load(alice.save());
+
+      bob.load(alice.saveDelta(bob.summary()));
+      assert.deepStrictEqual(bob.slice(), charlie.slice());
+      assert.deepStrictEqual(bob.save(), charlie.save());
+
+      // A fresh replica's delta is the full state.
+      const dave = new ListCrdt<string>(() => {});
+      dave.load(bob.saveDelta(dave.summary()));
+      assert.deepStrictEqual(dave.slice(), bob.slice());
+    });
+  });
+
+  it("loads a saved state without moves, updates, or stamps", () => {
+    alice.insertAt(0, ..."abcde");
+    getAliceMessage();
+    alice.deleteAt(1);
+    getAliceMessage();
+    // The fields that older saved states lack.
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { locations, updates, received, ...baseline } = alice.save();
+
+    bob.load(baseline);
+    assert.deepStrictEqual(bob.slice(), [..."acde"]);
+    bob.moveAt(0, 4);
+    bob.setAt(0, "C");
+    assert.deepStrictEqual(bob.slice(), [..."Cdea"]);
+    alice.load(bob.save());
+    assert.deepStrictEqual(alice.slice(), [..."Cdea"]);
+  });
+
+  describe("moves", () => {
+    let aliceMessages!: ListCrdtMessage<string>[];
+    let bobMessages!: ListCrdtMessage<string>[];
+
+    beforeEach(() => {
+      aliceMessages = [];
+      alice = new ListCrdt((message) => aliceMessages.push(message));
+      bobMessages = [];
+      bob = new ListCrdt((message) => bobMessages.push(message));
+    });
+
+    it("moves locally", () => {
+      alice.insertAt(0, ..."abcde");
+      const aID = alice.idAt(0);
+
+      alice.moveAt(0, 3);
+      assert.deepStrictEqual(alice.slice(), [..."bcade"]);
+      assert.deepStrictEqual(alice.idAt(2), aID);
+
+      alice.moveAt(3, 0, 2);
+      assert.deepStrictEqual(alice.slice(), [..."debca"]);
+      alice.moveAt(0, 5);
+      assert.deepStrictEqual(alice.slice(), [..."ebcad"]);
+      assert.deepStrictEqual(alice.idAt(3), aID);
+    });
+
+    it("rejects out-of-range moves", () => {
+      alice.insertAt(0, ..."abc");
+      assert.throws(() => alice.moveAt(-1, 0));
+      assert.throws(() => alice.moveAt(2, 0, 2));
+      assert.throws(() => alice.moveAt(3, 0));
+      assert.throws(() => alice.moveAt(0, 4));
+      assert.deepStrictEqual(alice.slice(), [..."abc"]);
+      assert.lengthOf(aliceMessages, 1);
+    });
+
+    it("moves remotely", () => {
+      alice.insertAt(0, ..."abcde");
+      alice.moveAt(0, 3);
+      alice.moveAt(3, 0, 2);
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(bob.slice(), [..."debca"]);
+      assert.deepStrictEqual(bob.save(), alice.save());
+    });
+
+    it("deletes moved values", () => {
+      alice.insertAt(0, ..."abcde");
+      alice.moveAt(0, 5);
+      alice.deleteAt(3, 2);
+      assert.deepStrictEqual(alice.slice(), [..."bcd"]);
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(bob.slice(), [..."bcd"]);
+    });
+
+    it("resolves concurrent moves", () => {
+      alice.insertAt(0, ..."abcde");
+      deliverAll(aliceMessages, bob);
+
+      alice.moveAt(0, 5);
+      bob.moveAt(0, 2);
+      deliverAll(aliceMessages, bob);
+      deliverAll(bobMessages, alice);
+
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+      // Either move may win, but not both.
+      assert.include(["bcdea", "bacde"], alice.slice().join(""));
+
+      // A later move wins over both.
+      bob.moveAt(bob.slice().indexOf("a"), 0);
+      deliverAll(bobMessages, alice);
+      assert.deepStrictEqual(alice.slice(), [..."abcde"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("deletes despite a concurrent move", () => {
+      alice.insertAt(0, ..."abcde");
+      deliverAll(aliceMessages, bob);
+
+      alice.moveAt(1, 5);
+      bob.deleteAt(1);
+      deliverAll(aliceMessages, bob);
+      deliverAll(bobMessages, alice);
+
+      assert.deepStrictEqual(alice.slice(), [..."acde"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("handles unordered and duplicate moves", () => {
+      alice.insertAt(0, ..."abcde");
+      alice.moveAt(0, 5);
+      alice.moveAt(4, 0);
+      alice.insertAt(1, ..."x");
+      assert.deepStrictEqual(alice.slice(), [..."axbcde"]);
+      const messages = [...aliceMessages];
+
+      // Deliver in reverse, twice.
+      for (let i = messages.length - 1; i >= 0; i--) bob.receive(messages[i]);
+      for (let i = messages.length - 1; i >= 0; i--) bob.receive(messages[i]);
+      assert.deepStrictEqual(bob.slice(), [..."axbcde"]);
+
+      // Older moves are ignored.
+      bob.receive(messages[1]);
+      assert.deepStrictEqual(bob.slice(), [..."axbcde"]);
+      assert.deepStrictEqual(bob.save(), alice.save());
+    });
+
+    it("buffers moves with missing deps", () => {
+      alice.insertAt(0, ..."abc");
+      const m1 = aliceMessages[0];
+      alice.moveAt(0, 3);
+      const m2 = aliceMessages[1];
+
+      // m2's new Positions depend on m1's bunch.
+      bob.receive(m2);
+      assert.deepStrictEqual(bob.slice(), []);
+      assert.deepStrictEqual(bob.save().buffer, [m2]);
+
+      // Survives a reload.
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.load(bob.save());
+      charlie.receive(m1);
+      assert.deepStrictEqual(charlie.slice(), [..."bca"]);
+
+      bob.receive(m1);
+      assert.deepStrictEqual(bob.slice(), [..."bca"]);
+      assert.deepStrictEqual(bob.save().buffer, []);
+    });
+
+    it("merges moves", () => {
+      alice.insertAt(0, ..."abcde");
+      deliverAll(aliceMessages, bob);
+
+      alice.moveAt(0, 5);
+      alice.deleteAt(1);
+      bob.moveAt(4, 0);
+      bob.insertAt(1, ..."x");
+
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.load(alice.save());
+      charlie.load(bob.save());
+      alice.load(bob.save());
+      bob.load(alice.save());
+
+      assert.deepStrictEqual(alice.slice(), [..."exbda"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+      assert.deepStrictEqual(charlie.slice(), alice.slice());
+    });
+
+    it("syncs moves with deltas", () => {
+      alice.insertAt(0, ..."abcde");
+      deliverAll(aliceMessages, bob);
+
+      alice.moveAt(0, 5);
+      bob.moveAt(2, 0);
+      bob.load(alice.saveDelta(bob.summary()));
+      alice.load(bob.saveDelta(alice.summary()));
+      assert.deepStrictEqual(alice.slice(), [..."cbdea"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("emits events", () => {
+      const values: string[] = [];
+      bob.on("Insert", (e) => values.splice(e.index, 0, ...e.values));
+      bob.on("Delete", (e) => values.splice(e.index, e.values.length));
+      bob.on("Move", (e) => {
+        assert.deepStrictEqual(values[e.index], e.value);
+        values.splice(e.index, 1);
+        values.splice(e.newIndex, 0, e.value);
+      });
+
+      bob.insertAt(0, ..."abcde");
+      bob.moveAt(0, 5, 2);
+      bob.moveAt(3, 1);
+      assert.deepStrictEqual(values, bob.slice());
+
+      deliverAll(bobMessages, alice);
+      alice.moveAt(0, 3);
+      alice.deleteAt(4);
+      alice.insertAt(2, ..."xy");
+      bob.moveAt(0, 4);
+      bob.load(alice.save());
+      assert.deepStrictEqual(values, bob.slice());
+
+      alice.moveAt(4, 0, 2);
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(values, bob.slice());
+    });
+  });
+
+  describe("updates", () => {
+    let aliceMessages!: ListCrdtMessage<string>[];
+    let bobMessages!: ListCrdtMessage<string>[];
+
+    beforeEach(() => {
+      aliceMessages = [];
+      alice = new ListCrdt((message) => aliceMessages.push(message), {
+        replicaID: "alice",
+      });
+      bobMessages = [];
+      bob = new ListCrdt((message) => bobMessages.push(message), {
+        replicaID: "bob",
+      });
+    });
+
+    it("sets locally", () => {
+      alice.insertAt(0, ..."abc");
+      const bID = alice.idAt(1);
+      alice.setAt(1, "x");
+      assert.deepStrictEqual(alice.slice(), [..."axc"]);
+      assert.deepStrictEqual(alice.idAt(1), bID);
+      alice.setAt(1, "y");
+      assert.deepStrictEqual(alice.slice(), [..."ayc"]);
+      assert.throws(() => alice.setAt(3, "z"));
+    });
+
+    it("sets remotely", () => {
+      alice.insertAt(0, ..."abc");
+      alice.setAt(0, "x");
+      alice.moveAt(0, 3);
+      alice.setAt(2, "y");
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(bob.slice(), [..."bcy"]);
+    });
+
+    it("resolves concurrent sets", () => {
+      alice.insertAt(0, ..."abc");
+      deliverAll(aliceMessages, bob);
+
+      alice.setAt(1, "x");
+      bob.setAt(1, "y");
+      deliverAll(aliceMessages, bob);
+      deliverAll(bobMessages, alice);
+      // Same lamport, so the greater replicaID wins.
+      assert.deepStrictEqual(alice.slice(), [..."ayc"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+
+      // A set that has seen another set wins, regardless of replicaID.
+      alice.setAt(1, "z");
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(bob.slice(), [..."azc"]);
+    });
+
+    it("deletes despite a concurrent set", () => {
+      alice.insertAt(0, ..."abc");
+      deliverAll(aliceMessages, bob);
+
+      alice.setAt(1, "x");
+      bob.deleteAt(1);
+      deliverAll(aliceMessages, bob);
+      deliverAll(bobMessages, alice);
+      assert.deepStrictEqual(alice.slice(), [..."ac"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("handles unordered and duplicate sets", () => {
+      alice.insertAt(0, ..."abc");
+      alice.setAt(0, "x");
+      alice.setAt(0, "y");
+      alice.insertAt(3, ..."de");
+      alice.setAt(4, "z");
+
+      // Updates before their values' insertions, in reverse order, twice.
+      const messages = [...aliceMessages].reverse();
+      deliverAll([...messages], bob);
+      deliverAll(messages, bob);
+      assert.deepStrictEqual(alice.slice(), [..."ybcdz"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("applies early sets after a reload", () => {
+      alice.insertAt(0, ..."abc");
+      const [insert] = aliceMessages.splice(0);
+      alice.setAt(1, "x");
+      deliverAll(aliceMessages, bob);
+
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.load(bob.save());
+      charlie.receive(insert);
+      assert.deepStrictEqual(charlie.slice(), [..."axc"]);
+
+      // Loading a state with the values after the early update.
+      const dave = new ListCrdt<string>(() => {});
+      dave.receive(insert);
+      const eve = new ListCrdt<string>(() => {});
+      eve.load(bob.save());
+      eve.load(dave.save());
+      assert.deepStrictEqual(eve.slice(), [..."axc"]);
+      const fred = new ListCrdt<string>(() => {});
+      fred.load(dave.save());
+      fred.load(bob.save());
+      assert.deepStrictEqual(fred.slice(), [..."axc"]);
+    });
+
+    it("merges sets", () => {
+      alice.insertAt(0, ..."abc");
+      deliverAll(aliceMessages, bob);
+
+      alice.setAt(0, "x");
+      alice.setAt(2, "y");
+      bob.setAt(2, "z");
+      bob.insertAt(3, ..."d");
+      bob.setAt(3, "w");
+
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.load(alice.save());
+      charlie.load(bob.save());
+      alice.load(bob.save());
+      bob.load(alice.save());
+
+      assert.deepStrictEqual(alice.slice(), [..."xbyw"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+      assert.deepStrictEqual(charlie.slice(), alice.slice());
+    });
+
+    it("syncs sets with deltas", () => {
+      alice.insertAt(0, ..."abc");
+      bob.load(alice.save());
+
+      alice.setAt(1, "x");
+      bob.setAt(0, "y");
+      bob.load(alice.saveDelta(bob.summary()));
+      alice.load(bob.saveDelta(alice.summary()));
+      assert.deepStrictEqual(alice.slice(), [..."yxc"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+
+    it("emits events", () => {
+      const values: string[] = [];
+      bob.on("Insert", (e) => values.splice(e.index, 0, ...e.values));
+      bob.on("Delete", (e) => values.splice(e.index, e.values.length));
+      bob.on("Update", (e) => {
+        assert.strictEqual(values[e.index], e.previousValue);
+        values[e.index] = e.value;
+      });
+
+      bob.insertAt(0, ..."abc");
+      bob.setAt(1, "x");
+      assert.deepStrictEqual(values, bob.slice());
+
+      deliverAll(bobMessages, alice);
+      alice.setAt(0, "y");
+      alice.setAt(2, "z");
+      bob.setAt(2, "w");
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(values, bob.slice());
+
+      alice.setAt(1, "v");
+      bob.load(alice.save());
+      assert.deepStrictEqual(values, bob.slice());
+      assert.deepStrictEqual(bob.slice(), [..."yvz"]);
+    });
+  });
+
+  describe("version vectors", () => {
+    let aliceMessages!: ListCrdtMessage<string>[];
+    let bobMessages!: ListCrdtMessage<string>[];
+
+    beforeEach(() => {
+      aliceMessages = [];
+      alice = new ListCrdt((message) => aliceMessages.push(message), {
+        replicaID: "alice",
+      });
+      bobMessages = [];
+      bob = new ListCrdt((message) => bobMessages.push(message), {
+        replicaID: "bob",
+      });
+    });
+
+    it("stamps messages", () => {
+      alice.insertAt(0, ..."abc");
+      alice.setAt(0, "x");
+      alice.moveAt(0, 3);
+      alice.deleteAt(0);
+      assert.deepStrictEqual(
+        aliceMessages.map((message) => message.stamp),
+        [0, 1, 2, 3].map((seq) => ({ replicaID: "alice", seq }))
+      );
+      assert.deepStrictEqual(alice.versionVector(), { alice: 4 });
+    });
+
+    it("tracks received messages", () => {
+      alice.insertAt(0, ..."abc");
+      alice.insertAt(3, ..."def");
+      alice.deleteAt(0);
+      const [first, second, third] = aliceMessages.splice(0);
+      bob.insertAt(0, "x");
+
+      // A gap is not counted until it is filled.
+      bob.receive(first);
+      bob.receive(third);
+      assert.deepStrictEqual(bob.versionVector(), { alice: 1, bob: 1 });
+      bob.receive(second);
+      assert.deepStrictEqual(bob.versionVector(), { alice: 3, bob: 1 });
+
+      // Stamps survive a reload, so duplicates are still skipped.
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.load(bob.save());
+      assert.deepStrictEqual(charlie.versionVector(), bob.versionVector());
+      charlie.receive(first);
+      assert.deepStrictEqual(charlie.slice(), bob.slice());
+    });
+
+    it("resends messages after a vector", () => {
+      alice.insertAt(0, ..."abc");
+      deliverAll(aliceMessages, bob);
+      alice.insertAt(3, ..."def");
+      alice.setAt(0, "x");
+      // These messages are lost.
+      aliceMessages.length = 0;
+
+      assert.deepStrictEqual(
+        versionVectorGap(bob.versionVector(), alice.versionVector()),
+        { alice: [1, 3] }
+      );
+      assert.lengthOf(alice.localMessagesSince(bob.versionVector())!, 2);
+      assert.isTrue(alice.resendSince(bob.versionVector()));
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(bob.slice(), [..."xbcdef"]);
+      assert.deepStrictEqual(bob.versionVector(), alice.versionVector());
+    });
+
+    it("continues after reloading with the same replicaID", () => {
+      alice.insertAt(0, "a");
+      deliverAll(aliceMessages, bob);
+
+      const alice2 = new ListCrdt<string>(
+        (message) => aliceMessages.push(message),
+        { replicaID: "alice" }
+      );
+      alice2.load(alice.save());
+      alice2.insertAt(0, "b");
+      assert.deepStrictEqual(
+        aliceMessages.map((message) => message.stamp),
+        [{ replicaID: "alice", seq: 1 }]
+      );
+      deliverAll(aliceMessages, bob);
+      assert.deepStrictEqual(bob.slice(), ["b", "a"]);
+
+      // alice's first message was sent before the reload, so a peer missing
+      // it must catch up with saveDelta instead.
+      assert.isNull(alice2.localMessagesSince({}));
+      assert.isFalse(alice2.resendSince({}));
+      assert.lengthOf(alice2.localMessagesSince({ alice: 1 })!, 1);
+    });
+
+    it("merges vectors", () => {
+      alice.insertAt(0, ..."abc");
+      alice.insertAt(0, "x");
+      bob.insertAt(0, "y");
+      bob.load(alice.save());
+      assert.deepStrictEqual(bob.versionVector(), { alice: 2, bob: 1 });
+    });
+  });
+
+  describe("versions", () => {
+    it("reconstructs tagged versions", () => {
+      alice.insertAt(0, ..."abcd");
+      alice.tagVersion("v1");
+      alice.moveAt(0, 4);
+      alice.deleteAt(0);
+      alice.setAt(0, "x");
+      alice.tagVersion("v2");
+
+      // Values still present keep their current value and order.
+      assert.deepStrictEqual(alice.sliceAtVersion("v1"), ["b", "x", "d", "a"]);
+      assert.deepStrictEqual(alice.sliceAtVersion("v2"), ["x", "d", "a"]);
+      assert.deepStrictEqual(alice.diffVersions("v1", "v2"), [
+        { type: "delete", index: 0, values: ["b"] },
+      ]);
+    });
+  });
+
+  describe("transactions", () => {
+    it("applies moves and updates atomically", () => {
+      const messages: ListCrdtMessage<string>[] = [];
+      alice = new ListCrdt((message) => messages.push(message));
+      alice.insertAt(0, ..."abc");
+      deliverAll(messages, bob);
+
+      const names: string[] = [];
+      bob.on("Insert", () => assert.fail("Unexpected Insert event"));
+      bob.on("Transaction", (e) => {
+        assert.isFalse(e.isLocal);
+        // The list is already in its final state.
+        assert.deepStrictEqual(bob.slice(), [..."xad"]);
+        names.push(...e.events.map(({ name }) => name));
+      });
+      alice.transact(() => {
+        alice.moveAt(0, 3);
+        alice.setAt(1, "x");
+        alice.insertAt(3, "d");
+        alice.deleteAt(0);
+      });
+      assert.deepStrictEqual(alice.slice(), [..."xad"]);
+      assert.strictEqual(messages.length, 1);
+
+      deliverAll(messages, bob);
+      assert.deepStrictEqual(bob.slice(), [..."xad"]);
+      assert.deepStrictEqual(names, ["Move", "Update", "Insert", "Delete"]);
+    });
+
+    it("survives save and load with a buffered part", () => {
+      alice.insertAt(0, ..."abc");
+      const m1 = getAliceMessage();
+      bob.receive(m1);
+      bob.transact(() => {
+        bob.deleteAt(0);
+        bob.insertAt(2, "d");
+      });
+
+      // charlie gets bob's transaction before alice's insert.
+      const charlie = new ListCrdt<string>(() => {});
+      charlie.receive(getBobMessage());
+      assert.deepStrictEqual(charlie.slice(), []);
+
+      const charlie2 = new ListCrdt<string>(() => {});
+      charlie2.load(charlie.save());
+      charlie2.receive(m1);
+      assert.deepStrictEqual(charlie2.slice(), bob.slice());
+    });
+  });
+
+  describe("positions", () => {
+    it("uses IDs as Positions", () => {
+      alice.insertAt(0, ..."abcd");
+      alice.moveAt(0, 4);
+      assert.strictEqual(alice.length, 4);
+      const id = alice.idAt(3);
+      assert.deepStrictEqual(alice.positionAt(3), id);
+      assert.strictEqual(alice.indexOfPosition(id), 3);
+      assert.isTrue(alice.has(id));
+      assert.strictEqual(alice.get(id), "a");
+      assert.deepStrictEqual(
+        [...alice.entries()],
+        alice.slice().map((value, i) => [alice.idAt(i), value])
+      );
+
+      alice.setAt(3, "x");
+      assert.strictEqual(alice.get(id), "x");
+      alice.deleteAt(3);
+      assert.isFalse(alice.has(id));
+      assert.strictEqual(alice.indexOfPosition(id, "left"), 2);
+    });
+  });
+
+  describe("setValues", () => {
+    it("keeps the IDs of unchanged values", () => {
+      alice.insertAt(0, ..."abcde");
+      const ids = [..."abcde"].map((_, i) => alice.idAt(i));
+
+      alice.setValues([..."xbdey"]);
+      assert.deepStrictEqual(alice.slice(), [..."xbdey"]);
+      assert.deepStrictEqual(alice.idAt(1), ids[1]);
+      assert.deepStrictEqual(alice.idAt(2), ids[3]);
+      assert.deepStrictEqual(alice.idAt(3), ids[4]);
+    });
+
+    it("uses the equality function", () => {
+      type Item = { id: number; text: string };
+      const list = new ListCrdt<Item>(() => {});
+      list.insertAt(0, { id: 1, text: "a" }, { id: 2, text: "b" });
+      const id1 = list.idAt(0);
+
+      const target = [
+        { id: 3, text: "c" },
+        { id: 1, text: "a" },
+      ];
+      // The default (===) sees only new objects.
+      list.setValues(target);
+      assert.deepStrictEqual(list.slice(), target);
+      assert.notDeepEqual(list.idAt(1), id1);
+
+      const id3 = list.idAt(0);
+      list.setValues(
+        [
+          { id: 3, text: "c" },
+          { id: 4, text: "d" },
+        ],
+        (a, b) => a.id === b.id
+      );
+      assert.deepStrictEqual(list.idAt(0), id3);
+      assert.deepStrictEqual(
+        list.slice().map((item) => item.id),
+        [3, 4]
+      );
+    });
+
+    it("preserves concurrent edits", () => {
+      const messages: ListCrdtMessage<string>[] = [];
+      alice = new ListCrdt((message) => messages.push(message));
+      alice.insertAt(0, ..."abc");
+      deliverAll(messages, bob);
+
+      alice.setValues([..."abxc"]);
+      bob.insertAt(3, "d");
+      deliverAll(messages, bob);
+      alice.receive(getBobMessage());
+      assert.deepStrictEqual(alice.slice(), [..."abxcd"]);
+      assert.deepStrictEqual(bob.slice(), alice.slice());
+    });
+  });
 });
@@ -0,0 +1,173 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "mocha";
+import { assert } from "chai";
+import {
+  ListCrdt,
+  ListCrdtMessage,
+  ListCrdtSavedState,
+  OpLog,
+  TextCrdt,
+  TextCrdtMessage,
+  TextCrdtSavedState,
+} from "../src";
+import { FileOpLogStorage } from "../src/file_op_log_storage";
+
+describe("OpLog", () => {
+  it("records sent and received messages", () => {
+    const log = new OpLog<
+      ListCrdtMessage<number>,
+      ListCrdtSavedState<number>
+    >();
+    const bobMessages: ListCrdtMessage<number>[] = [];
+    const alice = new ListCrdt<number>(() => {}, { opLog: log });
+    const bob = new ListCrdt<number>((message) => bobMessages.push(message));
+
+    alice.insertAt(0, 1, 2);
+    bob.insertAt(0, 3);
+    alice.receive(bobMessages[0]);
+    // Duplicates are not recorded.
+    alice.receive(bobMessages[0]);
+
+    const { snapshot, entries } = log.storage.read();
+    assert.isNull(snapshot);
+    assert.deepStrictEqual(
+      entries.map((entry) => [entry.direction, entry.message.stamp]),
+      [
+        ["sent", { replicaID: alice.replicaID, seq: 0 }],
+        ["received", { replicaID: bob.replicaID, seq: 0 }],
+      ]
+    );
+  });
+
+  it("replays into a fresh instance", () => {
+    const log = new OpLog<TextCrdtMessage, TextCrdtSavedState>();
+    const bobMessages: TextCrdtMessage[] = [];
+    const alice = new TextCrdt(() => {}, { opLog: log });
+    const bob = new TextCrdt((message) => bobMessages.push(message));
+
+    alice.insertAt(0, "hello");
+    bob.insertAt(0, "world");
+    alice.receive(bobMessages[0]);
+    alice.deleteAt(0, 2);
+
+    const alice2 = new TextCrdt(() => {}, { opLog: log });
+    log.replay(alice2);
+    assert.strictEqual(alice2.toString(), alice.toString());
+    assert.deepStrictEqual(alice2.versionVector(), alice.versionVector());
+    // Replayed messages are not recorded again.
+    assert.strictEqual(log.storage.read().entries.length, 3);
+
+    // alice2 continues recording.
+    alice2.insertAt(0, "!");
+    const alice3 = new TextCrdt(() => {});
+    log.replay(alice3);
+    assert.strictEqual(alice3.toString(), alice2.toString());
+  });
+
+  it("compacts into a snapshot", () => {
+    const log = new OpLog<
+      ListCrdtMessage<number>,
+      ListCrdtSavedState<number>
+    >();
+    const alice = new ListCrdt<number>(() => {}, { opLog: log });
+
+    alice.insertAt(0, 1, 2, 3);
+    alice.moveAt(0, 3);
+    log.compact(alice);
+    assert.deepStrictEqual(log.storage.read().entries, []);
+
+    alice.setAt(0, 5);
+    alice.deleteAt(1);
+    assert.strictEqual(log.storage.read().entries.length, 2);
+
+    const alice2 = new ListCrdt<number>(() => {});
+    log.replay(alice2);
+    assert.deepStrictEqual(alice2.slice(), alice.slice());
+    assert.deepStrictEqual(alice2.slice(), [5, 1]);
+  });
+
+  describe("FileOpLogStorage", () => {
+    let dir!: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "op-log-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("persists the log", () => {
+      const file = path.join(dir, "list.log");
+      const log = new OpLog(
+        new FileOpLogStorage<
+          ListCrdtMessage<string>,
+          ListCrdtSavedState<string>
+        >(file)
+      );
+      assert.deepStrictEqual(log.storage.read(), {
+        snapshot: null,
+        entries: [],
+      });
+
+      const alice = new ListCrdt<string>(() => {}, { opLog: log });
+      alice.insertAt(0, ..."abc");
+      log.compact(alice);
+      alice.deleteAt(0);
+      alice.insertAt(2, "d");
+
+      // Reopen the file, like after a restart.
+      const log2 = new OpLog(
+        new FileOpLogStorage<
+          ListCrdtMessage<string>,
+          ListCrdtSavedState<string>
+        >(file)
+      );
+      assert.strictEqual(log2.storage.read().entries.length, 2);
+      const alice2 = new ListCrdt<string>(() => {}, { opLog: log2 });
+      log2.replay(alice2);
+      assert.deepStrictEqual(alice2.slice(), ["b", "c", "d"]);
+      assert.isFalse(fs.existsSync(file + ".tmp"));
+    });
+
+    it("ignores an incomplete last entry", () => {
+      const file = path.join(dir, "text.log");
+      const log = new OpLog(
+        new FileOpLogStorage<TextCrdtMessage, TextCrdtSavedState>(file)
+      );
+      const alice = new TextCrdt(() => {}, { opLog: log });
+      alice.insertAt(0, "hi");
+      // Simulate a crash mid-append.
+      fs.appendFileSync(file, '{"entry":{"direc');
+
+      const alice2 = new TextCrdt(() => {});
+      log.replay(alice2);
+      assert.strictEqual(alice2.toString(), "hi");
+    });
+
+    it("continues after a crash", () => {
+      const file = path.join(dir, "text.log");
+      const alice = new TextCrdt(() => {}, {
+        opLog: new OpLog(new FileOpLogStorage(file)),
+      });
+      alice.insertAt(0, "hi");
+      fs.appendFileSync(file, '{"entry":{"direc');
+
+      // Restart, replay, and keep editing.
+      const log2 = new OpLog(
+        new FileOpLogStorage<TextCrdtMessage, TextCrdtSavedState>(file)
+      );
+      const alice2 = new TextCrdt(() => {}, { opLog: log2 });
+      log2.replay(alice2);
+      alice2.insertAt(2, "!");
+
+      const alice3 = new TextCrdt(() => {});
+      new OpLog(
+        new FileOpLogStorage<TextCrdtMessage, TextCrdtSavedState>(file)
+      ).replay(alice3);
+      assert.strictEqual(alice3.toString(), "hi!");
+    });
+  });
+});
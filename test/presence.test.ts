@@ -0,0 +1,265 @@
+import { describe, it } from "mocha";
+import { assert } from "chai";
+import {
+  MemoryTransport,
+  Presence,
+  PresenceChangeEvent,
+  PresenceMessage,
+  PresenceState,
+  SyncProvider,
+  SyncServer,
+  TextCrdt,
+} from "../src";
+
+describe("Presence", () => {
+  /**
+   * The fake current time, for Presence's now option.
+   */
+  let time = 0;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+  });
+
+  /**
+   * Returns two Presences connected directly, without a transport.
+   */
+  function directPair(): [Presence, Presence] {
+    const pair: Presence[] = ["alice", "bob"].map(
+      (replicaID, i) =>
+        new Presence((message) => pair[1 - i].receive(message), {
+          replicaID,
+          useTimers: false,
+          now,
+        })
+    );
+    return [pair[0], pair[1]];
+  }
+
+  /**
+   * Records the Change events of presence, without isLocal.
+   */
+  function changes(presence: Presence): Omit<PresenceChangeEvent, "isLocal">[] {
+    const events: Omit<PresenceChangeEvent, "isLocal">[] = [];
+    presence.on("Change", ({ added, updated, removed }) =>
+      events.push({ added, updated, removed })
+    );
+    return events;
+  }
+
+  it("shares carets that survive edits", () => {
+    const [aliceTransport, bobTransport] = MemoryTransport.pair();
+    const aliceProvider = new SyncProvider(aliceTransport);
+    const bobProvider = new SyncProvider(bobTransport);
+    const aliceText = aliceProvider.add("text", (send) => new TextCrdt(send));
+    const bobText = bobProvider.add("text", (send) => new TextCrdt(send));
+    const alice = aliceProvider.add(
+      "presence",
+      (send) =>
+        new Presence(send, {
+          replicaID: "alice",
+          transport: aliceTransport,
+          useTimers: false,
+        })
+    );
+
+    aliceText.insertAt(0, "hello world");
+    alice.setLocalState({
+      name: "Alice",
+      selection: aliceText.selectionAt(6, 11),
+    });
+
+    // bob gets alice's state in the handshake.
+    const bob = bobProvider.add(
+      "presence",
+      (send) =>
+        new Presence(send, {
+          replicaID: "bob",
+          transport: bobTransport,
+          useTimers: false,
+        })
+    );
+    assert.deepStrictEqual(bob.getState("alice"), alice.localState);
+    bob.setLocalState({ name: "Bob" });
+    assert.deepStrictEqual([...alice.getStates().keys()].sort(), [
+      "alice",
+      "bob",
+    ]);
+
+    bobText.insertAt(0, ">> ");
+    const selection = bob.getState("alice")!.selection!;
+    assert.deepStrictEqual(bobText.indexOfSelection(selection), {
+      anchor: 9,
+      head: 14,
+    });
+    assert.deepStrictEqual(aliceText.indexOfSelection(selection), {
+      anchor: 9,
+      head: 14,
+    });
+  });
+
+  it("emits events", () => {
+    const [alice, bob] = directPair();
+    const events = changes(bob);
+    const isLocals: boolean[] = [];
+    alice.on("Change", ({ isLocal }) => isLocals.push(isLocal));
+
+    alice.setLocalState({ name: "Alice" });
+    alice.setLocalState({ name: "Alice", color: "red" });
+    // Heartbeats with the same state are not reported.
+    time = 20000;
+    alice.tick();
+    alice.setLocalState(null);
+    assert.deepStrictEqual(events, [
+      { added: ["alice"], updated: [], removed: [] },
+      { added: [], updated: ["alice"], removed: [] },
+      { added: [], updated: [], removed: ["alice"] },
+    ]);
+    assert.deepStrictEqual(isLocals, [true, true, true]);
+  });
+
+  it("removes states that time out", () => {
+    const [alice, bob] = directPair();
+    const events = changes(bob);
+    alice.setLocalState({ name: "Alice" });
+
+    time = 10000;
+    alice.tick();
+    bob.tick();
+    time = 15000;
+    alice.tick();
+    time = 40000;
+    bob.tick();
+    // alice's heartbeat at 15000 kept her state.
+    assert.isDefined(bob.getState("alice"));
+
+    // alice crashes, so she stops ticking.
+    time = 45000;
+    bob.tick();
+    assert.isUndefined(bob.getState("alice"));
+    assert.deepStrictEqual(events.pop(), {
+      added: [],
+      updated: [],
+      removed: ["alice"],
+    });
+
+    // Until she comes back.
+    time = 50000;
+    alice.tick();
+    assert.deepStrictEqual(bob.getState("alice"), { name: "Alice" });
+  });
+
+  it("removes remote states when the transport closes", () => {
+    const [aliceTransport, bobTransport] = MemoryTransport.pair();
+    const presences = [aliceTransport, bobTransport].map((transport, i) =>
+      new SyncProvider(transport).add(
+        "presence",
+        (send) =>
+          new Presence(send, {
+            replicaID: `r${i}`,
+            transport,
+            useTimers: false,
+          })
+      )
+    );
+    presences[0].setLocalState({ name: "Alice" });
+    presences[1].setLocalState({ name: "Bob" });
+    assert.strictEqual(presences[0].getStates().size, 2);
+
+    aliceTransport.disconnect();
+    for (const presence of presences) {
+      assert.deepStrictEqual(
+        [...presence.getStates().keys()],
+        [presence.replicaID]
+      );
+    }
+
+    // The handshake restores them.
+    presences[1].setLocalState({ name: "Bob", color: "blue" });
+    aliceTransport.reconnect();
+    assert.deepStrictEqual(presences[0].getState("r1"), {
+      name: "Bob",
+      color: "blue",
+    });
+    assert.deepStrictEqual(presences[1].getState("r0"), { name: "Alice" });
+  });
+
+  it("removes states of clients that disconnect from a server", () => {
+    const server = new SyncServer({
+      createDoc: () => new Presence(() => {}, { useTimers: false }),
+    });
+    function connect(replicaID: string): [Presence, MemoryTransport] {
+      const [transport, serverSide] = MemoryTransport.pair();
+      server.connect(serverSide);
+      const presence = new SyncProvider(transport).add(
+        "presence",
+        (send) => new Presence(send, { replicaID, transport, useTimers: false })
+      );
+      presence.setLocalState({ name: replicaID });
+      return [presence, transport];
+    }
+    const [, aliceTransport] = connect("alice");
+    const [bob] = connect("bob");
+    assert.deepStrictEqual(bob.getState("alice"), { name: "alice" });
+
+    // alice disconnects without removing her state.
+    const events = changes(bob);
+    aliceTransport.disconnect();
+    assert.isUndefined(bob.getState("alice"));
+    assert.deepStrictEqual(events, [
+      { added: [], updated: [], removed: ["alice"] },
+    ]);
+    const [charlie] = connect("charlie");
+    assert.isUndefined(charlie.getState("alice"));
+
+    // When she reconnects, her state comes back.
+    aliceTransport.reconnect();
+    assert.deepStrictEqual(bob.getState("alice"), { name: "alice" });
+    assert.deepStrictEqual(charlie.getState("alice"), { name: "alice" });
+  });
+
+  it("removes our state on dispose", () => {
+    const [alice, bob] = directPair();
+    alice.setLocalState({ name: "Alice" });
+    alice.dispose();
+    assert.isUndefined(bob.getState("alice"));
+  });
+
+  it("ignores stale messages", () => {
+    const messages: PresenceMessage<PresenceState>[] = [];
+    const alice = new Presence((message) => messages.push(message), {
+      replicaID: "alice",
+      useTimers: false,
+    });
+    const bob = new Presence(() => {}, { useTimers: false });
+    alice.setLocalState({ name: "old" });
+    alice.setLocalState({ name: "new" });
+
+    bob.receive(messages[1]);
+    bob.receive(messages[0]);
+    assert.deepStrictEqual(bob.getState("alice"), { name: "new" });
+
+    // A stale load also loses.
+    bob.load({ alice: { state: { name: "older" }, clock: 1 } });
+    assert.deepStrictEqual(bob.getState("alice"), { name: "new" });
+  });
+
+  it("overrides its stale state after reloading", () => {
+    const [alice, bob] = directPair();
+    alice.setLocalState({ name: "before reload" });
+    alice.dispose();
+    // E.g., from a server that has not timed alice out yet.
+    bob.load({ alice: { state: { name: "before reload" }, clock: 5 } });
+    assert.isDefined(bob.getState("alice"));
+
+    // alice reloads with the same replicaID, then gets bob's stale copy.
+    const alice2 = new Presence((message) => bob.receive(message), {
+      replicaID: "alice",
+      useTimers: false,
+    });
+    alice2.load(bob.save());
+    assert.isNull(alice2.localState);
+    assert.isUndefined(bob.getState("alice"));
+  });
+});
@@ -0,0 +1,272 @@
+import { describe } from "mocha";
+import { assert } from "chai";
+import {
+  RichTextCrdt,
+  RichTextCrdtFormatEvent,
+  RichTextCrdtMessage,
+  RichTextCrdtSpan,
+} from "../src";
+
+describe("RichTextCrdt", () => {
+  let aliceMessages!: RichTextCrdtMessage[];
+  let bobMessages!: RichTextCrdtMessage[];
+  let alice!: RichTextCrdt;
+  let bob!: RichTextCrdt;
+
+  beforeEach(() => {
+    aliceMessages = [];
+    alice = new RichTextCrdt((message) => aliceMessages.push(message), {
+      replicaID: "alice",
+    });
+    bobMessages = [];
+    bob = new RichTextCrdt((message) => bobMessages.push(message), {
+      replicaID: "bob",
+    });
+  });
+
+  /**
+   * Delivers all messages in the given array to to, in order, then clears it.
+   */
+  function deliverAll(messages: RichTextCrdtMessage[], to: RichTextCrdt) {
+    for (const message of messages) to.receive(message);
+    messages.length = 0;
+  }
+
+  it("formats locally", () => {
+    alice.insertAt(0, "hello world");
+    alice.format(0, 5, "bold", true);
+    alice.format(3, 8, "italic", true);
+    assert.deepStrictEqual(alice.spans(), [
+      { text: "hel", format: { bold: true } },
+      { text: "lo", format: { bold: true, italic: true } },
+      { text: " wo", format: { italic: true } },
+      { text: "rld", format: {} },
+    ]);
+    assert.deepStrictEqual(alice.formatAt(4), { bold: true, italic: true });
+
+    // null removes a format.
+    alice.format(1, 4, "bold", null);
+    assert.deepStrictEqual(alice.formatAt(3), { italic: true });
+    assert.deepStrictEqual(alice.formatAt(0), { bold: true });
+    assert.throws(() => alice.format(0, 12, "bold", true));
+  });
+
+  it("formats remotely", () => {
+    alice.insertAt(0, "hello world");
+    alice.format(6, 11, "link", "https://example.com", "none");
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.spans(), alice.spans());
+    assert.deepStrictEqual(bob.formatAt(6), { link: "https://example.com" });
+  });
+
+  it("expands at the chosen ends", () => {
+    alice.insertAt(0, "abc");
+    alice.format(1, 2, "bold", true);
+    alice.format(1, 2, "link", "x", "none");
+    alice.format(1, 2, "comment", 1, "both");
+    alice.insertAt(2, "A");
+    alice.insertAt(1, "B");
+    assert.strictEqual(alice.toString(), "aBbAc");
+    assert.deepStrictEqual(alice.spans(), [
+      { text: "a", format: {} },
+      { text: "B", format: { comment: 1 } },
+      { text: "b", format: { bold: true, link: "x", comment: 1 } },
+      { text: "A", format: { bold: true, comment: 1 } },
+      { text: "c", format: {} },
+    ]);
+  });
+
+  it("keeps formats at their chars despite concurrent edits", () => {
+    alice.insertAt(0, "hello world");
+    deliverAll(aliceMessages, bob);
+    alice.format(0, 5, "bold", true);
+    bob.insertAt(0, ">> ");
+    bob.deleteAt(3);
+    deliverAll(aliceMessages, bob);
+    deliverAll(bobMessages, alice);
+    assert.strictEqual(alice.toString(), ">> ello world");
+    assert.deepStrictEqual(alice.spans(), [
+      { text: ">> ", format: {} },
+      { text: "ello", format: { bold: true } },
+      { text: " world", format: {} },
+    ]);
+    assert.deepStrictEqual(bob.spans(), alice.spans());
+  });
+
+  it("keeps formats through setText", () => {
+    alice.insertAt(0, "hello world");
+    alice.format(0, 5, "bold", true);
+    alice.setText("hello there world");
+    assert.deepStrictEqual(alice.spans(), [
+      { text: "hello", format: { bold: true } },
+      { text: " there world", format: {} },
+    ]);
+  });
+
+  it("resolves concurrent formats", () => {
+    alice.insertAt(0, "abcdef");
+    deliverAll(aliceMessages, bob);
+
+    alice.format(0, 4, "color", "red");
+    bob.format(2, 6, "color", "blue");
+    deliverAll(aliceMessages, bob);
+    deliverAll(bobMessages, alice);
+    // Same lamport, so the greater replicaID wins.
+    const expected: RichTextCrdtSpan[] = [
+      { text: "ab", format: { color: "red" } },
+      { text: "cdef", format: { color: "blue" } },
+    ];
+    assert.deepStrictEqual(alice.spans(), expected);
+    assert.deepStrictEqual(bob.spans(), expected);
+
+    // A format that has seen another format wins, regardless of replicaID.
+    alice.format(3, 5, "color", "green");
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.formatAt(3), { color: "green" });
+  });
+
+  it("handles unordered and duplicate messages", () => {
+    alice.insertAt(0, "abc");
+    alice.insertAt(3, "def");
+    alice.insertAt(0, "xyz");
+    alice.format(2, 7, "bold", true);
+    alice.deleteAt(0);
+
+    // Marks arrive before the text they refer to, twice.
+    const messages = [...aliceMessages].reverse();
+    deliverAll([...messages], bob);
+    deliverAll(messages, bob);
+    assert.strictEqual(bob.toString(), alice.toString());
+    assert.deepStrictEqual(bob.spans(), alice.spans());
+  });
+
+  it("buffers marks until both ends are known", () => {
+    alice.insertAt(0, "abc");
+    deliverAll(aliceMessages, bob);
+    alice.insertAt(1, "X");
+    const [insertX] = aliceMessages.splice(0);
+    // The mark's end binds to "X", which bob has not received.
+    alice.format(0, 2, "bold", true, "none");
+
+    deliverAll(aliceMessages, bob);
+    assert.deepStrictEqual(bob.spans(), [{ text: "abc", format: {} }]);
+
+    // The buffered mark survives a reload, and is applied once "X" arrives.
+    const charlie = new RichTextCrdt(() => {});
+    charlie.load(bob.save());
+    charlie.receive(insertX);
+    assert.deepStrictEqual(charlie.spans(), [
+      { text: "aX", format: { bold: true } },
+      { text: "bc", format: {} },
+    ]);
+
+    // Likewise if "X" arrives in a saved state without the mark.
+    const dave = new RichTextCrdt(() => {});
+    dave.load(bob.save());
+    dave.receive(insertX);
+    const withoutMark = { ...dave.save(), marks: [], buffer: [] };
+    bob.load(withoutMark);
+    assert.deepStrictEqual(bob.spans(), charlie.spans());
+  });
+
+  it("merges", () => {
+    alice.insertAt(0, "hello world");
+    deliverAll(aliceMessages, bob);
+
+    alice.format(0, 5, "bold", true);
+    alice.insertAt(11, "!");
+    bob.format(6, 11, "italic", true);
+    bob.format(0, 3, "bold", null);
+
+    const charlie = new RichTextCrdt(() => {});
+    charlie.load(alice.save());
+    charlie.load(bob.save());
+    alice.load(bob.save());
+    bob.load(alice.save());
+
+    assert.deepStrictEqual(alice.spans(), [
+      { text: "hel", format: {} },
+      { text: "lo", format: { bold: true } },
+      { text: " ", format: {} },
+      { text: "world!", format: { italic: true } },
+    ]);
+    assert.deepStrictEqual(bob.spans(), alice.spans());
+    assert.deepStrictEqual(charlie.spans(), alice.spans());
+  });
+
+  it("syncs with deltas", () => {
+    alice.insertAt(0, "abc");
+    bob.load(alice.save());
+    alice.format(0, 2, "bold", true);
+    bob.insertAt(3, "d");
+
+    bob.load(alice.saveDelta(bob.summary()));
+    alice.load(bob.saveDelta(alice.summary()));
+    assert.deepStrictEqual(alice.spans(), [
+      { text: "ab", format: { bold: true } },
+      { text: "cd", format: {} },
+    ]);
+    assert.deepStrictEqual(bob.spans(), alice.spans());
+  });
+
+  it("emits Format events when loading after pruning everything", () => {
+    bob.insertAt(0, "old");
+    bob.deleteAt(0, 3);
+    bob.collectGarbage([]);
+    assert.lengthOf(bob.collectGarbage([]), 1);
+
+    alice.insertAt(0, "abc");
+    alice.format(0, 2, "bold", true);
+    const events: RichTextCrdtFormatEvent[] = [];
+    bob.on("Format", (e) => events.push(e));
+    bob.load(alice.save());
+    assert.strictEqual(bob.toString(), "abc");
+    assert.deepStrictEqual(
+      events.map(({ startIndex, endIndex, key }) => [
+        startIndex,
+        endIndex,
+        key,
+      ]),
+      [[0, 2, "bold"]]
+    );
+  });
+
+  it("emits Format events", () => {
+    const events: RichTextCrdtFormatEvent[] = [];
+    bob.on("Format", (e) => events.push(e));
+
+    bob.insertAt(0, "abc");
+    bob.format(0, 2, "bold", true);
+    assert.deepStrictEqual(events, [
+      { startIndex: 0, endIndex: 2, key: "bold", value: true, isLocal: true },
+    ]);
+
+    alice.insertAt(0, "xyz");
+    alice.format(1, 3, "italic", true, "none");
+    deliverAll(aliceMessages, bob);
+    // The concurrent inserts' order is arbitrary.
+    const yz = bob.toString().indexOf("yz");
+    assert.deepStrictEqual(events[1], {
+      startIndex: yz,
+      endIndex: yz + 2,
+      key: "italic",
+      value: true,
+      isLocal: false,
+    });
+
+    // Loading a known mark does not emit an event.
+    events.length = 0;
+    alice.format(0, 1, "bold", true);
+    bob.load(alice.save());
+    const x = bob.toString().indexOf("x");
+    assert.deepStrictEqual(events, [
+      {
+        startIndex: x,
+        endIndex: x + 1,
+        key: "bold",
+        value: true,
+        isLocal: false,
+      },
+    ]);
+  });
+});
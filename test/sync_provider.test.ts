@@ -0,0 +1,216 @@
+import { describe, it } from "mocha";
+import { assert } from "chai";
+import {
+  JsonCrdt,
+  ListCrdt,
+  MemoryTransport,
+  SyncProvider,
+  TextCrdt,
+  WebSocketLike,
+  WebSocketTransport,
+} from "../src";
+
+/**
+ * In-process stand-in for a WebSocket connection through a server: each
+ * socket's sends arrive at its peer, as strings.
+ */
+class FakeWebSocket implements WebSocketLike {
+  readyState = 0;
+  peer: FakeWebSocket | null = null;
+  sent = 0;
+  private readonly listeners = new Map<
+    string,
+    ((event: { data?: unknown }) => void)[]
+  >();
+
+  static connect(): [FakeWebSocket, FakeWebSocket] {
+    const a = new FakeWebSocket();
+    const b = new FakeWebSocket();
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  open(): void {
+    this.readyState = this.peer!.readyState = 1;
+    for (const socket of [this, this.peer!]) socket.dispatch("open", {});
+  }
+
+  send(data: string): void {
+    assert.strictEqual(this.readyState, 1);
+    assert.typeOf(data, "string");
+    this.sent++;
+    this.peer!.dispatch("message", { data });
+  }
+
+  close(): void {
+    this.readyState = this.peer!.readyState = 3;
+    for (const socket of [this, this.peer!]) socket.dispatch("close", {});
+  }
+
+  addEventListener(
+    type: string,
+    listener: (event: { data?: unknown }) => void
+  ): void {
+    const listeners = this.listeners.get(type) ?? [];
+    listeners.push(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  private dispatch(type: string, event: { data?: unknown }): void {
+    for (const listener of this.listeners.get(type) ?? []) listener(event);
+  }
+}
+
+describe("SyncProvider", () => {
+  it("syncs docs over a MemoryTransport", () => {
+    const [transportA, transportB] = MemoryTransport.pair();
+    const alice = new SyncProvider(transportA);
+    const bob = new SyncProvider(transportB);
+
+    const aliceText = alice.add("notes", (send) => new TextCrdt(send));
+    const aliceList = alice.add("todos", (send) => new ListCrdt<string>(send));
+    aliceText.insertAt(0, "hello");
+    aliceList.insertAt(0, "buy milk");
+
+    // Bob's docs catch up in the handshake, then receive messages.
+    const bobText = bob.add("notes", (send) => new TextCrdt(send));
+    const bobList = bob.add("todos", (send) => new ListCrdt<string>(send));
+    assert.strictEqual(bobText.toString(), "hello");
+    assert.deepStrictEqual(bobList.slice(), ["buy milk"]);
+
+    bobText.insertAt(5, " world");
+    aliceList.deleteAt(0);
+    assert.strictEqual(aliceText.toString(), "hello world");
+    assert.deepStrictEqual(bobList.slice(), []);
+    assert.sameMembers(bob.names(), ["notes", "todos"]);
+  });
+
+  it("catches up after reconnecting", () => {
+    const [transportA, transportB] = MemoryTransport.pair();
+    const alice = new SyncProvider(transportA);
+    const bob = new SyncProvider(transportB);
+    const aliceText = alice.add("notes", (send) => new TextCrdt(send));
+    const bobText = bob.add("notes", (send) => new TextCrdt(send));
+
+    aliceText.insertAt(0, "abc");
+    transportA.disconnect();
+    aliceText.insertAt(3, "def");
+    bobText.insertAt(0, "xyz");
+    assert.strictEqual(bobText.toString(), "xyzabc");
+
+    transportA.reconnect();
+    assert.strictEqual(aliceText.toString(), bobText.toString());
+    assert.strictEqual(bobText.toString(), "xyzabcdef");
+  });
+
+  it("sends each doc's state once per connection", () => {
+    const [transportA, transportB] = MemoryTransport.pair({ manual: true });
+    const statesSent: string[] = [];
+    for (const transport of [transportA, transportB]) {
+      const send = transport.send.bind(transport);
+      transport.send = (message) => {
+        if (message.type === "state") statesSent.push(message.name);
+        send(message);
+      };
+    }
+    const alice = new SyncProvider(transportA);
+    const bob = new SyncProvider(transportB);
+    const aliceText = alice.add("notes", (send) => new TextCrdt(send));
+    const bobText = bob.add("notes", (send) => new TextCrdt(send));
+    aliceText.insertAt(0, "a");
+    bobText.insertAt(0, "b");
+
+    // Both hellos cross, and so do the replies.
+    const flush = () => {
+      for (let i = 0; i < 3; i++) {
+        transportA.flush();
+        transportB.flush();
+      }
+    };
+    flush();
+    assert.deepStrictEqual(statesSent, ["notes", "notes"]);
+    assert.strictEqual(aliceText.toString(), bobText.toString());
+
+    // Likewise after reconnecting.
+    transportA.disconnect();
+    aliceText.insertAt(0, "c");
+    statesSent.length = 0;
+    transportA.reconnect();
+    flush();
+    assert.deepStrictEqual(statesSent, ["notes", "notes"]);
+    assert.strictEqual(aliceText.toString(), bobText.toString());
+  });
+
+  it("syncs CRDTs without deltas", () => {
+    const [transportA, transportB] = MemoryTransport.pair({ manual: true });
+    const alice = new SyncProvider(transportA);
+    const bob = new SyncProvider(transportB);
+
+    const aliceDoc = alice.add("doc", (send) => new JsonCrdt(send));
+    aliceDoc.root.set("title", "register");
+    const bobDoc = bob.add("doc", (send) => new JsonCrdt(send));
+    for (let i = 0; i < 3; i++) {
+      transportA.flush();
+      transportB.flush();
+    }
+    assert.deepStrictEqual(bobDoc.toJSON(), aliceDoc.toJSON());
+  });
+
+  it("ignores messages for unknown docs", () => {
+    const [transportA, transportB] = MemoryTransport.pair();
+    const alice = new SyncProvider(transportA);
+    const bob = new SyncProvider(transportB);
+
+    const aliceText = alice.add("notes", (send) => new TextCrdt(send));
+    aliceText.insertAt(0, "hi");
+    assert.deepStrictEqual(bob.names(), []);
+
+    alice.remove("notes");
+    aliceText.insertAt(2, "!");
+    const bobText = bob.add("notes", (send) => new TextCrdt(send));
+    assert.strictEqual(bobText.toString(), "");
+    assert.throws(() => bob.add("notes", (send) => new TextCrdt(send)));
+  });
+
+  it("syncs over a WebSocketTransport", () => {
+    const [socketA, socketB] = FakeWebSocket.connect();
+    const alice = new SyncProvider(new WebSocketTransport(socketA));
+    const bob = new SyncProvider(new WebSocketTransport(socketB));
+    const aliceText = alice.add("notes", (send) => new TextCrdt(send));
+    const bobText = bob.add("notes", (send) => new TextCrdt(send));
+
+    // Not open yet.
+    aliceText.insertAt(0, "hello");
+    assert.strictEqual(socketA.sent, 0);
+
+    socketA.open();
+    assert.strictEqual(bobText.toString(), "hello");
+    bobText.insertAt(0, ">");
+    assert.strictEqual(aliceText.toString(), ">hello");
+
+    // Reconnect with new sockets.
+    socketA.close();
+    aliceText.insertAt(6, "!");
+    const [socketA2, socketB2] = FakeWebSocket.connect();
+    (alice.transport as WebSocketTransport).setSocket(socketA2);
+    (bob.transport as WebSocketTransport).setSocket(socketB2);
+    socketA2.open();
+    assert.strictEqual(bobText.toString(), ">hello!");
+
+    // Invalid JSON is ignored.
+    assert.doesNotThrow(() => socketB2.send("{"));
+    bobText.insertAt(0, ">");
+    assert.strictEqual(aliceText.toString(), ">>hello!");
+
+    // Switching from an open socket closes it.
+    const [socketA3, socketB3] = FakeWebSocket.connect();
+    (alice.transport as WebSocketTransport).setSocket(socketA3);
+    assert.strictEqual(socketA2.readyState, 3);
+    assert.isFalse(bob.transport.isOpen);
+    (bob.transport as WebSocketTransport).setSocket(socketB3);
+    aliceText.insertAt(0, "<");
+    socketA3.open();
+    assert.strictEqual(bobText.toString(), "<>>hello!");
+  });
+});
@@ -0,0 +1,206 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "mocha";
+import { assert } from "chai";
+import {
+  ListCrdt,
+  MemoryDocStore,
+  MemoryTransport,
+  Presence,
+  SyncProvider,
+  SyncServer,
+  TextCrdt,
+  TextCrdtSavedState,
+} from "../src";
+import { FileDocStore } from "../src/file_doc_store";
+
+/**
+ * Connects a new client to server, returning the client's provider and transport.
+ */
+function connectClient(
+  server: SyncServer
+): [provider: SyncProvider, transport: MemoryTransport] {
+  const [clientSide, serverSide] = MemoryTransport.pair();
+  server.connect(serverSide);
+  return [new SyncProvider(clientSide), clientSide];
+}
+
+describe("SyncServer", () => {
+  it("relays messages between clients", () => {
+    const server = new SyncServer();
+    const [alice] = connectClient(server);
+    const [bob] = connectClient(server);
+
+    const aliceText = alice.add("doc", (send) => new TextCrdt(send));
+    aliceText.insertAt(0, "hello");
+    const bobText = bob.add("doc", (send) => new TextCrdt(send));
+    assert.strictEqual(bobText.toString(), "hello");
+
+    bobText.insertAt(5, " world");
+    aliceText.deleteAt(0);
+    assert.strictEqual(aliceText.toString(), "ello world");
+    assert.strictEqual(bobText.toString(), "ello world");
+    assert.strictEqual(
+      (server.getDoc("doc") as TextCrdt).toString(),
+      "ello world"
+    );
+  });
+
+  it("forwards offline edits after reconnecting", () => {
+    const server = new SyncServer();
+    const [alice, aliceTransport] = connectClient(server);
+    const [bob] = connectClient(server);
+    const aliceText = alice.add("doc", (send) => new TextCrdt(send));
+    const bobText = bob.add("doc", (send) => new TextCrdt(send));
+
+    aliceTransport.disconnect();
+    aliceText.insertAt(0, "offline");
+    bobText.insertAt(0, "online ");
+    assert.strictEqual(aliceText.toString(), "offline");
+
+    aliceTransport.reconnect();
+    assert.strictEqual(aliceText.toString(), bobText.toString());
+    assert.include(bobText.toString(), "offline");
+    assert.include(bobText.toString(), "online ");
+  });
+
+  it("persists docs to the store", () => {
+    const store = new MemoryDocStore();
+    const server = new SyncServer({ store });
+    const [alice, aliceTransport] = connectClient(server);
+    alice.add("doc", (send) => new TextCrdt(send)).insertAt(0, "saved");
+
+    // The doc is unloaded and persisted once its last client leaves.
+    aliceTransport.disconnect();
+    assert.isUndefined(server.getDoc("doc"));
+    assert.isDefined(store.get("doc"));
+
+    const server2 = new SyncServer({ store });
+    const [bob] = connectClient(server2);
+    const bobText = bob.add("doc", (send) => new TextCrdt(send));
+    assert.strictEqual(bobText.toString(), "saved");
+  });
+
+  it("does not persist ephemeral docs", () => {
+    const store = new MemoryDocStore();
+    const server = new SyncServer({
+      store,
+      persistDelay: 0,
+      createDoc: () => new Presence(() => {}, { useTimers: false }),
+    });
+    const [alice, aliceTransport] = connectClient(server);
+    const presence = alice.add(
+      "presence",
+      (send) => new Presence(send, { replicaID: "alice", useTimers: false })
+    );
+    presence.setLocalState({ name: "Alice" });
+    const serverPresence = server.getDoc("presence") as Presence;
+    assert.deepStrictEqual(serverPresence.getState("alice"), { name: "Alice" });
+
+    // alice crashes, so she does not remove her state.
+    aliceTransport.disconnect();
+    assert.isUndefined(store.get("presence"));
+
+    // A new client does not see her as a ghost.
+    const [bob] = connectClient(server);
+    const bobPresence = bob.add(
+      "presence",
+      (send) => new Presence(send, { useTimers: false })
+    );
+    assert.isUndefined(bobPresence.getState("alice"));
+  });
+
+  it("batches writes to the store", () => {
+    const store = new MemoryDocStore();
+    let writes = 0;
+    const set = store.set.bind(store);
+    store.set = (docID, savedState) => {
+      writes++;
+      set(docID, savedState);
+    };
+    const server = new SyncServer({ store });
+    const [alice] = connectClient(server);
+    const aliceText = alice.add("doc", (send) => new TextCrdt(send));
+    aliceText.insertAt(0, "a");
+    aliceText.insertAt(1, "b");
+    assert.strictEqual(writes, 0);
+
+    server.flush();
+    assert.strictEqual(writes, 1);
+    const loaded = new TextCrdt(() => {});
+    loaded.load(store.get("doc") as TextCrdtSavedState);
+    assert.strictEqual(loaded.toString(), "ab");
+    server.flush();
+    assert.strictEqual(writes, 1);
+  });
+
+  it("drops a client whose message fails", () => {
+    const errors: unknown[] = [];
+    const server = new SyncServer({ onError: (error) => errors.push(error) });
+    const [alice] = connectClient(server);
+    const [bob] = connectClient(server);
+    const aliceText = alice.add("doc", (send) => new TextCrdt(send));
+    const bobText = bob.add("doc", (send) => new TextCrdt(send));
+
+    const [malloryTransport, serverSide] = MemoryTransport.pair();
+    server.connect(serverSide);
+    const mallory = new SyncProvider(malloryTransport);
+    const malloryText = mallory.add("doc", (send) => new TextCrdt(send));
+    malloryTransport.send({
+      type: "message",
+      name: "doc",
+      message: { type: "bogus" },
+    });
+    assert.lengthOf(errors, 1);
+
+    // The others keep syncing, without mallory.
+    aliceText.insertAt(0, "hi");
+    assert.strictEqual(bobText.toString(), "hi");
+    assert.strictEqual(malloryText.toString(), "");
+  });
+
+  it("serves other CRDT types", () => {
+    const server = new SyncServer({
+      createDoc: () => new ListCrdt<number>(() => {}),
+    });
+    const [alice] = connectClient(server);
+    const [bob] = connectClient(server);
+
+    const aliceList = alice.add("list", (send) => new ListCrdt<number>(send));
+    const bobList = bob.add("list", (send) => new ListCrdt<number>(send));
+    aliceList.insertAt(0, 1, 2, 3);
+    bobList.moveAt(0, 3);
+    assert.deepStrictEqual(aliceList.slice(), [2, 3, 1]);
+  });
+
+  describe("FileDocStore", () => {
+    let dir!: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "doc-store-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("stores saved states in files", () => {
+      const store = new FileDocStore(path.join(dir, "docs"));
+      assert.isUndefined(store.get("a/b"));
+
+      const server = new SyncServer({ store });
+      const [alice] = connectClient(server);
+      alice.add("a/b", (send) => new TextCrdt(send)).insertAt(0, "on disk");
+      server.flush();
+
+      const store2 = new FileDocStore(path.join(dir, "docs"));
+      const text = new TextCrdt(() => {});
+      text.load(store2.get("a/b") as TextCrdtSavedState);
+      assert.strictEqual(text.toString(), "on disk");
+      assert.deepStrictEqual(fs.readdirSync(path.join(dir, "docs")), [
+        "a%2Fb.json",
+      ]);
+    });
+  });
+});
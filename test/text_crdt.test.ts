@@ -1,6 +1,11 @@
 import { describe } from "mocha";
 import { assert } from "chai";
-import { TextCrdt, TextCrdtMessage } from "../src";
+import {
+  TextCrdt,
+  TextCrdtCursor,
+  TextCrdtMessage,
+  TextCrdtSetMessage,
+} from "../src";
 
 describe("TextCrdt", () => {
   let alice!: TextCrdt;
@@ -222,6 +227,38 @@ describe("TextCrdt", () => {
     assert.strictEqual(bob.toString(), "999888777666555444333222111000");
   });
 
+  it("buffers a long dependency chain", () => {
+    // A chain of bunches, each the child of the previous one, as if each
+    // char were typed in a separate session and then deleted (except the last).
+    // We construct the messages directly because creating such a deep
+    // chain through insertAt is slow.
+    const depth = 100000;
+    const ms: TextCrdtSetMessage[] = [];
+    for (let i = 0; i < depth; i++) {
+      const bunchID = `b${i}`;
+      ms.push({
+        type: "set",
+        startPos: { bunchID, innerIndex: 0 },
+        chars: "x",
+        meta: { bunchID, parentID: i === 0 ? "ROOT" : `b${i - 1}`, offset: 1 },
+      });
+    }
+    bob.receive({
+      type: "delete",
+      items: ms.slice(0, -1).map((m) => [m.startPos, 1]),
+    });
+
+    // Deliver in reverse order, so that every message is buffered until
+    // the last one unblocks the whole chain.
+    for (let i = depth - 1; i > 0; i--) bob.receive(ms[i]);
+    assert.strictEqual(bob.toString(), "");
+    bob.receive(ms[0]);
+    assert.strictEqual(bob.toString(), "x");
+
+    // Buffer should be empty now.
+    assert.deepStrictEqual(bob.save().buffer, []);
+  }).timeout(10000);
+
   it("skips redundant messages after reload", () => {
     alice.insertAt(0, "a");
     const m1 = getAliceMessage();
@@ -322,6 +359,39 @@ describe("TextCrdt", () => {
     assert.strictEqual(alice.toString(), "fgabcde");
   });
 
+  it("merges partially seen bunches", () => {
+    alice.insertAt(0, "abcdef");
+    bob.receive(getAliceMessage());
+
+    // Extend the same bunch, then delete across old and new positions.
+    alice.insertAt(6, "ghij");
+    const m1 = getAliceMessage();
+    alice.deleteAt(4, 4);
+    const m2 = getAliceMessage();
+    assert.strictEqual(alice.toString(), "abcdij");
+
+    // Bob learns of the deletion but not the insertion,
+    // then deletes some chars of his own.
+    bob.receive(m2);
+    assert.strictEqual(bob.toString(), "abcd");
+    bob.deleteAt(1, 2);
+    assert.strictEqual(bob.toString(), "ad");
+
+    const bobSave = bob.save();
+    bob.load(alice.save());
+    alice.load(bobSave);
+    assert.strictEqual(alice.toString(), "adij");
+    assert.strictEqual(bob.toString(), "adij");
+
+    // The original messages are redundant.
+    for (const m of [m1, m2]) {
+      alice.receive(m);
+      bob.receive(m);
+    }
+    assert.strictEqual(alice.toString(), "adij");
+    assert.strictEqual(bob.toString(), "adij");
+  });
+
   it("merges buffered messages", () => {
     alice.insertAt(0, "abcde");
     bob.receive(getAliceMessage());
@@ -345,4 +415,700 @@ describe("TextCrdt", () => {
     bob.load(alice.save());
     assert.strictEqual(bob.toString(), "abfikghcde");
   });
+
+  describe("events", () => {
+    /**
+     * Returns a string that mirrors crdt's state using only its events,
+     * plus a log of the events' isLocal flags.
+     */
+    function mirror(crdt: TextCrdt) {
+      const state = { text: crdt.toString(), isLocals: [] as boolean[] };
+      crdt.on("Insert", (e) => {
+        assert.strictEqual(
+          crdt.slice(e.index, e.index + e.chars.length),
+          e.chars
+        );
+        state.text =
+          state.text.slice(0, e.index) + e.chars + state.text.slice(e.index);
+        state.isLocals.push(e.isLocal);
+      });
+      crdt.on("Delete", (e) => {
+        assert.strictEqual(
+          state.text.slice(e.index, e.index + e.chars.length),
+          e.chars
+        );
+        state.text =
+          state.text.slice(0, e.index) +
+          state.text.slice(e.index + e.chars.length);
+        state.isLocals.push(e.isLocal);
+      });
+      return state;
+    }
+
+    it("local ops", () => {
+      const aliceMirror = mirror(alice);
+      alice.insertAt(0, "abcde");
+      alice.insertAt(2, "xy");
+      alice.deleteAt(1, 5);
+      alice.deleteAt(0);
+      assert.strictEqual(aliceMirror.text, alice.toString());
+      assert.strictEqual(aliceMirror.text, "e");
+      // deleteAt(1, 5) deletes 3 items: "b", "xy", "cd".
+      assert.deepStrictEqual(aliceMirror.isLocals, [
+        true,
+        true,
+        true,
+        true,
+        true,
+        true,
+      ]);
+    });
+
+    it("remote ops", () => {
+      const bobMirror = mirror(bob);
+      alice.insertAt(0, "abcde");
+      bob.receive(getAliceMessage());
+      alice.insertAt(2, "xy");
+      bob.receive(getAliceMessage());
+      alice.deleteAt(1, 5);
+      bob.receive(getAliceMessage());
+      assert.strictEqual(bobMirror.text, bob.toString());
+      assert.strictEqual(bobMirror.text, "ae");
+      assert.isTrue(bobMirror.isLocals.every((isLocal) => !isLocal));
+    });
+
+    it("unordered ops", () => {
+      const bobMirror = mirror(bob);
+      alice.insertAt(0, "abcde");
+      const m1 = getAliceMessage();
+      alice.insertAt(2, "xy");
+      const m2 = getAliceMessage();
+      alice.deleteAt(3, 3);
+      const m3 = getAliceMessage();
+      alice.insertAt(0, "z");
+      const m4 = getAliceMessage();
+
+      // Buffered until m1 arrives.
+      bob.receive(m4);
+      bob.receive(m3);
+      bob.receive(m2);
+      assert.strictEqual(bobMirror.text, "");
+
+      // Releases the buffered messages.
+      bob.receive(m1);
+      assert.strictEqual(bobMirror.text, bob.toString());
+      assert.strictEqual(bobMirror.text, "zabxe");
+    });
+
+    it("partial inserts", () => {
+      alice.insertAt(0, "a");
+      bob.receive(getAliceMessage());
+      const bobMirror = mirror(bob);
+
+      alice.insertAt(1, "bcdef");
+      const m1 = getAliceMessage();
+      alice.insertAt(3, "xy");
+      const m2 = getAliceMessage();
+      alice.deleteAt(5, 2);
+      const m3 = getAliceMessage();
+      assert.strictEqual(alice.toString(), "abcxyf");
+
+      bob.receive(m3);
+      bob.receive(m2);
+      bob.receive(m1);
+      assert.strictEqual(bobMirror.text, bob.toString());
+      assert.strictEqual(bobMirror.text, "abcxyf");
+    });
+
+    it("merges", () => {
+      alice.insertAt(0, "abcde");
+      bob.receive(getAliceMessage());
+      const aliceMirror = mirror(alice);
+
+      bob.deleteAt(1, 2);
+      bob.insertAt(0, "xy");
+      bob.insertAt(5, "z");
+      alice.insertAt(5, "w");
+      alice.deleteAt(4);
+
+      alice.load(bob.save());
+      assert.strictEqual(aliceMirror.text, alice.toString());
+      assert.strictEqual(aliceMirror.text, "xyadzw");
+      assert.deepStrictEqual(aliceMirror.isLocals, [
+        true,
+        true,
+        false,
+        false,
+        false,
+      ]);
+    });
+  });
+
+  describe("delta sync", () => {
+    /**
+     * Syncs both ways using deltas.
+     */
+    function syncDeltas(a: TextCrdt, b: TextCrdt) {
+      const aDelta = a.saveDelta(b.summary());
+      const bDelta = b.saveDelta(a.summary());
+      b.load(aDelta);
+      a.load(bDelta);
+    }
+
+    it("sends only missing values", () => {
+      alice.insertAt(0, "abcdef");
+      bob.receive(getAliceMessage());
+
+      alice.insertAt(3, "xy");
+      bob.insertAt(6, "z");
+
+      const delta = alice.saveDelta(bob.summary());
+      assert.deepStrictEqual(Object.values(delta.text).flat(), ["xy"]);
+
+      syncDeltas(alice, bob);
+      assert.strictEqual(alice.toString(), "abcxydefz");
+      assert.strictEqual(bob.toString(), alice.toString());
+    });
+
+    it("sends deletions", () => {
+      alice.insertAt(0, "abcdef");
+      bob.receive(getAliceMessage());
+
+      alice.deleteAt(1, 2);
+      bob.deleteAt(4);
+      // New positions that are already deleted.
+      alice.insertAt(0, "xyz");
+      alice.deleteAt(0, 3);
+
+      syncDeltas(alice, bob);
+      assert.strictEqual(alice.toString(), "adf");
+      assert.strictEqual(bob.toString(), alice.toString());
+
+      // The original messages are redundant.
+      bob.receive(getAliceMessage());
+      assert.strictEqual(bob.toString(), "adf");
+    });
+
+    it("sends metas for delete-only bunches", () => {
+      alice.insertAt(0, "abc");
+      const m1 = getAliceMessage();
+      alice.deleteAt(1);
+      bob.receive(getAliceMessage());
+      assert.deepStrictEqual(bob.summary().unknownMetas, [
+        (m1 as TextCrdtSetMessage).startPos.bunchID,
+      ]);
+
+      bob.load(alice.saveDelta(bob.summary()));
+      assert.strictEqual(bob.toString(), "ac");
+      assert.deepStrictEqual(bob.summary().unknownMetas, []);
+    });
+
+    it("matches a full load", () => {
+      alice.insertAt(0, "abcdef");
+      bob.receive(getAliceMessage());
+      alice.insertAt(2, "ghi");
+      alice.deleteAt(4, 3);
+      bob.insertAt(0, "jk");
+
+      const charlie = new TextCrdt(() => {});
+      charlie.load(bob.save());
+      charlie.load(alice.save());
+
+      bob.load(alice.saveDelta(bob.summary()));
+      assert.strictEqual(bob.toString(), charlie.toString());
+      assert.deepStrictEqual(bob.save(), charlie.save());
+
+      // A fresh replica's delta is the full state.
+      const dave = new TextCrdt(() => {});
+      dave.load(bob.saveDelta(dave.summary()));
+      assert.strictEqual(dave.toString(), bob.toString());
+    });
+  });
+
+  describe("cursors", () => {
+    it("keeps its place despite remote edits", () => {
+      alice.insertAt(0, "hello world");
+      bob.receive(getAliceMessage());
+      const cursor = alice.cursorAt(5);
+
+      bob.insertAt(0, ">> ");
+      alice.receive(getBobMessage());
+      assert.strictEqual(alice.indexOfCursor(cursor), 8);
+      // Deleting the char that the cursor binds to.
+      bob.deleteAt(7, 3);
+      alice.receive(getBobMessage());
+      assert.strictEqual(alice.toString(), ">> hellorld");
+      assert.strictEqual(alice.indexOfCursor(cursor), 7);
+
+      // Serialized cursors work on other replicas.
+      const remote = JSON.parse(JSON.stringify(cursor)) as TextCrdtCursor;
+      assert.strictEqual(bob.indexOfCursor(remote), 7);
+    });
+
+    it("binds left or right", () => {
+      alice.insertAt(0, "ac");
+      bob.receive(getAliceMessage());
+      const left = alice.cursorAt(1);
+      const right = alice.cursorAt(1, "right");
+      assert.strictEqual(alice.indexOfCursor(left), 1);
+      assert.strictEqual(alice.indexOfCursor(right), 1);
+
+      bob.insertAt(1, "b");
+      alice.receive(getBobMessage());
+      assert.strictEqual(alice.indexOfCursor(left), 1);
+      assert.strictEqual(alice.indexOfCursor(right), 2);
+
+      // At deleted chars, the cursor moves to where its char was.
+      alice.deleteAt(0);
+      assert.strictEqual(alice.indexOfCursor(left), 0);
+      assert.strictEqual(alice.indexOfCursor(right), 1);
+      alice.deleteAt(1);
+      assert.strictEqual(alice.indexOfCursor(left), 0);
+      assert.strictEqual(alice.indexOfCursor(right), 1);
+    });
+
+    it("handles the ends of the text", () => {
+      const start = alice.cursorAt(0);
+      const end = alice.cursorAt(0, "right");
+      alice.insertAt(0, "abc");
+      assert.strictEqual(alice.indexOfCursor(start), 0);
+      assert.strictEqual(alice.indexOfCursor(end), 3);
+      assert.throws(() => alice.cursorAt(4));
+    });
+
+    it("tracks selections", () => {
+      alice.insertAt(0, "abcdef");
+      bob.receive(getAliceMessage());
+      const forward = alice.selectionAt(1, 4);
+      const backward = alice.selectionAt(4, 1);
+      const caret = alice.selectionAt(2, 2);
+
+      // Text typed just outside the selection is not selected.
+      bob.insertAt(4, "X");
+      alice.receive(getBobMessage());
+      bob.insertAt(1, "Y");
+      alice.receive(getBobMessage());
+      assert.strictEqual(alice.toString(), "aYbcdXef");
+      assert.deepStrictEqual(alice.indexOfSelection(forward), {
+        anchor: 2,
+        head: 5,
+      });
+      assert.deepStrictEqual(alice.indexOfSelection(backward), {
+        anchor: 5,
+        head: 2,
+      });
+      assert.deepStrictEqual(alice.indexOfSelection(caret), {
+        anchor: 3,
+        head: 3,
+      });
+
+      // Deleting the selected text collapses the selection.
+      alice.deleteAt(2, 3);
+      assert.deepStrictEqual(alice.indexOfSelection(forward), {
+        anchor: 2,
+        head: 2,
+      });
+      assert.deepStrictEqual(alice.indexOfSelection(backward), {
+        anchor: 2,
+        head: 2,
+      });
+    });
+  });
+
+  describe("versions", () => {
+    it("reconstructs tagged versions", () => {
+      alice.insertAt(0, "hello world");
+      bob.receive(getAliceMessage());
+      alice.tagVersion("v1");
+
+      alice.deleteAt(0, 6);
+      alice.insertAt(5, "!");
+      bob.insertAt(0, ">");
+      alice.receive(getBobMessage());
+      alice.tagVersion("v2");
+      alice.deleteAt(0, 7);
+
+      assert.strictEqual(alice.toString(), "");
+      assert.strictEqual(alice.toStringAtVersion("v1"), "hello world");
+      assert.strictEqual(alice.toStringAtVersion("v2"), ">world!");
+      assert.sameMembers(alice.versionTags(), ["v1", "v2"]);
+      assert.throws(() => alice.toStringAtVersion("v3"));
+    });
+
+    it("diffs versions", () => {
+      alice.insertAt(0, "abcdef");
+      alice.tagVersion("v1");
+      alice.deleteAt(1, 2);
+      alice.insertAt(3, "xy");
+      alice.tagVersion("v2");
+
+      const diff = alice.diffVersions("v1", "v2");
+      assert.deepStrictEqual(diff, [
+        { type: "delete", index: 1, values: ["b", "c"] },
+        { type: "insert", index: 3, values: ["x", "y"] },
+      ]);
+
+      // Applying the diff to v1 yields v2.
+      const values = [...alice.toStringAtVersion("v1")];
+      for (const step of diff) {
+        if (step.type === "insert")
+          values.splice(step.index, 0, ...step.values);
+        else values.splice(step.index, step.values.length);
+      }
+      assert.strictEqual(values.join(""), alice.toStringAtVersion("v2"));
+      assert.deepStrictEqual(alice.diffVersions("v2", "v2"), []);
+    });
+
+    it("saves and loads versions", () => {
+      alice.insertAt(0, "abc");
+      alice.tagVersion("v1");
+      alice.deleteAt(0, 3);
+      alice.insertAt(0, "def");
+      alice.tagVersion("v2");
+
+      const charlie = new TextCrdt(() => {});
+      charlie.load(alice.save());
+      charlie.loadVersions(
+        JSON.parse(JSON.stringify(alice.saveVersions())) as ReturnType<
+          TextCrdt["saveVersions"]
+        >
+      );
+      assert.strictEqual(charlie.toStringAtVersion("v1"), "abc");
+      assert.strictEqual(charlie.toStringAtVersion("v2"), "def");
+
+      // Untagging frees archived values.
+      alice.untagVersion("v1");
+      assert.deepStrictEqual(alice.saveVersions().archive, {});
+    });
+  });
+
+  describe("garbage collection", () => {
+    let bobBunchID!: string;
+
+    beforeEach(() => {
+      alice.insertAt(0, "abc");
+      bob.receive(getAliceMessage());
+      bob.insertAt(3, "xyz");
+      const bobSet = getBobMessage() as TextCrdtSetMessage;
+      bobBunchID = bobSet.startPos.bunchID;
+      alice.receive(bobSet);
+      bob.deleteAt(3, 3);
+      alice.receive(getBobMessage());
+    });
+
+    it("prunes fully deleted bunches after two rounds", () => {
+      assert.deepStrictEqual(alice.collectGarbage([bob.versionVector()]), []);
+      // Not yet acknowledged.
+      assert.deepStrictEqual(alice.collectGarbage([{}]), []);
+      assert.deepStrictEqual(alice.collectGarbage([bob.versionVector()]), [
+        bobBunchID,
+      ]);
+
+      const savedState = alice.save();
+      assert.strictEqual(alice.toString(), "abc");
+      assert.deepStrictEqual(savedState.pruned, [bobBunchID]);
+      assert.isUndefined(savedState.seen[bobBunchID]);
+      assert.notInclude(
+        savedState.order.map((meta) => meta.bunchID),
+        bobBunchID
+      );
+
+      const charlie = new TextCrdt(() => {});
+      charlie.load(savedState);
+      assert.strictEqual(charlie.toString(), "abc");
+      assert.deepStrictEqual(charlie.save(), savedState);
+
+      // Merging a state that still has the bunch leaves it pruned.
+      charlie.load(bob.save());
+      assert.deepStrictEqual(charlie.save().pruned, [bobBunchID]);
+      assert.strictEqual(charlie.toString(), "abc");
+    });
+
+    it("merges with events after pruning everything", () => {
+      const dave = new TextCrdt(() => {});
+      dave.insertAt(0, "hello");
+      dave.deleteAt(0, 5);
+      dave.collectGarbage([]);
+      assert.lengthOf(dave.collectGarbage([]), 1);
+      assert.deepStrictEqual(dave.save().seen, {});
+
+      let inserted = "";
+      dave.on("Insert", (e) => (inserted += e.chars));
+      dave.load(alice.save());
+      assert.strictEqual(dave.toString(), "abc");
+      assert.strictEqual(inserted, "abc");
+    });
+
+    it("keeps bunches that gain content", () => {
+      alice.collectGarbage([bob.versionVector()]);
+      // Bob inserts next to the deleted chars concurrently.
+      bob.insertAfterPosition({ bunchID: bobBunchID, innerIndex: 2 }, "!");
+      alice.receive(getBobMessage());
+      assert.deepStrictEqual(alice.collectGarbage([bob.versionVector()]), []);
+      assert.strictEqual(alice.toString(), "abc!");
+    });
+
+    it("rejects messages that refer to pruned bunches", () => {
+      alice.collectGarbage([bob.versionVector()]);
+      alice.collectGarbage([bob.versionVector()]);
+
+      bob.insertAfterPosition({ bunchID: bobBunchID, innerIndex: 0 }, "!");
+      const message = getBobMessage();
+      assert.throws(() => alice.receive(message), /pruned/);
+      assert.strictEqual(alice.toString(), "abc");
+      assert.throws(
+        () =>
+          alice.insertAfterPosition(
+            { bunchID: bobBunchID, innerIndex: 0 },
+            "!"
+          ),
+        /pruned/
+      );
+    });
+  });
+
+  describe("transactions", () => {
+    /**
+     * Returns a string that mirrors crdt's state using only its Transaction
+     * events, which must be the only events.
+     */
+    function mirror(crdt: TextCrdt) {
+      const state = { text: crdt.toString(), transactions: 0 };
+      crdt.on("Insert", () => assert.fail("Unexpected Insert event"));
+      crdt.on("Delete", () => assert.fail("Unexpected Delete event"));
+      crdt.on("Transaction", (e) => {
+        state.transactions++;
+        for (const { name, event } of e.events) {
+          assert.strictEqual(event.isLocal, e.isLocal);
+          if (name === "Insert") {
+            state.text =
+              state.text.slice(0, event.index) +
+              event.chars +
+              state.text.slice(event.index);
+          } else {
+            assert.strictEqual(
+              state.text.slice(event.index, event.index + event.chars.length),
+              event.chars
+            );
+            state.text =
+              state.text.slice(0, event.index) +
+              state.text.slice(event.index + event.chars.length);
+          }
+        }
+      });
+      return state;
+    }
+
+    it("sends one message with one event", () => {
+      alice.insertAt(0, "hello world");
+      bob.receive(getAliceMessage());
+
+      const aliceMirror = mirror(alice);
+      const bobMirror = mirror(bob);
+      alice.transact(() => {
+        alice.deleteAt(6, 5);
+        alice.insertAt(6, "there");
+        alice.insertAt(0, ">");
+      });
+      assert.strictEqual(alice.toString(), ">hello there");
+      assert.strictEqual(aliceMirror.text, alice.toString());
+      assert.strictEqual(aliceMirror.transactions, 1);
+
+      const message = getAliceMessage();
+      assert.strictEqual(message.type, "transaction");
+      bob.receive(message);
+      assert.strictEqual(bob.toString(), ">hello there");
+      assert.strictEqual(bobMirror.text, bob.toString());
+      assert.strictEqual(bobMirror.transactions, 1);
+
+      // Redundant.
+      bob.receive(message);
+      assert.strictEqual(bobMirror.transactions, 1);
+    });
+
+    it("nests", () => {
+      alice.transact(() => {
+        alice.insertAt(0, "ac");
+        alice.transact(() => alice.insertAt(1, "b"));
+        alice.transact(() => {});
+      });
+      const message = getAliceMessage();
+      assert.strictEqual(message.type, "transaction");
+      bob.receive(message);
+      assert.strictEqual(bob.toString(), "abc");
+
+      // An empty transaction sends nothing.
+      alice.transact(() => {});
+      assert.throws(() => getAliceMessage());
+    });
+
+    it("sends operations before an error", () => {
+      assert.throws(() =>
+        alice.transact(() => {
+          alice.insertAt(0, "abc");
+          throw new Error("oops");
+        })
+      );
+      bob.receive(getAliceMessage());
+      assert.strictEqual(bob.toString(), "abc");
+      alice.insertAt(3, "d");
+      bob.receive(getAliceMessage());
+      assert.strictEqual(bob.toString(), "abcd");
+    });
+
+    it("buffers parts with missing deps", () => {
+      const charlie = new TextCrdt(() => {});
+      alice.insertAt(0, "abc");
+      const m1 = getAliceMessage();
+      bob.receive(m1);
+      charlie.receive(m1);
+      // A new bunch that charlie doesn't know.
+      alice.insertAt(1, "de");
+      const m2 = getAliceMessage();
+      bob.receive(m2);
+
+      bob.transact(() => {
+        bob.insertAt(2, "X");
+        bob.deleteAt(0);
+      });
+      assert.strictEqual(bob.toString(), "dXebc");
+
+      // Charlie applies the delete now, and buffers the insert.
+      const events: string[] = [];
+      charlie.on("Transaction", (e) =>
+        events.push(...e.events.map(({ name }) => name))
+      );
+      charlie.on("Insert", (e) => events.push(`Insert ${e.chars}`));
+      charlie.receive(getBobMessage());
+      assert.strictEqual(charlie.toString(), "bc");
+      assert.deepStrictEqual(events, ["Delete"]);
+      assert.deepStrictEqual(
+        charlie.save().buffer.map((message) => message.type),
+        ["set"]
+      );
+
+      charlie.receive(m2);
+      assert.strictEqual(charlie.toString(), "dXebc");
+      assert.deepStrictEqual(events, ["Delete", "Insert de", "Insert X"]);
+      assert.deepStrictEqual(charlie.save().buffer, []);
+    });
+  });
+
+  describe("positions", () => {
+    it("converts between indices and Positions", () => {
+      alice.insertAt(0, "hello world");
+      bob.receive(getAliceMessage());
+      assert.strictEqual(alice.length, 11);
+
+      // Pin "world" despite a concurrent insert before it.
+      const start = alice.positionAt(6);
+      const end = alice.positionAt(10);
+      bob.insertAt(0, ">> ");
+      alice.receive(getBobMessage());
+      assert.strictEqual(alice.length, 14);
+      assert.strictEqual(alice.indexOfPosition(start), 9);
+      assert.strictEqual(alice.get(start), "w");
+      assert.strictEqual(
+        alice.slice(
+          alice.indexOfPosition(start),
+          alice.indexOfPosition(end) + 1
+        ),
+        "world"
+      );
+
+      // Once deleted, searchDir chooses a neighbor.
+      alice.deleteAt(9, 5);
+      assert.isFalse(alice.has(start));
+      assert.isTrue(alice.hasSeen(start));
+      assert.isUndefined(alice.get(start));
+      assert.strictEqual(alice.indexOfPosition(start), -1);
+      assert.strictEqual(alice.indexOfPosition(start, "left"), 8);
+      assert.strictEqual(alice.indexOfPosition(end, "right"), 9);
+    });
+
+    it("returns false for unknown bunches", () => {
+      alice.insertAt(0, "abc");
+      const pos = alice.positionAt(1);
+      assert.isFalse(bob.has(pos));
+      assert.isFalse(bob.hasSeen(pos));
+      assert.isUndefined(bob.get(pos));
+      assert.throws(() => bob.indexOfPosition(pos));
+
+      bob.receive(getAliceMessage());
+      assert.isTrue(bob.has(pos));
+      assert.strictEqual(bob.get(pos), "b");
+    });
+
+    it("iterates entries", () => {
+      alice.insertAt(0, "ace");
+      alice.insertAt(1, "b");
+      alice.insertAt(3, "d");
+      const entries = [...alice.entries()];
+      assert.deepStrictEqual(
+        entries.map(([, char]) => char),
+        [..."abcde"]
+      );
+      entries.forEach(([pos], i) => {
+        assert.deepStrictEqual(pos, alice.positionAt(i));
+      });
+      assert.deepStrictEqual([...alice.entries(1, 3)], entries.slice(1, 3));
+    });
+  });
+
+  describe("setText", () => {
+    it("makes minimal edits", () => {
+      alice.insertAt(0, "the quick brown fox");
+      bob.receive(getAliceMessage());
+
+      const events: string[] = [];
+      alice.on("Insert", (e) => events.push(`Insert ${e.index} ${e.chars}`));
+      alice.on("Delete", (e) => events.push(`Delete ${e.index} ${e.chars}`));
+      alice.setText("the slow brown cat!");
+      assert.strictEqual(alice.toString(), "the slow brown cat!");
+      assert.deepStrictEqual(events, [
+        "Delete 16 fox",
+        "Insert 16 cat!",
+        "Delete 4 quick",
+        "Insert 4 slow",
+      ]);
+
+      // Unchanged.
+      events.length = 0;
+      alice.setText(alice.toString());
+      assert.deepStrictEqual(events, []);
+    });
+
+    it("preserves concurrent edits", () => {
+      alice.insertAt(0, "hello world");
+      bob.receive(getAliceMessage());
+
+      alice.transact(() => alice.setText("hello there world"));
+      bob.insertAt(11, "!");
+      bob.receive(getAliceMessage());
+      alice.receive(getBobMessage());
+      assert.strictEqual(alice.toString(), "hello there world!");
+      assert.strictEqual(bob.toString(), alice.toString());
+    });
+
+    it("replaces large texts in one hunk", () => {
+      alice.insertAt(0, "a".repeat(2000));
+      const events: string[] = [];
+      alice.on("Insert", (e) =>
+        events.push(`Insert ${e.index} ${e.chars.length}`)
+      );
+      alice.on("Delete", (e) =>
+        events.push(`Delete ${e.index} ${e.chars.length}`)
+      );
+      alice.setText("b".repeat(2000));
+      assert.strictEqual(alice.toString(), "b".repeat(2000));
+      assert.deepStrictEqual(events, ["Delete 0 2000", "Insert 0 2000"]);
+    });
+
+    it("handles empty text", () => {
+      alice.setText("abc");
+      assert.strictEqual(alice.toString(), "abc");
+      alice.setText("");
+      assert.strictEqual(alice.toString(), "");
+    });
+  });
 });
@@ -0,0 +1,203 @@
+import { describe } from "mocha";
+import { assert } from "chai";
+import {
+  ListCrdt,
+  ListCrdtMessage,
+  TextCrdt,
+  TextCrdtMessage,
+  UndoManager,
+} from "../src";
+
+describe("UndoManager", () => {
+  let aliceMessages!: TextCrdtMessage[];
+  let bobMessages!: TextCrdtMessage[];
+  let alice!: TextCrdt;
+  let bob!: TextCrdt;
+  let undo!: UndoManager<string>;
+
+  beforeEach(() => {
+    aliceMessages = [];
+    alice = new TextCrdt((message) => aliceMessages.push(message));
+    bobMessages = [];
+    bob = new TextCrdt((message) => bobMessages.push(message));
+    undo = new UndoManager(alice);
+  });
+
+  /**
+   * Delivers all messages in the given array to to, in order, then clears it.
+   */
+  function deliverAll(messages: TextCrdtMessage[], to: TextCrdt) {
+    for (const message of messages) to.receive(message);
+    messages.length = 0;
+  }
+
+  it("undoes and redoes inserts", () => {
+    alice.insertAt(0, "hello");
+    undo.stopCapturing();
+    alice.insertAt(5, " world");
+
+    assert.isTrue(undo.undo());
+    assert.strictEqual(alice.toString(), "hello");
+    assert.isTrue(undo.undo());
+    assert.strictEqual(alice.toString(), "");
+    assert.isFalse(undo.canUndo);
+    assert.isFalse(undo.undo());
+
+    assert.isTrue(undo.redo());
+    assert.strictEqual(alice.toString(), "hello");
+    assert.isTrue(undo.redo());
+    assert.strictEqual(alice.toString(), "hello world");
+    assert.isFalse(undo.redo());
+  });
+
+  it("undoes and redoes deletes", () => {
+    alice.insertAt(0, "hello world");
+    undo.stopCapturing();
+    alice.deleteAt(2, 6);
+    assert.strictEqual(alice.toString(), "herld");
+
+    undo.undo();
+    assert.strictEqual(alice.toString(), "hello world");
+    undo.redo();
+    assert.strictEqual(alice.toString(), "herld");
+    undo.undo();
+    assert.strictEqual(alice.toString(), "hello world");
+
+    // Undoing the insert also deletes the restored chars.
+    undo.undo();
+    assert.strictEqual(alice.toString(), "");
+    undo.redo();
+    undo.redo();
+    assert.strictEqual(alice.toString(), "herld");
+  });
+
+  it("groups consecutive typing", () => {
+    for (const char of "abc") alice.insertAt(alice.toString().length, char);
+    alice.deleteAt(2);
+    alice.deleteAt(1);
+    undo.stopCapturing();
+    alice.insertAt(1, "xy");
+
+    undo.undo();
+    assert.strictEqual(alice.toString(), "a");
+    undo.undo();
+    assert.strictEqual(alice.toString(), "abc");
+    undo.undo();
+    assert.strictEqual(alice.toString(), "");
+  });
+
+  it("groups operations within captureTimeout", () => {
+    let time = 0;
+    undo.dispose();
+    undo = new UndoManager(alice, { captureTimeout: 500, now: () => time });
+    alice.insertAt(0, "a");
+    time = 500;
+    alice.insertAt(1, "b");
+    time = 1001;
+    alice.insertAt(2, "c");
+    assert.strictEqual(alice.toString(), "abc");
+
+    undo.undo();
+    assert.strictEqual(alice.toString(), "ab");
+    undo.undo();
+    assert.strictEqual(alice.toString(), "");
+  });
+
+  it("clears redo on a new operation", () => {
+    alice.insertAt(0, "abc");
+    undo.undo();
+    assert.isTrue(undo.canRedo);
+    alice.insertAt(0, "x");
+    assert.isFalse(undo.canRedo);
+  });
+
+  it("ignores remote operations", () => {
+    alice.insertAt(0, "abc");
+    deliverAll(aliceMessages, bob);
+    bob.insertAt(1, "xy");
+    bob.deleteAt(4);
+    deliverAll(bobMessages, alice);
+    assert.strictEqual(alice.toString(), "axyb");
+
+    undo.undo();
+    assert.strictEqual(alice.toString(), "xy");
+    assert.isFalse(undo.canUndo);
+  });
+
+  it("restores deletes in place despite concurrent edits", () => {
+    alice.insertAt(0, "hello world");
+    deliverAll(aliceMessages, bob);
+    undo.stopCapturing();
+    alice.deleteAt(5, 6);
+    deliverAll(aliceMessages, bob);
+
+    bob.insertAt(0, ">> ");
+    bob.insertAt(8, "!");
+    deliverAll(bobMessages, alice);
+    assert.strictEqual(alice.toString(), ">> hello!");
+
+    // " world" goes back after "hello", which is before "!" in the list order.
+    undo.undo();
+    assert.strictEqual(alice.toString(), ">> hello! world");
+    deliverAll(aliceMessages, bob);
+    assert.strictEqual(bob.toString(), alice.toString());
+
+    // Redo deletes only the restored chars.
+    undo.redo();
+    deliverAll(aliceMessages, bob);
+    assert.strictEqual(bob.toString(), ">> hello!");
+  });
+
+  it("does not touch concurrent inserts when undoing inserts", () => {
+    alice.insertAt(0, "abc");
+    deliverAll(aliceMessages, bob);
+    bob.insertAt(2, "x");
+    deliverAll(bobMessages, alice);
+
+    undo.undo();
+    assert.strictEqual(alice.toString(), "x");
+    deliverAll(aliceMessages, bob);
+    assert.strictEqual(bob.toString(), "x");
+  });
+
+  it("undoes a transaction as one step", () => {
+    alice.insertAt(0, "hello world");
+    undo.stopCapturing();
+    alice.transact(() => {
+      alice.deleteAt(6, 5);
+      alice.insertAt(6, "there");
+    });
+    // Not grouped with the transaction.
+    alice.insertAt(11, "!");
+    assert.strictEqual(alice.toString(), "hello there!");
+
+    undo.undo();
+    assert.strictEqual(alice.toString(), "hello there");
+    undo.undo();
+    assert.strictEqual(alice.toString(), "hello world");
+    undo.redo();
+    assert.strictEqual(alice.toString(), "hello there");
+    deliverAll(aliceMessages, bob);
+    assert.strictEqual(bob.toString(), "hello there");
+  });
+
+  it("works with ListCrdt", () => {
+    const messages: ListCrdtMessage<number>[] = [];
+    const list = new ListCrdt<number>((message) => messages.push(message));
+    const listUndo = new UndoManager(list);
+    list.insertAt(0, 1, 2, 3);
+    listUndo.stopCapturing();
+    list.moveAt(0, 3);
+    list.deleteAt(0, 2);
+    assert.deepStrictEqual(list.slice(), [1]);
+
+    listUndo.undo();
+    assert.deepStrictEqual(list.slice(), [2, 3, 1]);
+    listUndo.undo();
+    assert.deepStrictEqual(list.slice(), []);
+
+    const other = new ListCrdt<number>(() => {});
+    for (const message of messages) other.receive(message);
+    assert.deepStrictEqual(other.slice(), []);
+  });
+});
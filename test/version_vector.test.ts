@@ -0,0 +1,42 @@
+import { describe } from "mocha";
+import { assert } from "chai";
+import {
+  compareVersionVectors,
+  mergeVersionVectors,
+  versionVectorGap,
+} from "../src";
+
+describe("version vectors", () => {
+  it("compares", () => {
+    assert.strictEqual(compareVersionVectors({}, {}), "equal");
+    assert.strictEqual(
+      compareVersionVectors({ a: 2 }, { a: 2, b: 0 }),
+      "equal"
+    );
+    assert.strictEqual(compareVersionVectors({ a: 1 }, { a: 2 }), "before");
+    assert.strictEqual(
+      compareVersionVectors({ a: 2, b: 1 }, { a: 2 }),
+      "after"
+    );
+    assert.strictEqual(
+      compareVersionVectors({ a: 2, b: 1 }, { a: 3 }),
+      "concurrent"
+    );
+  });
+
+  it("finds gaps", () => {
+    assert.deepStrictEqual(versionVectorGap({ a: 2 }, { a: 2 }), {});
+    assert.deepStrictEqual(
+      versionVectorGap({ a: 2, b: 5 }, { a: 4, b: 1, c: 3 }),
+      { a: [2, 4], c: [0, 3] }
+    );
+  });
+
+  it("merges", () => {
+    assert.deepStrictEqual(mergeVersionVectors(), {});
+    assert.deepStrictEqual(
+      mergeVersionVectors({ a: 2, b: 1 }, { a: 1, c: 3 }, { b: 4 }),
+      { a: 2, b: 4, c: 3 }
+    );
+  });
+});